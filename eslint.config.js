@@ -38,7 +38,18 @@ export default [
         fetch: 'readonly',
         AbortController: 'readonly',
         URL: 'readonly',
+        URLSearchParams: 'readonly',
         MutationObserver: 'readonly',
+        Request: 'readonly',
+        Response: 'readonly',
+        // Offline support (service worker and IndexedDB)
+        self: 'readonly',
+        caches: 'readonly',
+        Location: 'readonly',
+        indexedDB: 'readonly',
+        IDBDatabase: 'readonly',
+        IDBObjectStore: 'readonly',
+        IDBRequest: 'readonly',
         setTimeout: 'readonly',
         clearTimeout: 'readonly',
         setInterval: 'readonly',
@@ -53,6 +64,7 @@ export default [
         HTMLButtonElement: 'readonly',
         HTMLCanvasElement: 'readonly',
         HTMLDivElement: 'readonly',
+        HTMLSelectElement: 'readonly',
         Event: 'readonly',
         MouseEvent: 'readonly',
         KeyboardEvent: 'readonly',
@@ -4,11 +4,13 @@
  */
 
 import { DailyWeatherData, HourlyWeatherData } from './open-meteo';
-import { Location, WeatherDataResponse } from './types';
+import { Location, WeatherDataResponse, ClimatologyResponse, YearOverYearResponse, UnitPreferences } from './types';
 import { getEnvVar } from './utils/env';
 import { NetworkError, APIError, ValidationError, wrapError } from './utils/simpleErrors';
 import { validateLocationData, validateWeatherData, validateDateRange } from './utils/responseValidator';
 import { addApiTask } from './utils/queue';
+import type { WeatherExportDataset } from './utils/weatherExport';
+import { METRIC_UNITS } from './utils/units';
 
 // Get API base URL from environment variable with proper validation
 const API_BASE_URL = (() => {
@@ -111,22 +113,36 @@ async function apiCall<T>(url: string): Promise<T> {
   }
 }
 
+/**
+ * The browser's preferred languages, most preferred first, e.g. "de-CH,de,en"
+ */
+const getPreferredLanguages = (): string | undefined => {
+  if (typeof navigator === 'undefined') {
+    return undefined;
+  }
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  return languages.filter(Boolean).join(',') || undefined;
+};
+
 /**
  * Searches for locations by calling the BFF's /api/search endpoint.
- * @param query The search query.
+ * @param query The search query, in any script.
+ * @param language Languages for result names; defaults to the browser's preferred languages.
  * @returns A promise that resolves to an array of matching locations.
  */
-export const bffSearchLocations = async (query: string): Promise<Location[]> => {
+export const bffSearchLocations = async (query: string, language = getPreferredLanguages()): Promise<Location[]> => {
   if (!query || query.trim().length === 0) {
     throw new ValidationError('Search query cannot be empty', 'query');
   }
 
-  const trimmedQuery = query.trim();
+  // NFC so composed and decomposed spellings share a queue entry and the server cache
+  const trimmedQuery = query.normalize('NFC').trim();
+  const langParam = language ? `&lang=${encodeURIComponent(language)}` : '';
 
   // Use queue system for reliable API calls with retry logic
   const response = await addApiTask<Location[]>(
-    `search-${trimmedQuery}`,
-    async () => await apiCall<Location[]>(`${API_BASE_URL}/search?q=${encodeURIComponent(trimmedQuery)}`),
+    `search-${language ?? ''}-${trimmedQuery}`,
+    async () => await apiCall<Location[]>(`${API_BASE_URL}/search?q=${encodeURIComponent(trimmedQuery)}${langParam}`),
     'API_SEARCH'
   );
 
@@ -146,14 +162,9 @@ export const bffSearchLocations = async (query: string): Promise<Location[]> =>
 };
 
 /**
- * Gets historical weather data by calling the BFF's /api/weather endpoint.
- * @param location The location object.  
- * @param startDate The start date of the date range.
- * @param endDate The end date of the date range.
- * @returns A promise that resolves to the weather data.
+ * Checks the location and date range shared by the /api/weather requests
  */
-export const bffGetWeather = async (location: Location, startDate: string, endDate: string): Promise<WeatherDataResponse> => {
-  // Validate inputs
+const validateWeatherRequest = (location: Location, startDate: string, endDate: string): void => {
   if (!location) {
     throw new ValidationError('Location is required', 'location');
   }
@@ -179,14 +190,36 @@ export const bffGetWeather = async (location: Location, startDate: string, endDa
       'dates'
     );
   }
+};
+
+const getWeatherUrl = (location: Location, startDate: string, endDate: string): string =>
+  `${API_BASE_URL}/weather?lat=${location.latitude}&lon=${location.longitude}&timezone=${encodeURIComponent(location.timezone)}&start=${startDate}&end=${endDate}`;
+
+/**
+ * Re-throws custom errors as-is and wraps anything else in a generic APIError
+ */
+const toWeatherError = (error: unknown): Error => {
+  if (error instanceof APIError || error instanceof NetworkError || error instanceof ValidationError) {
+    return error;
+  }
+  return new APIError('An unexpected error occurred while fetching weather data.', 500, error);
+};
+
+/**
+ * Gets historical weather data by calling the BFF's /api/weather endpoint.
+ * @param location The location object.  
+ * @param startDate The start date of the date range.
+ * @param endDate The end date of the date range.
+ * @returns A promise that resolves to the weather data.
+ */
+export const bffGetWeather = async (location: Location, startDate: string, endDate: string): Promise<WeatherDataResponse> => {
+  validateWeatherRequest(location, startDate, endDate);
 
   try {
     // Make API call with enhanced error handling and queue system
     const response = await addApiTask<{ daily: DailyWeatherData; hourly: HourlyWeatherData }>(
       `weather-${location.latitude}-${location.longitude}-${startDate}-${endDate}`,
-      async () => await apiCall<{ daily: DailyWeatherData; hourly: HourlyWeatherData }>(
-        `${API_BASE_URL}/weather?lat=${location.latitude}&lon=${location.longitude}&timezone=${encodeURIComponent(location.timezone)}&start=${startDate}&end=${endDate}`
-      ),
+      async () => await apiCall<{ daily: DailyWeatherData; hourly: HourlyWeatherData }>(getWeatherUrl(location, startDate, endDate)),
       'API_WEATHER'
     );
 
@@ -202,13 +235,117 @@ export const bffGetWeather = async (location: Location, startDate: string, endDa
 
     // Return properly typed response
     return response as WeatherDataResponse;
+  } catch (error: unknown) {
+    throw toWeatherError(error);
+  }
+};
+
+/**
+ * Gets the same dates from several years in one batched call to the BFF's /api/weather endpoint.
+ * @param location The location object.
+ * @param startDate The start date of the base date range.
+ * @param endDate The end date of the base date range.
+ * @param years The years to fetch the same dates from.
+ * @returns A promise that resolves to one weather entry per year.
+ */
+export const bffGetWeatherForYears = async (location: Location, startDate: string, endDate: string, years: number[]): Promise<YearOverYearResponse> => {
+  validateWeatherRequest(location, startDate, endDate);
+
+  if (years.length === 0 || !years.every(Number.isInteger)) {
+    throw new ValidationError('Years must be a non-empty list of whole years', 'years');
+  }
+
+  try {
+    // One request for every year so the server can batch and cache the upstream calls
+    const yearList = years.join(',');
+    const batched = await addApiTask<YearOverYearResponse>(
+      `weather-${location.latitude}-${location.longitude}-${startDate}-${endDate}-${yearList}`,
+      async () => await apiCall<YearOverYearResponse>(`${getWeatherUrl(location, startDate, endDate)}&years=${yearList}`),
+      'API_WEATHER'
+    );
+
+    if (!batched || !Array.isArray(batched.years)) {
+      throw new APIError('Invalid year-over-year weather response', 500, batched);
+    }
+    for (const entry of batched.years) {
+      const entryValidation = validateWeatherData(entry.weather);
+      if (!entryValidation.isValid) {
+        throw new APIError(
+          `Invalid weather data response for ${entry.year}: ${entryValidation.errors.map(e => e.message).join(', ')}`,
+          500,
+          entry
+        );
+      }
+    }
+
+    return batched;
+  } catch (error: unknown) {
+    throw toWeatherError(error);
+  }
+};
+
+/**
+ * Builds the URL of the BFF's /api/weather.csv endpoint for a download link.
+ * @param location The location object.
+ * @param startDate The start date of the date range.
+ * @param endDate The end date of the date range.
+ * @param dataset Whether to export the daily or hourly arrays.
+ * @param units The units to convert the exported values to (metric by default).
+ * @returns The download URL.
+ */
+export const getWeatherExportUrl = (location: Location, startDate: string, endDate: string, dataset: WeatherExportDataset, units: UnitPreferences = METRIC_UNITS): string => {
+  if (!location) {
+    throw new ValidationError('Location is required', 'location');
+  }
+
+  const dateValidation = validateDateRange(startDate, endDate);
+  if (!dateValidation.isValid) {
+    throw new ValidationError(
+      `Invalid date range: ${dateValidation.errors.map(e => e.message).join(', ')}`,
+      'dates'
+    );
+  }
+
+  return `${API_BASE_URL}/weather.csv?lat=${location.latitude}&lon=${location.longitude}&timezone=${encodeURIComponent(location.timezone)}&start=${startDate}&end=${endDate}&dataset=${dataset}&name=${encodeURIComponent(location.name)}`
+    + `&temperature_unit=${units.temperature}&wind_speed_unit=${units.windSpeed}&precipitation_unit=${units.precipitation}&pressure_unit=${units.pressure}`;
+};
+
+/**
+ * Gets "normal" values for a calendar date by calling the BFF's /api/climatology endpoint.
+ * @param location The location object.
+ * @param month The month of the calendar date (1-12).
+ * @param day The day of the calendar date (1-31).
+ * @param years The number of past years to summarize.
+ * @returns A promise that resolves to the climatology for that date.
+ */
+export const bffGetClimatology = async (location: Location, month: number, day: number, years: number): Promise<ClimatologyResponse> => {
+  if (!location) {
+    throw new ValidationError('Location is required', 'location');
+  }
+
+  if (!Number.isInteger(month) || month < 1 || month > 12 || !Number.isInteger(day) || day < 1 || day > 31) {
+    throw new ValidationError('A valid month and day are required', 'date');
+  }
+
+  try {
+    const response = await addApiTask<ClimatologyResponse>(
+      `climatology-${location.latitude}-${location.longitude}-${month}-${day}-${years}`,
+      async () => await apiCall<ClimatologyResponse>(
+        `${API_BASE_URL}/climatology?lat=${location.latitude}&lon=${location.longitude}&timezone=${encodeURIComponent(location.timezone)}&month=${month}&day=${day}&years=${years}`
+      ),
+      'API_WEATHER'
+    );
+
+    if (!response || !Array.isArray(response.samples) || typeof response.stats !== 'object') {
+      throw new APIError('Invalid climatology response', 500, response);
+    }
+
+    return response;
   } catch (error: unknown) {
     if (error instanceof APIError || error instanceof NetworkError || error instanceof ValidationError) {
-      // Re-throw custom errors as-is
       throw error;
     }
-    // Wrap other errors in a generic APIError
-    throw new APIError('An unexpected error occurred while fetching weather data.', 500, error);
+    throw new APIError('An unexpected error occurred while fetching climatology data.', 500, error);
   }
 };
 
@@ -233,17 +370,18 @@ export function validateCoordinates(latitude: number, longitude: number): void {
 
 
 /**
- * Reverse geocode coordinates to get location information
+ * Reverse geocode coordinates to get location information, named in the browser's preferred languages
  */
-export async function bffReverseGeocode(latitude: number, longitude: number): Promise<Location> {
+export async function bffReverseGeocode(latitude: number, longitude: number, language = getPreferredLanguages()): Promise<Location> {
   try {
     validateCoordinates(latitude, longitude);
+    const langParam = language ? `&lang=${encodeURIComponent(language)}` : '';
 
     // Use queue system for reliable reverse geocoding with retry logic
     return await addApiTask<Location>(
-      `geocode-${latitude}-${longitude}`,
+      `geocode-${language ?? ''}-${latitude}-${longitude}`,
       async () => await apiCall<Location>(
-        `${API_BASE_URL}/reverse-geocode?lat=${latitude}&lon=${longitude}`
+        `${API_BASE_URL}/reverse-geocode?lat=${latitude}&lon=${longitude}${langParam}`
       ),
       'API_GEOCODE'
     );
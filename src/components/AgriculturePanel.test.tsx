@@ -0,0 +1,69 @@
+import { h } from 'preact';
+
+import { render, fireEvent } from '@testing-library/preact';
+
+import '@testing-library/jest-dom';
+import { METRIC_UNITS } from '../utils/units';
+
+import { AgriculturePanel } from './AgriculturePanel';
+
+describe('AgriculturePanel', () => {
+  const mockLocation = {
+    id: 1,
+    name: 'Fresno',
+    latitude: 36.74,
+    longitude: -119.79,
+    elevation: 94,
+    feature_code: 'PPL',
+    country_code: 'US',
+    timezone: 'UTC',
+    country: 'United States'
+  };
+
+  const mockWeatherData = {
+    daily: {
+      time: [new Date('2023-04-01'), new Date('2023-04-02')],
+      temperature_2m_max: [24, 20],
+      temperature_2m_min: [10, 6],
+      precipitation_sum: [4, 0],
+      et0_fao_evapotranspiration: [3, 4]
+    },
+    hourly: {
+      time: [new Date('2023-04-01T05:00:00Z'), new Date('2023-04-02T05:00:00Z')],
+      temperature_2m: [6, 9]
+    }
+  } as unknown as Parameters<typeof AgriculturePanel>[0]['weatherData'];
+
+  it('shows totals over the selected range', () => {
+    const { getByText } = render(
+      <AgriculturePanel weatherData={mockWeatherData} location={mockLocation} startDate="2023-04-01" endDate="2023-04-02" units={METRIC_UNITS} />
+    );
+
+    // (24 + 10) / 2 - 10 = 7, (20 + 6) / 2 - 10 = 3
+    expect(getByText('10.0 °C·d')).toBeInTheDocument();
+    expect(getByText('1 h')).toBeInTheDocument();
+    expect(getByText('-3.0 mm')).toBeInTheDocument();
+  });
+
+  it('recomputes with a new base temperature in the selected unit', () => {
+    const { getByLabelText, getByText } = render(
+      <AgriculturePanel weatherData={mockWeatherData} location={mockLocation} startDate="2023-04-01" endDate="2023-04-02" units={{ ...METRIC_UNITS, temperature: 'F' }} />
+    );
+
+    expect(getByLabelText('Base temperature (°F)')).toHaveValue(50);
+    // 41 °F = 5 °C: (12 + 8) °C-days = 36 °F-days
+    fireEvent.change(getByLabelText('Base temperature (°F)'), { target: { value: '41' } });
+
+    expect(getByText('36.0 °F·d')).toBeInTheDocument();
+  });
+
+  it('warns about an upper threshold below the base', () => {
+    const { getByLabelText, getByRole } = render(
+      <AgriculturePanel weatherData={mockWeatherData} location={mockLocation} startDate="2023-04-01" endDate="2023-04-02" units={METRIC_UNITS} />
+    );
+
+    fireEvent.change(getByLabelText('Upper threshold (°C, optional)'), { target: { value: '5' } });
+
+    expect(getByRole('alert')).toHaveTextContent('must be above the base temperature');
+  });
+});
@@ -0,0 +1,154 @@
+import { h } from 'preact';
+
+import type { JSX } from 'preact/jsx-runtime';
+import { useState } from 'preact/hooks';
+
+import { DailyWeatherData, HourlyWeatherData } from '../open-meteo.js';
+import { Location, UnitPreferences } from '../types.js';
+import { computeAgricultureIndices } from '../utils/agriculture';
+import { getCurrentDateString, parseDateString } from '../utils/dateUtils';
+import { convertValue, formatValue, getUnitLabel, toMetricValue } from '../utils/units';
+import { AGRICULTURE } from '../constants';
+
+interface AgriculturePanelProps {
+  weatherData?: { daily: DailyWeatherData; hourly: HourlyWeatherData } | null;
+  location?: Location | null;
+  startDate?: string;
+  endDate?: string;
+  units: UnitPreferences;
+  isLoading?: boolean;
+}
+
+export const AgriculturePanel = ({ weatherData, location, startDate, endDate, units, isLoading = false }: AgriculturePanelProps): JSX.Element | null => {
+  // Thresholds are kept in °C and shown in the selected unit
+  const [baseTemperature, setBaseTemperature] = useState<number>(AGRICULTURE.DEFAULT_BASE_TEMPERATURE);
+  const [upperThreshold, setUpperThreshold] = useState<number | null>(null);
+
+  if (isLoading || !weatherData || !location) {
+    return null;
+  }
+
+  const effectiveStartDate = startDate || getCurrentDateString();
+  const effectiveEndDate = endDate || effectiveStartDate;
+  const validUpper = upperThreshold !== null && upperThreshold > baseTemperature ? upperThreshold : null;
+  const indices = computeAgricultureIndices(weatherData, location, effectiveStartDate, effectiveEndDate, {
+    baseTemperature,
+    upperThreshold: validUpper,
+  });
+
+  if (indices.days.length === 0) {
+    return null;
+  }
+
+  const temperatureLabel = getUnitLabel('temperature', units);
+  const waterLabel = getUnitLabel('precipitation', units);
+
+  // Degree days scale like temperature differences (1 °C-day = 1.8 °F-days)
+  const formatDegreeDays = (value: number | null): string =>
+    value === null ? '–' : convertValue(value, 'temperatureDifference', units).toFixed(1);
+  const formatWater = (value: number | null): string =>
+    value === null ? '–' : `${value > 0 ? '+' : ''}${formatValue(value, 'precipitation', units)}`;
+  const formatThreshold = (temp: number): string => String(Math.round(convertValue(temp, 'temperature', units) * 10) / 10);
+  const formatDay = (key: string): string => {
+    const date = parseDateString(key);
+    if (!date) return key;
+    return date.toLocaleDateString([], { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  };
+
+  const handleBaseInput = (e: Event) => {
+    const value = parseFloat((e.target as HTMLInputElement).value);
+    if (Number.isFinite(value)) {
+      const celsius = toMetricValue(value, 'temperature', units);
+      setBaseTemperature(Math.min(Math.max(celsius, AGRICULTURE.MIN_BASE_TEMPERATURE), AGRICULTURE.MAX_BASE_TEMPERATURE));
+    }
+  };
+
+  const handleUpperInput = (e: Event) => {
+    const value = parseFloat((e.target as HTMLInputElement).value);
+    setUpperThreshold(Number.isFinite(value) ? toMetricValue(value, 'temperature', units) : null);
+  };
+
+  const { totals } = indices;
+
+  return (
+    <div class="agriculture-panel" role="region" aria-label="Agricultural indices">
+      <h4>Agricultural Indices</h4>
+      <div class="agriculture-controls">
+        <label>
+          Base temperature ({temperatureLabel})
+          <input
+            type="number"
+            step="0.5"
+            value={formatThreshold(baseTemperature)}
+            onChange={handleBaseInput}
+          />
+        </label>
+        <label>
+          Upper threshold ({temperatureLabel}, optional)
+          <input
+            type="number"
+            step="0.5"
+            value={upperThreshold === null ? '' : formatThreshold(upperThreshold)}
+            onChange={handleUpperInput}
+            placeholder="none"
+          />
+        </label>
+      </div>
+      {upperThreshold !== null && validUpper === null && (
+        <p class="year-input-error" role="alert">The upper threshold must be above the base temperature and is ignored.</p>
+      )}
+
+      <dl class="agriculture-totals">
+        <div>
+          <dt>Growing degree days</dt>
+          <dd>{formatDegreeDays(totals.gdd)} {temperatureLabel}·d</dd>
+        </div>
+        <div>
+          <dt>Chill hours ({formatThreshold(AGRICULTURE.CHILL_MIN_TEMPERATURE)}–{formatThreshold(AGRICULTURE.CHILL_MAX_TEMPERATURE)} {temperatureLabel})</dt>
+          <dd>{totals.chillHours} h</dd>
+        </div>
+        <div>
+          <dt>Precipitation</dt>
+          <dd>{formatValue(totals.precipitation, 'precipitation', units)} {waterLabel}</dd>
+        </div>
+        <div>
+          <dt>Reference ET₀</dt>
+          <dd>{formatValue(totals.et0, 'precipitation', units)} {waterLabel}</dd>
+        </div>
+        <div>
+          <dt>Water balance (P − ET₀)</dt>
+          <dd>{formatWater(totals.waterBalance)} {waterLabel}</dd>
+        </div>
+      </dl>
+
+      {indices.days.length > 1 && (
+        <div class="comparison-table-scroll">
+          <table class="comparison-table">
+            <thead>
+              <tr>
+                <th scope="col">Date</th>
+                <th scope="col">GDD</th>
+                <th scope="col">Total GDD</th>
+                <th scope="col">Chill (h)</th>
+                <th scope="col">P − ET₀ ({waterLabel})</th>
+                <th scope="col">Balance ({waterLabel})</th>
+              </tr>
+            </thead>
+            <tbody>
+              {indices.days.map((day) => (
+                <tr key={day.date}>
+                  <th scope="row">{formatDay(day.date)}</th>
+                  <td>{formatDegreeDays(day.gdd)}</td>
+                  <td>{formatDegreeDays(day.cumulativeGdd)}</td>
+                  <td>{day.chillHours}</td>
+                  <td>{formatWater(day.waterBalance)}</td>
+                  <td>{formatWater(day.cumulativeWaterBalance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
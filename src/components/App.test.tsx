@@ -10,7 +10,10 @@ import App from './App';
 jest.mock('../api', () => ({
   bffSearchLocations: jest.fn(),
   bffGetWeather: jest.fn(),
+  bffGetWeatherForYears: jest.fn(),
   bffReverseGeocode: jest.fn(),
+  bffGetClimatology: jest.fn(),
+  getWeatherExportUrl: jest.fn(),
 }));
 
 describe('App', () => {
@@ -77,8 +80,8 @@ describe('App', () => {
     (bffGetWeather as jest.Mock).mockResolvedValue(mockWeather);
 
     render(<App />);
-    const dateInput = screen.getByLabelText('Selected date');
-    fireEvent.change(dateInput, { target: { value: '2023-01-01' } });
-    expect(dateInput).toHaveValue('2023-01-01');
+    const startInput = screen.getByLabelText('Start date');
+    fireEvent.change(startInput, { target: { value: '2023-01-01' } });
+    expect(startInput).toHaveValue('2023-01-01');
   });
 });
@@ -3,12 +3,20 @@ import { h } from 'preact';
 import { useState, useEffect, useCallback, useRef } from 'preact/hooks';
 
 
-import { bffGetWeather, bffReverseGeocode } from '../api';
-import { Location } from '../types';
-import { DailyWeatherData, HourlyWeatherData } from '../open-meteo';
+import { bffGetWeather, bffGetWeatherForYears, bffReverseGeocode, bffGetClimatology, getWeatherExportUrl } from '../api';
+import { Location, ClimatologyResponse, ChartSeries, ChartId, FavoriteLocation, YearOverYearResponse, UnitPreferences } from '../types';
+import { DailyWeatherData, GridCell, HourlyWeatherData } from '../open-meteo';
 import { SimpleCacheManager } from '../utils/simpleCacheManager';
-import { getCurrentDateString, parseDateString } from '../utils/dateUtils';
-import { DEFAULT_LATITUDE, DEFAULT_LONGITUDE, CACHE_TTL, APP_VERSION } from '../constants';
+import { IndexedDbCacheStore } from '../utils/indexedDbCacheStore';
+import { getCurrentDateString, parseDateString, isValidDateRange, isArchiveSettled, filterYearsWithPastRange } from '../utils/dateUtils';
+import { DEFAULT_LATITUDE, DEFAULT_LONGITUDE, CACHE_TTL, APP_VERSION, CLIMATOLOGY, COMPARISON, CHART_IDS } from '../constants';
+import { isSameLocation } from '../utils/weatherUtils';
+import { snapCoordinates } from '../utils/coordinateGrid';
+import { createCoordinateLocation } from '../utils/coordinateInput';
+import { DEFAULT_UNIT_PREFERENCES, parseUnitPreferences } from '../utils/units';
+import { buildUrlSearch, parseUrlState } from '../utils/urlState';
+import { parseFavorites, serializeFavorites } from '../utils/favorites';
+import type { WeatherExportDataset } from '../utils/weatherExport';
 import { ValidationError, APIError, NetworkError } from '../utils/simpleErrors';
 
 import { MapComponent } from './MapComponent';
@@ -17,6 +25,16 @@ import { LocationSearch } from './LocationSearch';
 import { WeatherDisplay } from './WeatherDisplay';
 import { TemperatureChart } from './TemperatureChart';
 import { PrecipitationChart } from './PrecipitationChart';
+import { WindChart } from './WindChart';
+import { HumidityChart } from './HumidityChart';
+import { SolarChart } from './SolarChart';
+import { AgriculturePanel } from './AgriculturePanel';
+import { PinnedLocations } from './PinnedLocations';
+import { ComparisonTable } from './ComparisonTable';
+import { ChartToggles } from './ChartToggles';
+import { ConnectionStatus } from './ConnectionStatus';
+import { Favorites } from './Favorites';
+import { YearComparison } from './YearComparison';
 import { useErrorHandler } from './useErrorHandler';
 import { ErrorBoundary } from './ErrorBoundary';
 
@@ -27,26 +45,47 @@ import '../styles.css';
 interface WeatherData {
   daily: DailyWeatherData;
   hourly: HourlyWeatherData;
+  grid?: GridCell;
 }
 
+// Weather is the same anywhere in one grid cell, so nearby points share cache entries
+const gridKey = (location: Location): [number, number] => {
+  const { latitude, longitude } = snapCoordinates(location.latitude, location.longitude);
+  return [latitude, longitude];
+};
+
 const App = () => {
   const [currentLocation, setCurrentLocation] = useState<Location | null>(null);
   const [geolocationRequested, setGeolocationRequested] = useState<boolean>(false);
   const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
-  const [temperatureUnit, setTemperatureUnit] = useState<'C' | 'F'>('F');
+  const [climatology, setClimatology] = useState<ClimatologyResponse | null>(null);
+  const [pinnedLocations, setPinnedLocations] = useState<Location[]>([]);
+  const [favorites, setFavorites] = useState<FavoriteLocation[]>([]);
+  const [comparisonSeries, setComparisonSeries] = useState<ChartSeries[]>([]);
+  const [comparisonYears, setComparisonYears] = useState<number[]>([]);
+  const [yearSeries, setYearSeries] = useState<ChartSeries[]>([]);
+  const [units, setUnits] = useState<UnitPreferences>(DEFAULT_UNIT_PREFERENCES);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isWeatherCached, setIsWeatherCached] = useState<boolean>(false);
   const [isDarkMode, setIsDarkMode] = useState<boolean>(true);
+  const [activeCharts, setActiveCharts] = useState<ChartId[]>([...CHART_IDS]);
   const { error, handleError, clearError } = useErrorHandler();
 
   // Use refs to track cache managers for proper cleanup
   const searchCacheRef = useRef<SimpleCacheManager<Location[]>>(new SimpleCacheManager<Location[]>(CACHE_TTL.SEARCH));
-  const weatherCacheRef = useRef<SimpleCacheManager<WeatherData>>(new SimpleCacheManager<WeatherData>(CACHE_TTL.WEATHER));
-  const reverseGeocodeCacheRef = useRef<SimpleCacheManager<Location>>(new SimpleCacheManager<Location>(CACHE_TTL.REVERSE_GEOCODE));
+  // Weather and place names are also saved to IndexedDB so they survive reloads and work offline
+  const weatherCacheRef = useRef<SimpleCacheManager<WeatherData>>(new SimpleCacheManager<WeatherData>(CACHE_TTL.WEATHER, { store: new IndexedDbCacheStore<WeatherData>('weather') }));
+  const reverseGeocodeCacheRef = useRef<SimpleCacheManager<Location>>(new SimpleCacheManager<Location>(CACHE_TTL.REVERSE_GEOCODE, { store: new IndexedDbCacheStore<Location>('reverse-geocode') }));
+  const cacheRestoreRef = useRef<Promise<unknown> | null>(null);
+  const climatologyCacheRef = useRef<SimpleCacheManager<ClimatologyResponse>>(new SimpleCacheManager<ClimatologyResponse>(CACHE_TTL.CLIMATOLOGY));
+  const yearOverYearCacheRef = useRef<SimpleCacheManager<YearOverYearResponse>>(new SimpleCacheManager<YearOverYearResponse>(CACHE_TTL.WEATHER));
 
   // Create cache managers with different TTLs for different data types
   const _searchCache = searchCacheRef.current;
   const weatherCache = weatherCacheRef.current;
   const reverseGeocodeCache = reverseGeocodeCacheRef.current;
+  const climatologyCache = climatologyCacheRef.current;
+  const yearOverYearCache = yearOverYearCacheRef.current;
 
   const getCacheKey = useCallback((fnName: string, ...args: unknown[]) => {
     // Create a more reliable cache key by handling different argument types
@@ -71,31 +110,66 @@ const App = () => {
   }, []);
 
 
+  // Loads the saved weather and place names once, before the first lookup
+  const restoreCaches = useCallback((): Promise<unknown> => {
+    cacheRestoreRef.current ??= Promise.all([weatherCache.restore(), reverseGeocodeCache.restore()])
+      .catch((error) => console.warn('Could not restore the offline cache:', error));
+    return cacheRestoreRef.current;
+  }, [weatherCache, reverseGeocodeCache]);
+
+  const getWeatherCacheKey = useCallback((location: Location, start: string, end: string) => {
+    return `weather:${getCacheKey('getWeather', ...gridKey(location), start, end)}`;
+  }, [getCacheKey]);
+
   const cachedGetWeather = useCallback(async (location: Location, start: string, end: string): Promise<WeatherData> => {
-    const key = `weather:${getCacheKey('getWeather', location.latitude, location.longitude, start, end)}`;
+    await restoreCaches();
+    const key = getWeatherCacheKey(location, start, end);
     const cached = weatherCache.get(key);
     if (cached) return cached;
     const data = await bffGetWeather(location, start, end);
-    weatherCache.set(key, data);
+    // Settled archive data never changes, so keep it for offline use
+    weatherCache.set(key, data, isArchiveSettled(end) ? CACHE_TTL.HISTORICAL : CACHE_TTL.WEATHER);
     return data;
-  }, [weatherCache, getCacheKey]);
+  }, [weatherCache, getWeatherCacheKey, restoreCaches]);
 
   const cachedReverseGeocode = useCallback(async (lat: number, lng: number): Promise<Location> => {
+    await restoreCaches();
     const key = `reverse-geocode:${getCacheKey('reverseGeocode', lat, lng)}`;
     const cached = reverseGeocodeCache.get(key);
     if (cached) return cached;
     const data = await bffReverseGeocode(lat, lng);
     reverseGeocodeCache.set(key, data);
     return data;
-  }, [reverseGeocodeCache, getCacheKey]);
+  }, [reverseGeocodeCache, getCacheKey, restoreCaches]);
+
+  const cachedGetClimatology = useCallback(async (location: Location, month: number, day: number): Promise<ClimatologyResponse> => {
+    const key = `climatology:${getCacheKey('getClimatology', ...gridKey(location), month, day, CLIMATOLOGY.DEFAULT_YEARS)}`;
+    const cached = climatologyCache.get(key);
+    if (cached) return cached;
+    const data = await bffGetClimatology(location, month, day, CLIMATOLOGY.DEFAULT_YEARS);
+    climatologyCache.set(key, data);
+    return data;
+  }, [climatologyCache, getCacheKey]);
+
+  const cachedGetWeatherForYears = useCallback(async (location: Location, start: string, end: string, years: number[]): Promise<YearOverYearResponse> => {
+    const key = `weather-years:${getCacheKey('getWeather', ...gridKey(location), start, end, years.join(','))}`;
+    const cached = yearOverYearCache.get(key);
+    if (cached) return cached;
+    const data = await bffGetWeatherForYears(location, start, end, years);
+    yearOverYearCache.set(key, data);
+    return data;
+  }, [yearOverYearCache, getCacheKey]);
 
   const fetchWeatherData = useCallback(async (location: Location, start: string, end: string) => {
     setIsLoading(true);
     clearError();
     try {
+      await restoreCaches();
+      setIsWeatherCached(weatherCache.has(getWeatherCacheKey(location, start, end)));
       const data = await cachedGetWeather(location, start, end);
       setWeatherData(data);
     } catch (err: unknown) {
+      setIsWeatherCached(false);
       if (err instanceof ValidationError) {
         handleError(`Invalid input: ${err.message}`, 'error');
       } else if (err instanceof APIError) {
@@ -108,7 +182,7 @@ const App = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [cachedGetWeather, setIsLoading, clearError, handleError, setWeatherData]);
+  }, [cachedGetWeather, restoreCaches, weatherCache, getWeatherCacheKey, setIsLoading, clearError, handleError, setWeatherData]);
 
   const handleGeolocationClick = useCallback(async () => {
     if (geolocationRequested) return;
@@ -185,38 +259,51 @@ const App = () => {
     } catch (error) {
       console.error(`[DEBUG] Reverse geocode failed in map select:`, error);
       handleError('Could not determine location name. Using coordinates.', 'warning');
-      const fallbackLocation: Location = {
-        id: 0,
-        name: `Location (${lat.toFixed(4)}, ${lng.toFixed(4)})`,
-        latitude: lat,
-        longitude: lng,
-        elevation: 0,
-        feature_code: 'PPL',
-        country_code: 'XX',
-        timezone: 'UTC',
-        country: 'Unknown'
-      };
-      setCurrentLocation(fallbackLocation);
+      setCurrentLocation(createCoordinateLocation(lat, lng));
     } finally {
       setIsLoading(false);
       setGeolocationRequested(false);
     }
   }, [clearError, setIsLoading, cachedReverseGeocode, setCurrentLocation, handleError, setGeolocationRequested]);
 
-  const handleTemperatureUnitChange = useCallback((unit: 'C' | 'F') => {
-    setTemperatureUnit(unit);
-  }, [setTemperatureUnit]);
+  // Saved only when the user picks units, so units from an opened link last for that session
+  const handleUnitsChange = useCallback((next: UnitPreferences) => {
+    setUnits(next);
+    try {
+      localStorage.setItem('unitPreferences', JSON.stringify(next));
+    } catch (error) {
+      console.warn('Could not save unit preferences:', error);
+    }
+  }, [setUnits]);
 
-  // Set default to today
+  const handlePinLocation = useCallback((location: Location) => {
+    setPinnedLocations(prev => {
+      if (prev.length >= COMPARISON.MAX_LOCATIONS || prev.some(pinned => isSameLocation(pinned, location))) {
+        return prev;
+      }
+      return [...prev, location];
+    });
+  }, []);
+
+  const handleUnpinLocation = useCallback((location: Location) => {
+    setPinnedLocations(prev => prev.filter(pinned => !isSameLocation(pinned, location)));
+  }, []);
+
+  const handleClearPinnedLocations = useCallback(() => {
+    setPinnedLocations([]);
+  }, []);
+
+  // Set default range to today
   const todayString = getCurrentDateString();
-  const [selectedDate, setSelectedDate] = useState<string>(todayString);
+  const [startDate, setStartDate] = useState<string>(todayString);
+  const [endDate, setEndDate] = useState<string>(todayString);
 
   // Debounce utility to prevent excessive API calls on rapid date changes
-  const debounce = useCallback((callback: (date: string) => void, delay: number) => {
+  const debounce = useCallback((callback: (start: string, end: string) => void, delay: number) => {
     let timeoutId: number;
-    return (date: string) => {
+    return (start: string, end: string) => {
       window.clearTimeout(timeoutId);
-      timeoutId = window.setTimeout(() => callback(date), delay);
+      timeoutId = window.setTimeout(() => callback(start, end), delay);
     };
   }, []);
 
@@ -253,15 +340,40 @@ const App = () => {
     return true;
   }, [handleError]);
 
-  const handleDateChange = useCallback((date: string) => {
-    if (!validateDate(date)) return;
+  const handleDateRangeChange = useCallback((start: string, end: string) => {
+    if (!validateDate(start) || !validateDate(end)) return;
+    if (!isValidDateRange(start, end)) {
+      handleError('Date range must start before it ends and cannot exceed 365 days');
+      return;
+    }
     clearError();
-    setSelectedDate(date);
-  }, [validateDate, clearError, setSelectedDate]);
+    setStartDate(start);
+    setEndDate(end);
+    // A year whose copy of the new range is not over yet would fail the whole year-over-year request
+    setComparisonYears(prev => {
+      const available = filterYearsWithPastRange(start, end, prev);
+      return available.length === prev.length ? prev : available;
+    });
+  }, [validateDate, handleError, clearError, setStartDate, setEndDate]);
 
-  const debouncedDateChange = useCallback(debounce(handleDateChange, 500), [debounce, handleDateChange]);
+  const debouncedDateRangeChange = useCallback(debounce(handleDateRangeChange, 500), [debounce, handleDateRangeChange]);
 
-  const handleDateChangeDebounced = useCallback((date: string) => debouncedDateChange(date), [debouncedDateChange]);
+  const handleDateRangeChangeDebounced = useCallback((start: string, end: string) => debouncedDateRangeChange(start, end), [debouncedDateRangeChange]);
+
+  // Download the current query as CSV; the server sends it as an attachment
+  const handleExport = useCallback((dataset: WeatherExportDataset) => {
+    if (!currentLocation) return;
+    try {
+      const link = document.createElement('a');
+      link.href = getWeatherExportUrl(currentLocation, startDate, endDate, dataset, units);
+      link.download = '';
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+    } catch (err: unknown) {
+      handleError(err instanceof Error ? `Export failed: ${err.message}` : 'Export failed', 'error');
+    }
+  }, [currentLocation, startDate, endDate, units, handleError]);
 
   // Don't load default location automatically - wait for user selection
   // useEffect for default location removed to prevent auto-selection
@@ -269,25 +381,115 @@ const App = () => {
   useEffect(() => {
     console.log('[DEBUG] App useEffect triggered:', {
       currentLocation: currentLocation ? `${currentLocation.name} (${currentLocation.latitude}, ${currentLocation.longitude})` : 'null',
-      selectedDate,
+      startDate,
+      endDate,
       hasLocation: !!currentLocation,
-      hasDate: !!selectedDate,
-      dateIsValid: selectedDate ? /^\d{4}-\d{2}-\d{2}$/.test(selectedDate) : false
+      hasDates: !!startDate && !!endDate
     });
 
-    // Only fetch weather data if both location and date are selected
-    if (currentLocation && selectedDate) {
+    // Only fetch weather data if both location and date range are selected
+    if (currentLocation && startDate && endDate) {
       console.log('[DEBUG] Calling fetchWeatherData with:', {
         location: currentLocation.name,
-        startDate: selectedDate,
-        endDate: selectedDate,
-        dateFormat: selectedDate.match(/^\d{4}-\d{2}-\d{2}$/) ? 'valid' : 'invalid'
+        startDate,
+        endDate
       });
-      fetchWeatherData(currentLocation, selectedDate, selectedDate);
+      fetchWeatherData(currentLocation, startDate, endDate);
     } else {
-      console.log('[DEBUG] Missing location or date - not fetching weather data');
+      console.log('[DEBUG] Missing location or date range - not fetching weather data');
+    }
+  }, [currentLocation, startDate, endDate, fetchWeatherData]);
+
+  // Compare single-day selections against the normal for that calendar date
+  useEffect(() => {
+    const parsedDate = parseDateString(startDate);
+    if (!currentLocation || !parsedDate || startDate !== endDate) {
+      setClimatology(null);
+      return;
+    }
+
+    let cancelled = false;
+    cachedGetClimatology(currentLocation, parsedDate.getUTCMonth() + 1, parsedDate.getUTCDate())
+      .then((data) => {
+        if (!cancelled) setClimatology(data);
+      })
+      .catch((err: unknown) => {
+        // Climatology is supplementary; the daily card still renders without it
+        console.warn('Could not load climatology:', err);
+        if (!cancelled) setClimatology(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentLocation, startDate, endDate, cachedGetClimatology]);
+
+  // Fetch every pinned location for the selected range to overlay on the charts
+  useEffect(() => {
+    if (pinnedLocations.length < 2) {
+      setComparisonSeries([]);
+      return;
     }
-  }, [currentLocation, selectedDate, fetchWeatherData]);
+
+    let cancelled = false;
+    Promise.allSettled(pinnedLocations.map(location => cachedGetWeather(location, startDate, endDate)))
+      .then((results) => {
+        if (cancelled) return;
+        const series: ChartSeries[] = [];
+        results.forEach((result, index) => {
+          const location = pinnedLocations[index];
+          if (result.status === 'fulfilled') {
+            series.push({ label: location.name, location, weatherData: result.value, startDate, endDate });
+          } else {
+            // One failing location should not hide the others
+            console.warn(`Could not load comparison data for ${location.name}:`, result.reason);
+          }
+        });
+        setComparisonSeries(series);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pinnedLocations, startDate, endDate, cachedGetWeather]);
+
+  const isComparing = comparisonSeries.length >= 2;
+
+  // Overlay the same dates from the chosen years, always including the selected year
+  const baseYear = Number(startDate.slice(0, 4));
+  useEffect(() => {
+    if (!currentLocation || comparisonYears.length === 0) {
+      setYearSeries([]);
+      return;
+    }
+
+    const years = Array.from(new Set([baseYear, ...comparisonYears])).sort((a, b) => a - b);
+    let cancelled = false;
+    cachedGetWeatherForYears(currentLocation, startDate, endDate, years)
+      .then((data) => {
+        if (cancelled) return;
+        setYearSeries(data.years.map((entry) => ({
+          label: String(entry.year),
+          location: currentLocation,
+          weatherData: entry.weather,
+          startDate: entry.startDate,
+          endDate: entry.endDate
+        })));
+      })
+      .catch((err: unknown) => {
+        // The regular charts still render without the overlay
+        console.warn('Could not load year-over-year comparison:', err);
+        if (!cancelled) setYearSeries([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentLocation, startDate, endDate, baseYear, comparisonYears, cachedGetWeatherForYears]);
+
+  // A year-over-year overlay takes precedence over pinned locations on the temperature chart
+  const isComparingYears = yearSeries.length >= 2;
+  const temperatureSeries = isComparingYears ? yearSeries : (isComparing ? comparisonSeries : undefined);
 
   // Cleanup cache managers on unmount to prevent memory leaks
   useEffect(() => {
@@ -318,25 +520,96 @@ const App = () => {
   }, []);
 
   // Apply dark mode class to body
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      if (isDarkMode) {
+        document.body.classList.add('dark-mode');
+      } else {
+        document.body.classList.remove('dark-mode');
+      }
+    }
+  }, [isDarkMode]);
+
+  // Initialize unit preferences from localStorage
   useEffect(() => {
     if (typeof window !== 'undefined') {
       try {
-        if (isDarkMode) {
-          document.body.classList.add('dark-mode');
-        } else {
-          document.body.classList.remove('dark-mode');
-        }
-        localStorage.setItem('darkMode', isDarkMode.toString());
+        setUnits(parseUnitPreferences(localStorage.getItem('unitPreferences')));
       } catch (error) {
-        console.warn('Could not save dark mode preference:', error);
+        console.warn('Could not access localStorage, using default units:', error);
       }
     }
-  }, [isDarkMode]);
+  }, []);
 
-  const toggleDarkMode = useCallback(() => {
-    setIsDarkMode(prev => !prev);
+  // Initialize saved locations from localStorage
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      try {
+        setFavorites(parseFavorites(localStorage.getItem('favorites')));
+      } catch (error) {
+        console.warn('Could not access localStorage, starting without saved locations:', error);
+      }
+    }
   }, []);
 
+  // Save favorites whenever they change
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      try {
+        localStorage.setItem('favorites', serializeFavorites(favorites));
+      } catch (error) {
+        console.warn('Could not save favorites:', error);
+      }
+    }
+  }, [favorites]);
+
+  // Restore a shared link; declared after the saved preferences so the link wins.
+  // Its units and theme apply to this visit only: they are not written back to the recipient's saved preferences.
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const linked = parseUrlState(window.location.search);
+    if (linked.units) {
+      const linkedUnits = linked.units;
+      setUnits(prev => ({ ...prev, ...linkedUnits }));
+    }
+    if (linked.darkMode !== undefined) {
+      setIsDarkMode(linked.darkMode);
+    }
+    if (linked.charts) {
+      setActiveCharts(linked.charts);
+    }
+    if (linked.startDate && linked.endDate) {
+      // Same checks as the date picker, so future or out-of-range dates show the usual message
+      handleDateRangeChange(linked.startDate, linked.endDate);
+    }
+    if (linked.location) {
+      handleLocationSelect(linked.location);
+    }
+    if (linked.invalid.length > 0) {
+      handleError(`Some link settings were invalid and have been ignored (${linked.invalid.join(', ')}).`, 'warning');
+    }
+  }, []); // Only the link the page was opened with is restored
+
+  // Keep the address bar in sync so the current view can be shared
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const search = buildUrlSearch({ location: currentLocation, startDate, endDate, units, charts: activeCharts, darkMode: isDarkMode });
+    if (search !== window.location.search) {
+      // Replace rather than push, so tweaking settings does not fill the back button history
+      window.history.replaceState(window.history.state, '', `${window.location.pathname}${search}${window.location.hash}`);
+    }
+  }, [currentLocation, startDate, endDate, units, activeCharts, isDarkMode]);
+
+  const toggleDarkMode = useCallback(() => {
+    const next = !isDarkMode;
+    setIsDarkMode(next);
+    try {
+      localStorage.setItem('darkMode', next.toString());
+    } catch (error) {
+      console.warn('Could not save dark mode preference:', error);
+    }
+  }, [isDarkMode]);
+
   return (
     <ErrorBoundary onError={(error: Error) => handleError(error.message, 'error')}>
       <>
@@ -345,6 +618,7 @@ const App = () => {
             <h1>Weather History Viewer <span className="version-text">v{APP_VERSION.CURRENT}</span></h1>
             <p className="header-subtitle">Vibe Coded by Clewless (sorry)</p>
             <div className="theme-toggle-container">
+              <ConnectionStatus isCached={isWeatherCached && !!weatherData} />
               <button
                 onClick={toggleDarkMode}
                 className="theme-toggle"
@@ -388,11 +662,35 @@ const App = () => {
                 onLocationSelect={handleLocationSelect}
                 currentLocation={currentLocation}
               />
+              <Favorites
+                favorites={favorites}
+                currentLocation={currentLocation}
+                onFavoritesChange={setFavorites}
+                onSelect={handleLocationSelect}
+              />
               <DateSelector
-               selectedDate={selectedDate}
-               onDateChange={handleDateChangeDebounced}
+               startDate={startDate}
+               endDate={endDate}
+               onDateRangeChange={handleDateRangeChangeDebounced}
                loading={isLoading}
              />
+              <PinnedLocations
+                pinnedLocations={pinnedLocations}
+                currentLocation={currentLocation}
+                onPin={handlePinLocation}
+                onUnpin={handleUnpinLocation}
+                onClear={handleClearPinnedLocations}
+              />
+              <YearComparison
+                baseYear={baseYear}
+                selectedYears={comparisonYears}
+                onYearsChange={setComparisonYears}
+                loading={isLoading}
+              />
+              <ChartToggles
+                activeCharts={activeCharts}
+                onChartsChange={setActiveCharts}
+              />
             </div>
             <div className="map-section">
               <h3>Map</h3>
@@ -401,6 +699,8 @@ const App = () => {
                   latitude={currentLocation?.latitude || DEFAULT_LATITUDE}
                   longitude={currentLocation?.longitude || DEFAULT_LONGITUDE}
                   onLocationSelect={handleMapLocationSelect}
+                  favorites={favorites}
+                  onFavoriteSelect={handleLocationSelect}
                   aria-label="Interactive map for location selection"
                 />
               </ErrorBoundary>
@@ -413,33 +713,98 @@ const App = () => {
                 <ErrorBoundary>
                   <WeatherDisplay
                     weatherData={weatherData}
+                    climatology={climatology}
                     location={currentLocation}
-                    temperatureUnit={temperatureUnit}
-                    onTemperatureUnitChange={handleTemperatureUnitChange}
+                    units={units}
+                    onUnitsChange={handleUnitsChange}
+                    onExport={handleExport}
                     isLoading={isLoading}
                     aria-label="Weather display for selected location and date range"
                   />
                 </ErrorBoundary>
-                <ErrorBoundary>
-                  <TemperatureChart
-                    weatherData={weatherData}
-                    temperatureUnit={temperatureUnit}
-                    location={currentLocation}
-                    startDate={selectedDate}
-                    isLoading={isLoading}
-                    aria-label="Daily temperature chart"
-                  />
-                </ErrorBoundary>
-                <ErrorBoundary>
-                  <PrecipitationChart
-                    weatherData={weatherData}
-                    temperatureUnit={temperatureUnit}
-                    location={currentLocation}
-                    startDate={selectedDate}
-                    isLoading={isLoading}
-                    aria-label="Daily precipitation chart"
-                  />
-                </ErrorBoundary>
+                {activeCharts.includes('temperature') && (
+                  <ErrorBoundary>
+                    <TemperatureChart
+                      weatherData={weatherData}
+                      units={units}
+                      location={currentLocation}
+                      startDate={startDate}
+                      endDate={endDate}
+                      isLoading={isLoading}
+                      series={temperatureSeries}
+                      aria-label="Daily temperature chart"
+                    />
+                  </ErrorBoundary>
+                )}
+                {activeCharts.includes('precipitation') && (
+                  <ErrorBoundary>
+                    <PrecipitationChart
+                      weatherData={weatherData}
+                      units={units}
+                      location={currentLocation}
+                      startDate={startDate}
+                      endDate={endDate}
+                      isLoading={isLoading}
+                      series={isComparing ? comparisonSeries : undefined}
+                      aria-label="Daily precipitation chart"
+                    />
+                  </ErrorBoundary>
+                )}
+                {activeCharts.includes('humidity') && (
+                  <ErrorBoundary>
+                    <HumidityChart
+                      weatherData={weatherData}
+                      units={units}
+                      location={currentLocation}
+                      startDate={startDate}
+                      endDate={endDate}
+                      isLoading={isLoading}
+                    />
+                  </ErrorBoundary>
+                )}
+                {activeCharts.includes('wind') && (
+                  <ErrorBoundary>
+                    <WindChart
+                      weatherData={weatherData}
+                      units={units}
+                      location={currentLocation}
+                      startDate={startDate}
+                      endDate={endDate}
+                      isLoading={isLoading}
+                    />
+                  </ErrorBoundary>
+                )}
+                {activeCharts.includes('solar') && (
+                  <ErrorBoundary>
+                    <SolarChart
+                      weatherData={weatherData}
+                      location={currentLocation}
+                      startDate={startDate}
+                      endDate={endDate}
+                      isLoading={isLoading}
+                    />
+                  </ErrorBoundary>
+                )}
+                {activeCharts.includes('agriculture') && (
+                  <ErrorBoundary>
+                    <AgriculturePanel
+                      weatherData={weatherData}
+                      location={currentLocation}
+                      startDate={startDate}
+                      endDate={endDate}
+                      units={units}
+                      isLoading={isLoading}
+                    />
+                  </ErrorBoundary>
+                )}
+                {isComparing && (
+                  <ErrorBoundary>
+                    <ComparisonTable
+                      series={comparisonSeries}
+                      units={units}
+                    />
+                  </ErrorBoundary>
+                )}
               </>
             )}
             {error?.message && (
@@ -0,0 +1,36 @@
+import { h } from 'preact';
+
+import { render, screen, fireEvent } from '@testing-library/preact';
+
+import '@testing-library/jest-dom';
+import { CHART_IDS } from '../constants';
+
+import { ChartToggles } from './ChartToggles';
+
+describe('ChartToggles', () => {
+  test('checks the active charts', () => {
+    render(<ChartToggles activeCharts={['temperature', 'wind']} onChartsChange={jest.fn()} />);
+
+    expect(screen.getByLabelText('Temperature')).toBeChecked();
+    expect(screen.getByLabelText('Wind')).toBeChecked();
+    expect(screen.getByLabelText('Solar')).not.toBeChecked();
+  });
+
+  test('hides a chart', () => {
+    const onChartsChange = jest.fn();
+    render(<ChartToggles activeCharts={[...CHART_IDS]} onChartsChange={onChartsChange} />);
+
+    fireEvent.click(screen.getByLabelText('Humidity'));
+
+    expect(onChartsChange).toHaveBeenCalledWith(CHART_IDS.filter((id) => id !== 'humidity'));
+  });
+
+  test('shows a chart again in display order', () => {
+    const onChartsChange = jest.fn();
+    render(<ChartToggles activeCharts={['wind']} onChartsChange={onChartsChange} />);
+
+    fireEvent.click(screen.getByLabelText('Temperature'));
+
+    expect(onChartsChange).toHaveBeenCalledWith(['temperature', 'wind']);
+  });
+});
@@ -0,0 +1,46 @@
+import { h } from 'preact';
+
+import type { JSX } from 'preact/jsx-runtime';
+
+import { CHART_IDS } from '../constants';
+import { ChartId } from '../types';
+
+const CHART_LABELS: Record<ChartId, string> = {
+  temperature: 'Temperature',
+  precipitation: 'Precipitation',
+  humidity: 'Humidity',
+  wind: 'Wind',
+  solar: 'Solar',
+  agriculture: 'Agriculture',
+};
+
+interface ChartTogglesProps {
+  activeCharts: ChartId[];
+  onChartsChange: (charts: ChartId[]) => void;
+}
+
+export const ChartToggles = ({ activeCharts, onChartsChange }: ChartTogglesProps): JSX.Element => {
+  const toggle = (id: ChartId) => {
+    const next = activeCharts.includes(id)
+      ? activeCharts.filter((active) => active !== id)
+      : [...activeCharts, id];
+    // Keep display order so the URL does not change with click order
+    onChartsChange(CHART_IDS.filter((chart) => next.includes(chart)));
+  };
+
+  return (
+    <fieldset class="chart-toggles">
+      <legend>Charts</legend>
+      {CHART_IDS.map((id) => (
+        <label key={id} class="chart-toggle">
+          <input
+            type="checkbox"
+            checked={activeCharts.includes(id)}
+            onChange={() => toggle(id)}
+          />
+          {CHART_LABELS[id]}
+        </label>
+      ))}
+    </fieldset>
+  );
+};
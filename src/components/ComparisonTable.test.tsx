@@ -0,0 +1,70 @@
+import { h } from 'preact';
+
+import { render } from '@testing-library/preact';
+
+import '@testing-library/jest-dom';
+import { ChartSeries } from '../types';
+import { METRIC_UNITS } from '../utils/units';
+
+import { ComparisonTable } from './ComparisonTable';
+
+const makeSeries = (label: string, max: number[], min: number[], precip: number[]): ChartSeries => ({
+  label,
+  location: {
+    id: 0,
+    name: label,
+    latitude: 0,
+    longitude: 0,
+    elevation: 0,
+    feature_code: 'PPL',
+    country_code: 'US',
+    timezone: 'UTC',
+    country: 'United States'
+  },
+  weatherData: {
+    daily: {
+      time: ['2023-06-15', '2023-06-16'],
+      temperature_2m_max: max,
+      temperature_2m_min: min,
+      precipitation_sum: precip
+    },
+    hourly: { time: [] }
+  } as unknown as ChartSeries['weatherData'],
+  startDate: '2023-06-15',
+  endDate: '2023-06-16'
+});
+
+describe('ComparisonTable', () => {
+  const series = [
+    makeSeries('New York', [25, 27], [18, 20], [0, 5.25]),
+    makeSeries('Boston', [22, 24], [15, 16], [1, 0])
+  ];
+
+  it('renders a column group per location', () => {
+    const { getByText } = render(<ComparisonTable series={series} units={METRIC_UNITS} />);
+
+    expect(getByText('New York')).toBeInTheDocument();
+    expect(getByText('Boston')).toBeInTheDocument();
+  });
+
+  it('renders one row per day with each location\'s values', () => {
+    const { getAllByRole } = render(<ComparisonTable series={series} units={METRIC_UNITS} />);
+
+    const rows = getAllByRole('row').slice(2);
+    expect(rows).toHaveLength(2);
+    const cells = Array.from(rows[1].querySelectorAll('td')).map((cell) => cell.textContent);
+    expect(cells).toEqual(['27°', '20°', '5.3', '24°', '16°', '0']);
+  });
+
+  it('converts temperatures to Fahrenheit', () => {
+    const { getAllByRole } = render(<ComparisonTable series={series} units={{ ...METRIC_UNITS, temperature: 'F' }} />);
+
+    const firstCell = getAllByRole('row')[2].querySelector('td');
+    expect(firstCell?.textContent).toBe('77°');
+  });
+
+  it('renders nothing without series', () => {
+    const { container } = render(<ComparisonTable series={[]} units={METRIC_UNITS} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,104 @@
+import { h } from 'preact';
+
+import type { JSX } from 'preact/jsx-runtime';
+
+import { ChartSeries, UnitPreferences } from '../types.js';
+import { parseDateString } from '../utils/dateUtils';
+import { convertValue, formatValue, getUnitLabel } from '../utils/units';
+
+interface ComparisonTableProps {
+  series: ChartSeries[];
+  units: UnitPreferences;
+}
+
+interface DailyValues {
+  max?: number;
+  min?: number;
+  precip?: number;
+}
+
+// Daily times arrive as YYYY-MM-DD strings from JSON, or Date objects in tests
+const toDateKey = (time: Date | string): string =>
+  typeof time === 'string' ? time.slice(0, 10) : time.toISOString().slice(0, 10);
+
+export const ComparisonTable = ({ series, units }: ComparisonTableProps): JSX.Element | null => {
+  if (series.length === 0) {
+    return null;
+  }
+
+  // Index each series' daily values by date so rows line up across locations
+  const valuesBySeries = series.map((item) => {
+    const values = new Map<string, DailyValues>();
+    const { daily } = item.weatherData;
+    (daily?.time ?? []).forEach((time: Date | string, index: number) => {
+      const key = toDateKey(time);
+      if (key >= item.startDate && key <= item.endDate) {
+        values.set(key, {
+          max: daily.temperature_2m_max?.[index],
+          min: daily.temperature_2m_min?.[index],
+          precip: daily.precipitation_sum?.[index]
+        });
+      }
+    });
+    return values;
+  });
+
+  const dates = Array.from(new Set(valuesBySeries.flatMap((values) => Array.from(values.keys())))).sort();
+
+  const formatTemperature = (temp?: number): string => {
+    if (typeof temp !== 'number' || !Number.isFinite(temp)) return '–';
+    return `${Math.round(convertValue(temp, 'temperature', units))}°`;
+  };
+
+  const formatPrecipitation = (precip?: number): string => {
+    if (typeof precip !== 'number' || !Number.isFinite(precip)) return '–';
+    // Drop trailing zeros so dry days read "0"
+    return `${Number(formatValue(precip, 'precipitation', units))}`;
+  };
+
+  const formatDate = (key: string): string => {
+    const date = parseDateString(key);
+    if (!date) return key;
+    return date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+  };
+
+  return (
+    <div class="comparison-table-container">
+      <h4>Daily Comparison</h4>
+      <div class="comparison-table-scroll">
+        <table class="comparison-table">
+          <thead>
+            <tr>
+              <th scope="col" rowSpan={2}>Date</th>
+              {series.map((item, index) => (
+                <th key={index} scope="colgroup" colSpan={3}>{item.label}</th>
+              ))}
+            </tr>
+            <tr>
+              {series.map((_, index) => [
+                <th key={`${index}-max`} scope="col">High ({getUnitLabel('temperature', units)})</th>,
+                <th key={`${index}-min`} scope="col">Low ({getUnitLabel('temperature', units)})</th>,
+                <th key={`${index}-precip`} scope="col">Precip ({getUnitLabel('precipitation', units)})</th>
+              ])}
+            </tr>
+          </thead>
+          <tbody>
+            {dates.map((date) => (
+              <tr key={date}>
+                <th scope="row">{formatDate(date)}</th>
+                {valuesBySeries.map((values, index) => {
+                  const day = values.get(date);
+                  return [
+                    <td key={`${index}-max`}>{formatTemperature(day?.max)}</td>,
+                    <td key={`${index}-min`}>{formatTemperature(day?.min)}</td>,
+                    <td key={`${index}-precip`}>{formatPrecipitation(day?.precip)}</td>
+                  ];
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import { h } from 'preact';
+
+import { render, act } from '@testing-library/preact';
+
+import '@testing-library/jest-dom';
+
+import { ConnectionStatus } from './ConnectionStatus';
+
+describe('ConnectionStatus', () => {
+  const setOnline = (online: boolean) => {
+    Object.defineProperty(window.navigator, 'onLine', { configurable: true, value: online });
+  };
+
+  afterEach(() => {
+    setOnline(true);
+  });
+
+  it('renders nothing while online with fresh data', () => {
+    const { container } = render(<ConnectionStatus isCached={false} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('marks cached data', () => {
+    const { getByRole } = render(<ConnectionStatus isCached />);
+    expect(getByRole('status')).toHaveTextContent('Cached');
+  });
+
+  it('follows the browser going offline and back online', () => {
+    const { getByRole, queryByRole } = render(<ConnectionStatus isCached={false} />);
+
+    act(() => {
+      setOnline(false);
+      window.dispatchEvent(new Event('offline'));
+    });
+    expect(getByRole('status')).toHaveTextContent('Offline');
+
+    act(() => {
+      setOnline(true);
+      window.dispatchEvent(new Event('online'));
+    });
+    expect(queryByRole('status')).not.toBeInTheDocument();
+  });
+});
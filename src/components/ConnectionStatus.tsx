@@ -0,0 +1,40 @@
+import { h } from 'preact';
+
+import type { JSX } from 'preact/jsx-runtime';
+import { useEffect, useState } from 'preact/hooks';
+
+interface ConnectionStatusProps {
+  /** Whether the weather on screen came from the local cache */
+  isCached: boolean;
+}
+
+const isBrowserOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+export const ConnectionStatus = ({ isCached }: ConnectionStatusProps): JSX.Element | null => {
+  const [isOnline, setIsOnline] = useState<boolean>(isBrowserOnline());
+
+  useEffect(() => {
+    const update = () => setIsOnline(isBrowserOnline());
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  if (isOnline && !isCached) {
+    return null;
+  }
+
+  const label = isOnline ? 'Cached' : 'Offline';
+  const description = isOnline
+    ? 'Showing weather saved on this device'
+    : 'You are offline; only previously viewed locations and dates are available';
+
+  return (
+    <span class={`connection-status ${isOnline ? 'cached' : 'offline'}`} role="status" title={description}>
+      {label}
+    </span>
+  );
+};
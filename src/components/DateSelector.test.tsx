@@ -3,64 +3,144 @@ import { h } from 'preact';
 import { render, fireEvent } from '@testing-library/preact';
 
 import '@testing-library/jest-dom';
+import { getPresetDateRange } from '../utils/dateUtils';
+
 import { DateSelector } from './DateSelector';
 
 describe('DateSelector', () => {
-  const mockOnDateChange = jest.fn();
-  const testDate = '2023-06-15';
+  const mockOnDateRangeChange = jest.fn();
+  const testStart = '2023-06-15';
+  const testEnd = '2023-06-20';
 
   beforeEach(() => {
-    mockOnDateChange.mockClear();
+    mockOnDateRangeChange.mockClear();
   });
 
   it('renders without crashing', () => {
     const { container } = render(
       <DateSelector
-        selectedDate={testDate}
-        onDateChange={mockOnDateChange}
+        startDate={testStart}
+        endDate={testEnd}
+        onDateRangeChange={mockOnDateRangeChange}
         loading={false}
       />
     );
     expect(container).toBeInTheDocument();
   });
 
-  it('displays the correct date', () => {
+  it('displays the correct start and end dates', () => {
+    const { getByLabelText } = render(
+      <DateSelector
+        startDate={testStart}
+        endDate={testEnd}
+        onDateRangeChange={mockOnDateRangeChange}
+        loading={false}
+      />
+    );
+    expect((getByLabelText('Start date') as HTMLInputElement).value).toBe(testStart);
+    expect((getByLabelText('End date') as HTMLInputElement).value).toBe(testEnd);
+  });
+
+  it('calls onDateRangeChange when the start date is changed', () => {
+    const { getByLabelText } = render(
+      <DateSelector
+        startDate={testStart}
+        endDate={testEnd}
+        onDateRangeChange={mockOnDateRangeChange}
+        loading={false}
+      />
+    );
+    const input = getByLabelText('Start date') as HTMLInputElement;
+
+    fireEvent.change(input, { target: { value: '2023-06-16' } });
+
+    expect(mockOnDateRangeChange).toHaveBeenCalledWith('2023-06-16', testEnd);
+  });
+
+  it('moves the end date forward when the start date passes it', () => {
     const { getByLabelText } = render(
       <DateSelector
-        selectedDate={testDate}
-        onDateChange={mockOnDateChange}
+        startDate={testStart}
+        endDate={testEnd}
+        onDateRangeChange={mockOnDateRangeChange}
         loading={false}
       />
     );
-    const input = getByLabelText('Selected date') as HTMLInputElement;
-    expect(input.value).toBe(testDate);
+    const input = getByLabelText('Start date') as HTMLInputElement;
+
+    fireEvent.change(input, { target: { value: '2023-06-25' } });
+
+    expect(mockOnDateRangeChange).toHaveBeenCalledWith('2023-06-25', '2023-06-25');
   });
 
-  it('calls onDateChange when date is changed', () => {
+  it('calls onDateRangeChange when the end date is changed', () => {
     const { getByLabelText } = render(
       <DateSelector
-        selectedDate={testDate}
-        onDateChange={mockOnDateChange}
+        startDate={testStart}
+        endDate={testEnd}
+        onDateRangeChange={mockOnDateRangeChange}
         loading={false}
       />
     );
-    const input = getByLabelText('Selected date') as HTMLInputElement;
-    
-    const newDate = '2023-06-16';
-    fireEvent.change(input, { target: { value: newDate } });
-    
-    expect(mockOnDateChange).toHaveBeenCalledWith(newDate);
+    const input = getByLabelText('End date') as HTMLInputElement;
+
+    fireEvent.change(input, { target: { value: '2023-06-30' } });
+
+    expect(mockOnDateRangeChange).toHaveBeenCalledWith(testStart, '2023-06-30');
+  });
+
+  it('applies a quick preset range', () => {
+    const { getByText } = render(
+      <DateSelector
+        startDate={testStart}
+        endDate={testEnd}
+        onDateRangeChange={mockOnDateRangeChange}
+        loading={false}
+      />
+    );
+
+    fireEvent.click(getByText('Last 7 days'));
+
+    const { start, end } = getPresetDateRange(7);
+    expect(mockOnDateRangeChange).toHaveBeenCalledWith(start, end);
+  });
+
+  it('selects a range by dragging across calendar days', () => {
+    const { getByLabelText, getAllByRole } = render(
+      <DateSelector
+        startDate={testStart}
+        endDate={testStart}
+        onDateRangeChange={mockOnDateRangeChange}
+        loading={false}
+      />
+    );
+
+    fireEvent.click(getByLabelText('Toggle calendar'));
+    const days = getAllByRole('button').filter(
+      (button) => button.classList.contains('calendar-day') && !(button as HTMLButtonElement).disabled
+    );
+    expect(days.length).toBeGreaterThan(2);
+
+    // Drag backwards from the third enabled day to the first one
+    fireEvent.mouseDown(days[2]);
+    fireEvent.mouseEnter(days[0]);
+    fireEvent.mouseUp(days[0]);
+
+    expect(mockOnDateRangeChange).toHaveBeenCalledTimes(1);
+    const [start, end] = mockOnDateRangeChange.mock.calls[0];
+    expect(start < end).toBe(true);
   });
 
   it('is disabled when loading', () => {
     const { getByLabelText } = render(
       <DateSelector
-        selectedDate={testDate}
-        onDateChange={mockOnDateChange}
+        startDate={testStart}
+        endDate={testEnd}
+        onDateRangeChange={mockOnDateRangeChange}
         loading={true}
       />
     );
-    const input = getByLabelText('Selected date') as HTMLInputElement;
-    expect(input).toBeDisabled();
+    expect(getByLabelText('Start date')).toBeDisabled();
+    expect(getByLabelText('End date')).toBeDisabled();
   });
-});
\ No newline at end of file
+});
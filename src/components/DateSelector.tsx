@@ -12,18 +12,25 @@ import {
   getNextMonth,
   formatDateForDisplay,
   formatDateForInput,
-  getMonthName
+  getMonthName,
+  getPresetDateRange,
+  getDateRangeLength
 } from '../utils/dateUtils';
 
+/** Quick range presets offered below the inputs (in days, ending today) */
+const RANGE_PRESETS = [7, 30, 90] as const;
+
 interface DateSelectorProps {
-  selectedDate: string;
-  onDateChange: (date: string) => void;
+  startDate: string;
+  endDate: string;
+  onDateRangeChange: (start: string, end: string) => void;
   loading?: boolean;
 }
 
 export const DateSelector = ({
-  selectedDate,
-  onDateChange,
+  startDate,
+  endDate,
+  onDateRangeChange,
   loading = false
 }: DateSelectorProps) => {
   const minDate = getMinDate();
@@ -34,11 +41,15 @@ export const DateSelector = ({
   const [calendarDays, setCalendarDays] = useState<Date[]>([]);
   const [currentMonth, setCurrentMonth] = useState(getCurrentDate());
   const [showCalendar, setShowCalendar] = useState(false);
-  
+
+  // Click-drag selection state on the calendar grid
+  const [dragAnchor, setDragAnchor] = useState<string | null>(null);
+  const [dragEnd, setDragEnd] = useState<string | null>(null);
+
   useEffect(() => {
     setCalendarDays(generateCalendarDays(currentMonth));
   }, [currentMonth]);
-  
+
   const handlePrevMonth = () => {
     setCurrentMonth(getPreviousMonth(currentMonth));
   };
@@ -46,34 +57,85 @@ export const DateSelector = ({
   const handleNextMonth = () => {
     setCurrentMonth(getNextMonth(currentMonth));
   };
-  
-  const isSelectedDate = (date: Date): boolean => {
-    return formatDateForInput(date) === selectedDate;
+
+  // Orders two YYYY-MM-DD strings so the earlier one comes first
+  const orderRange = (a: string, b: string): [string, string] => (a <= b ? [a, b] : [b, a]);
+
+  const commitRange = (a: string, b: string) => {
+    const [start, end] = orderRange(a, b);
+    onDateRangeChange(start, end);
+  };
+
+  const finishDrag = () => {
+    if (dragAnchor && dragEnd) {
+      commitRange(dragAnchor, dragEnd);
+      setShowCalendar(false);
+    }
+    setDragAnchor(null);
+    setDragEnd(null);
+  };
+
+  // While dragging, highlight the pending range instead of the committed one
+  const [highlightStart, highlightEnd] = dragAnchor && dragEnd
+    ? orderRange(dragAnchor, dragEnd)
+    : [startDate, endDate];
+
+  const isInRange = (date: Date): boolean => {
+    const dateString = formatDateForInput(date);
+    return dateString >= highlightStart && dateString <= highlightEnd;
+  };
+
+  const isRangeEdge = (date: Date): boolean => {
+    const dateString = formatDateForInput(date);
+    return dateString === highlightStart || dateString === highlightEnd;
   };
 
+  const rangeLength = getDateRangeLength(startDate, endDate);
+
+  const formatHint = (value: string): string =>
+    value ? safeParseDate(value)?.toLocaleDateString() || 'Invalid Date' : 'unknown date';
+
   return (
-    <div class="date-selector" role="group" aria-label="Date selector">
-      <h3>Select Date</h3>
-      
-      {/* Date input with calendar toggle */}
+    <div class="date-selector" role="group" aria-label="Date range selector">
+      <h3>Select Dates</h3>
+
+      {/* Start/end inputs with calendar toggle */}
       <div class="date-input-container">
         <input
           type="date"
-          id="selected-date"
+          id="start-date"
           class="date-input"
-          value={selectedDate}
+          value={startDate}
           min={formatDateForInput(minDate)}
           max={todayString}
           disabled={loading}
           onChange={(e: Event) => {
             const {value} = (e.target as HTMLInputElement);
-            console.log('[DEBUG] DateSelector input change:', {
+            console.log('[DEBUG] DateSelector start input change:', {
               inputValue: value,
               isValidFormat: /^\d{4}-\d{2}-\d{2}$/.test(value)
             });
-            onDateChange(value);
+            onDateRangeChange(value, endDate < value ? value : endDate);
           }}
-          aria-label="Selected date"
+          aria-label="Start date"
+        />
+        <input
+          type="date"
+          id="end-date"
+          class="date-input"
+          value={endDate}
+          min={startDate || formatDateForInput(minDate)}
+          max={todayString}
+          disabled={loading}
+          onChange={(e: Event) => {
+            const {value} = (e.target as HTMLInputElement);
+            console.log('[DEBUG] DateSelector end input change:', {
+              inputValue: value,
+              isValidFormat: /^\d{4}-\d{2}-\d{2}$/.test(value)
+            });
+            onDateRangeChange(startDate > value ? value : startDate, value);
+          }}
+          aria-label="End date"
         />
         <button
           type="button"
@@ -85,7 +147,25 @@ export const DateSelector = ({
           Calendar
         </button>
       </div>
-      
+
+      {/* Quick range presets */}
+      <div class="date-presets" role="group" aria-label="Quick date ranges">
+        {RANGE_PRESETS.map((days) => (
+          <button
+            key={days}
+            type="button"
+            class="date-preset"
+            disabled={loading}
+            onClick={() => {
+              const { start, end } = getPresetDateRange(days);
+              onDateRangeChange(start, end);
+            }}
+          >
+            Last {days} days
+          </button>
+        ))}
+      </div>
+
       {/* Calendar popup */}
       {showCalendar && (
         <div class="calendar-popup" role="dialog" aria-modal="true" aria-label="Calendar">
@@ -108,24 +188,48 @@ export const DateSelector = ({
               Next
             </button>
           </div>
-          <div class="calendar-grid" role="grid" aria-labelledby="calendar-month-label">
+          <p class="calendar-hint">Click a day, or drag across days to select a range.</p>
+          <div
+            class="calendar-grid"
+            role="grid"
+            aria-labelledby="calendar-month-label"
+            onMouseLeave={() => {
+              if (dragAnchor) finishDrag();
+            }}
+          >
             {/* Calendar days */}
-            {calendarDays.map((date, index) => (
-              <button
-                key={index}
-                type="button"
-                class="calendar-day"
-                disabled={date < minDate || date > maxDate || loading}
-                aria-label={formatDateForDisplay(date)}
-                aria-pressed={isSelectedDate(date)}
-                onClick={() => {
-                  onDateChange(formatDateForInput(date));
-                  setShowCalendar(false);
-                }}
-              >
-                {date.getDate()}
-              </button>
-            ))}
+            {calendarDays.map((date, index) => {
+              const dateString = formatDateForInput(date);
+              const inRange = isInRange(date);
+              return (
+                <button
+                  key={index}
+                  type="button"
+                  class={`calendar-day${inRange ? ' in-range' : ''}${isRangeEdge(date) ? ' range-edge' : ''}`}
+                  disabled={date < minDate || date > maxDate || loading}
+                  aria-label={formatDateForDisplay(date)}
+                  aria-pressed={inRange}
+                  onMouseDown={(e: MouseEvent) => {
+                    e.preventDefault();
+                    setDragAnchor(dateString);
+                    setDragEnd(dateString);
+                  }}
+                  onMouseEnter={() => {
+                    if (dragAnchor) setDragEnd(dateString);
+                  }}
+                  onMouseUp={finishDrag}
+                  onClick={(e: MouseEvent) => {
+                    // Mouse clicks are handled by the drag handlers; keyboard activation has no detail
+                    if (e.detail === 0) {
+                      commitRange(dateString, dateString);
+                      setShowCalendar(false);
+                    }
+                  }}
+                >
+                  {date.getDate()}
+                </button>
+              );
+            })}
           </div>
           <div class="calendar-footer">
             <button
@@ -138,15 +242,17 @@ export const DateSelector = ({
           </div>
         </div>
       )}
-      
+
       {loading && (
         <div class="loading" role="status" aria-live="polite">
           <div class="loading-text">.....</div>
         </div>
       )}
       <p class="date-hint">
-        Showing weather data for {selectedDate ? safeParseDate(selectedDate)?.toLocaleDateString() || 'Invalid Date' : 'unknown date'}
+        {startDate === endDate
+          ? `Showing weather data for ${formatHint(startDate)}`
+          : `Showing weather data for ${formatHint(startDate)} – ${formatHint(endDate)} (${rangeLength} days)`}
       </p>
     </div>
   );
-};
\ No newline at end of file
+};
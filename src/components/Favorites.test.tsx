@@ -0,0 +1,86 @@
+import { h } from 'preact';
+
+import { render, screen, fireEvent } from '@testing-library/preact';
+
+import '@testing-library/jest-dom';
+
+import { Favorites } from './Favorites';
+
+const makeLocation = (name: string, latitude: number, longitude: number) => ({
+  id: 0,
+  name,
+  latitude,
+  longitude,
+  elevation: 0,
+  feature_code: 'PPL',
+  country_code: 'US',
+  timezone: 'America/New_York',
+  country: 'United States'
+});
+
+describe('Favorites', () => {
+  const newYork = makeLocation('New York', 40.7128, -74.006);
+  const boston = makeLocation('Boston', 42.3601, -71.0589);
+  const favorites = [
+    { label: 'Office', location: newYork },
+    { label: 'Boston', location: boston },
+  ];
+  const onFavoritesChange = jest.fn();
+  const onSelect = jest.fn();
+
+  beforeEach(() => {
+    onFavoritesChange.mockClear();
+    onSelect.mockClear();
+  });
+
+  it('saves the current location', () => {
+    render(<Favorites favorites={[]} currentLocation={newYork} onFavoritesChange={onFavoritesChange} onSelect={onSelect} />);
+
+    fireEvent.click(screen.getByText('☆ Save location'));
+
+    expect(onFavoritesChange).toHaveBeenCalledWith([{ label: 'New York', location: newYork }]);
+  });
+
+  it('removes the current location when it is already saved', () => {
+    render(<Favorites favorites={favorites} currentLocation={newYork} onFavoritesChange={onFavoritesChange} onSelect={onSelect} />);
+
+    const toggle = screen.getByText('★ Saved');
+    expect(toggle).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.click(toggle);
+
+    expect(onFavoritesChange).toHaveBeenCalledWith([favorites[1]]);
+  });
+
+  it('disables saving without a location', () => {
+    render(<Favorites favorites={[]} currentLocation={null} onFavoritesChange={onFavoritesChange} onSelect={onSelect} />);
+    expect(screen.getByText('☆ Save location')).toBeDisabled();
+  });
+
+  it('selects a favorite', () => {
+    render(<Favorites favorites={favorites} currentLocation={null} onFavoritesChange={onFavoritesChange} onSelect={onSelect} />);
+
+    fireEvent.click(screen.getByText('Office'));
+
+    expect(onSelect).toHaveBeenCalledWith(newYork);
+  });
+
+  it('reorders favorites', () => {
+    render(<Favorites favorites={favorites} currentLocation={null} onFavoritesChange={onFavoritesChange} onSelect={onSelect} />);
+
+    expect(screen.getByLabelText('Move Office earlier')).toBeDisabled();
+    fireEvent.click(screen.getByLabelText('Move Office later'));
+
+    expect(onFavoritesChange).toHaveBeenCalledWith([favorites[1], favorites[0]]);
+  });
+
+  it('renames a favorite', () => {
+    render(<Favorites favorites={favorites} currentLocation={null} onFavoritesChange={onFavoritesChange} onSelect={onSelect} />);
+
+    fireEvent.click(screen.getByLabelText('Rename Office'));
+    const input = screen.getByLabelText('New name for Office');
+    fireEvent.input(input, { target: { value: 'Work' } });
+    fireEvent.submit(input);
+
+    expect(onFavoritesChange).toHaveBeenCalledWith([{ label: 'Work', location: newYork }, favorites[1]]);
+  });
+});
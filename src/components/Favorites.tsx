@@ -0,0 +1,132 @@
+import { h } from 'preact';
+
+import type { JSX } from 'preact/jsx-runtime';
+import { useState } from 'preact/hooks';
+
+import { FavoriteLocation, Location } from '../types';
+import { FAVORITES } from '../constants';
+import { addFavorite, isFavorite, moveFavorite, removeFavorite, renameFavorite } from '../utils/favorites';
+import { isSameLocation } from '../utils/weatherUtils';
+
+interface FavoritesProps {
+  favorites: FavoriteLocation[];
+  currentLocation?: Location | null;
+  onFavoritesChange: (favorites: FavoriteLocation[]) => void;
+  onSelect: (location: Location) => void;
+}
+
+export const Favorites = ({ favorites, currentLocation, onFavoritesChange, onSelect }: FavoritesProps): JSX.Element => {
+  // Location being renamed and the label typed so far
+  const [editing, setEditing] = useState<{ location: Location; label: string } | null>(null);
+
+  const isCurrentFavorite = !!currentLocation && isFavorite(favorites, currentLocation);
+  const isFull = favorites.length >= FAVORITES.MAX_LOCATIONS;
+
+  const toggleCurrent = () => {
+    if (!currentLocation) return;
+    onFavoritesChange(isCurrentFavorite ? removeFavorite(favorites, currentLocation) : addFavorite(favorites, currentLocation));
+  };
+
+  const commitRename = () => {
+    if (!editing) return;
+    onFavoritesChange(renameFavorite(favorites, editing.location, editing.label));
+    setEditing(null);
+  };
+
+  const getToggleLabel = (): string => {
+    if (isCurrentFavorite) return '★ Saved';
+    if (isFull) return `Up to ${FAVORITES.MAX_LOCATIONS} saved locations`;
+    return '☆ Save location';
+  };
+
+  return (
+    <div class="favorites" role="group" aria-label="Saved locations">
+      <button
+        type="button"
+        class="favorite-toggle-btn"
+        onClick={toggleCurrent}
+        disabled={!currentLocation || (!isCurrentFavorite && isFull)}
+        aria-pressed={isCurrentFavorite}
+        title={isCurrentFavorite ? 'Remove from saved locations' : 'Save the current location'}
+      >
+        {getToggleLabel()}
+      </button>
+
+      {favorites.length > 0 && (
+        <ul class="pinned-chips" aria-label="Saved locations">
+          {favorites.map(({ label, location }, index) => (
+            <li key={`${location.latitude},${location.longitude}`} class="pinned-chip favorite-chip">
+              {editing && isSameLocation(editing.location, location) ? (
+                <form
+                  class="favorite-rename"
+                  onSubmit={(e: Event) => {
+                    e.preventDefault();
+                    commitRename();
+                  }}
+                >
+                  <input
+                    type="text"
+                    class="favorite-label-input"
+                    value={editing.label}
+                    maxLength={FAVORITES.MAX_LABEL_LENGTH}
+                    onInput={(e: Event) => setEditing({ location, label: (e.target as HTMLInputElement).value })}
+                    onBlur={commitRename}
+                    onKeyDown={(e: KeyboardEvent) => {
+                      if (e.key === 'Escape') setEditing(null);
+                    }}
+                    aria-label={`New name for ${label}`}
+                    ref={(input: HTMLInputElement | null) => input?.focus()}
+                  />
+                </form>
+              ) : (
+                <button
+                  type="button"
+                  class="favorite-select"
+                  onClick={() => onSelect(location)}
+                  aria-current={!!currentLocation && isSameLocation(location, currentLocation)}
+                  title={location.name}
+                >
+                  {label}
+                </button>
+              )}
+              <button
+                type="button"
+                class="pinned-chip-remove"
+                onClick={() => onFavoritesChange(moveFavorite(favorites, location, -1))}
+                disabled={index === 0}
+                aria-label={`Move ${label} earlier`}
+              >
+                ‹
+              </button>
+              <button
+                type="button"
+                class="pinned-chip-remove"
+                onClick={() => onFavoritesChange(moveFavorite(favorites, location, 1))}
+                disabled={index === favorites.length - 1}
+                aria-label={`Move ${label} later`}
+              >
+                ›
+              </button>
+              <button
+                type="button"
+                class="pinned-chip-remove"
+                onClick={() => setEditing({ location, label })}
+                aria-label={`Rename ${label}`}
+              >
+                ✎
+              </button>
+              <button
+                type="button"
+                class="pinned-chip-remove"
+                onClick={() => onFavoritesChange(removeFavorite(favorites, location))}
+                aria-label={`Remove ${label}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
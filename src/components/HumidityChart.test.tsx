@@ -0,0 +1,87 @@
+import { h } from 'preact';
+
+import { render } from '@testing-library/preact';
+
+import '@testing-library/jest-dom';
+import { METRIC_UNITS } from '../utils/units';
+
+import { HumidityChart } from './HumidityChart';
+
+// Mock canvas API
+const mockContext = {
+  clearRect: jest.fn(),
+  fillRect: jest.fn(),
+  beginPath: jest.fn(),
+  moveTo: jest.fn(),
+  lineTo: jest.fn(),
+  stroke: jest.fn(),
+  measureText: jest.fn().mockReturnValue({ width: 10 }),
+  fillText: jest.fn(),
+  scale: jest.fn()
+};
+HTMLCanvasElement.prototype.getContext = jest.fn().mockReturnValue(mockContext);
+
+HTMLCanvasElement.prototype.getBoundingClientRect = jest.fn().mockReturnValue({
+  width: 400,
+  height: 170,
+  top: 0,
+  left: 0,
+  bottom: 170,
+  right: 400,
+});
+
+describe('HumidityChart', () => {
+  const mockLocation = {
+    id: 1,
+    name: 'New York',
+    latitude: 40.7128,
+    longitude: -74.0060,
+    elevation: 0,
+    feature_code: 'PPL',
+    country_code: 'US',
+    timezone: 'America/New_York',
+    country: 'United States'
+  };
+
+  const mockWeatherData = {
+    daily: { time: [new Date('2023-06-15')] },
+    hourly: {
+      time: [
+        new Date('2023-06-15T16:00:00'),
+        new Date('2023-06-15T17:00:00'),
+        new Date('2023-06-15T18:00:00')
+      ],
+      relativehumidity_2m: [60, 65, 70],
+      dewpoint_2m: [12, 13, 14],
+      pressure_msl: [1013, 1012, 1011]
+    }
+  } as unknown as Parameters<typeof HumidityChart>[0]['weatherData'];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('describes the humidity range for screen readers', () => {
+    const { getByLabelText } = render(
+      <HumidityChart weatherData={mockWeatherData} units={METRIC_UNITS} location={mockLocation} startDate="2023-06-15" />
+    );
+
+    expect(getByLabelText(/Humidity averaged 65%, ranging from 60% to 70%/)).toBeInTheDocument();
+  });
+
+  it('labels the humidity axis and the secondary pressure axis', () => {
+    render(<HumidityChart weatherData={mockWeatherData} units={{ ...METRIC_UNITS, temperature: 'F' }} location={mockLocation} startDate="2023-06-15" />);
+
+    expect(mockContext.fillText).toHaveBeenCalledWith('100%', expect.any(Number), expect.any(Number));
+    expect(mockContext.fillText).toHaveBeenCalledWith('1017', expect.any(Number), expect.any(Number));
+    expect(mockContext.fillText).toHaveBeenCalledWith('Dew point (°F)', expect.any(Number), expect.any(Number));
+  });
+
+  it('shows a placeholder when the range has no humidity data', () => {
+    const { getByText } = render(
+      <HumidityChart weatherData={mockWeatherData} units={METRIC_UNITS} location={mockLocation} startDate="2023-07-01" />
+    );
+
+    expect(getByText('No humidity data available for the selected dates and location.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,211 @@
+import { h } from 'preact';
+
+import type { JSX } from 'preact/jsx-runtime';
+import { useEffect, useRef, useState } from 'preact/hooks';
+
+import { DailyWeatherData, HourlyWeatherData } from '../open-meteo.js';
+import { Location, UnitPreferences } from '../types.js';
+import { getLocalRangeAtmosphere, getValueStats, formatLocalTime, formatLocalDate, getHourLabelStep } from '../utils/weatherUtils';
+import { getCurrentDateString } from '../utils/dateUtils';
+import { convertValue, formatValue, getUnitLabel } from '../utils/units';
+
+interface HumidityChartProps {
+  weatherData?: { daily: DailyWeatherData; hourly: HourlyWeatherData } | null;
+  units: UnitPreferences;
+  location?: Location | null;
+  startDate?: string;
+  endDate?: string;
+  isLoading?: boolean;
+}
+
+export const HumidityChart = ({ weatherData, units, location, startDate, endDate, isLoading = false }: HumidityChartProps): JSX.Element => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isDarkMode, setIsDarkMode] = useState(false);
+
+  // Detect dark mode changes
+  useEffect(() => {
+    const checkDarkMode = () => {
+      setIsDarkMode(document.body.classList.contains('dark-mode'));
+    };
+
+    checkDarkMode();
+    const observer = new MutationObserver(checkDarkMode);
+    observer.observe(document.body, { attributes: true, attributeFilter: ['class'] });
+
+    return () => observer.disconnect();
+  }, []);
+
+  // Chart rendering constants
+  const CHART_PADDING = 40;
+  const LEFT_AXIS_WIDTH = 76; // Room for humidity and dew point labels side by side
+  const RIGHT_AXIS_WIDTH = 56; // Room for pressure labels
+  const GRID_LINES = 4;
+  const MIN_PRESSURE_SPAN = 10; // hPa; keeps a steady day from looking like a storm
+  const LEGEND_SQUARE_SIZE = 10;
+  const LEGEND_ITEM_SPACING = 12;
+  const LEGEND_Y_POSITION = 28;
+
+  const effectiveStartDate = startDate || getCurrentDateString();
+  const effectiveEndDate = endDate || effectiveStartDate;
+  const isMultiDay = effectiveStartDate !== effectiveEndDate;
+
+  const atmosphere = weatherData && location
+    ? getLocalRangeAtmosphere(weatherData.hourly, location, effectiveStartDate, effectiveEndDate)
+    : { times: [], humidity: [], dewpoint: [], pressure: [] };
+  const humidityStats = getValueStats(atmosphere.humidity);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !location || atmosphere.times.length === 0) {
+      return;
+    }
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = rect.width * window.devicePixelRatio;
+    canvas.height = rect.height * window.devicePixelRatio;
+    ctx.scale(window.devicePixelRatio, window.devicePixelRatio);
+    ctx.clearRect(0, 0, rect.width, rect.height);
+
+    const left = LEFT_AXIS_WIDTH;
+    const top = CHART_PADDING;
+    const chartWidth = rect.width - LEFT_AXIS_WIDTH - RIGHT_AXIS_WIDTH;
+    const chartHeight = rect.height - CHART_PADDING * 2;
+    const hoursToShow = atmosphere.times.length;
+
+    const bgColor = isDarkMode ? '#1f2937' : '#f8f9fa';
+    const gridColor = isDarkMode ? '#6b7280' : '#e0e0e0';
+    const textColor = isDarkMode ? '#f3f4f6' : '#333';
+    const textColorLight = isDarkMode ? '#9ca3af' : '#666';
+    const humidityColor = isDarkMode ? '#3b82f6' : '#4dabf7';
+    const dewpointColor = isDarkMode ? '#22c55e' : '#51cf66';
+    const pressureColor = isDarkMode ? '#a855f7' : '#cc5de8';
+
+    // Humidity always spans 0–100%; dew point and pressure scale to their own ranges
+    const dewpoints = atmosphere.dewpoint.map((value) => (typeof value === 'number' ? convertValue(value, 'temperature', units) : null));
+    const dewStats = getValueStats(dewpoints);
+    const dewMin = dewStats ? Math.floor(dewStats.min) : 0;
+    const dewSpan = dewStats ? Math.max(Math.ceil(dewStats.max) - dewMin, 1) : 1;
+    const pressureStats = getValueStats(atmosphere.pressure);
+    const pressureMid = pressureStats ? (pressureStats.min + pressureStats.max) / 2 : 1013;
+    // Pressure is scaled in hPa and converted only for its labels
+    const pressureSpan = pressureStats ? Math.max(pressureStats.max - pressureStats.min, MIN_PRESSURE_SPAN) : MIN_PRESSURE_SPAN;
+    const pressureMin = pressureMid - pressureSpan / 2;
+
+    ctx.fillStyle = bgColor;
+    ctx.fillRect(left, top, chartWidth, chartHeight);
+
+    // Grid lines with a label column per axis
+    ctx.strokeStyle = gridColor;
+    ctx.lineWidth = 1;
+    ctx.font = '11px sans-serif';
+    Array.from({ length: GRID_LINES + 1 }).forEach((_, i) => {
+      const y = top + (chartHeight / GRID_LINES) * i;
+      const fraction = (GRID_LINES - i) / GRID_LINES;
+      ctx.beginPath();
+      ctx.moveTo(left, y);
+      ctx.lineTo(left + chartWidth, y);
+      ctx.stroke();
+
+      ctx.textAlign = 'right';
+      ctx.fillStyle = humidityColor;
+      ctx.fillText(`${Math.round(fraction * 100)}%`, left - 6, y + 4);
+      if (dewStats) {
+        ctx.fillStyle = dewpointColor;
+        ctx.fillText(`${Math.round(dewMin + dewSpan * fraction)}°`, left - 40, y + 4);
+      }
+      if (pressureStats) {
+        ctx.textAlign = 'left';
+        ctx.fillStyle = pressureColor;
+        ctx.fillText(formatValue(pressureMin + pressureSpan * fraction, 'pressure', units), left + chartWidth + 6, y + 4);
+      }
+    });
+
+    const drawLine = (data: (number | null)[], toY: (value: number) => number, color: string) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      let penDown = false;
+      data.forEach((value, index) => {
+        if (typeof value !== 'number') {
+          penDown = false; // Leave a gap for missing hours
+          return;
+        }
+        const x = left + (chartWidth / hoursToShow) * index;
+        const y = toY(value);
+        if (penDown) {
+          ctx.lineTo(x, y);
+        } else {
+          ctx.moveTo(x, y);
+          penDown = true;
+        }
+      });
+      ctx.stroke();
+    };
+    const scaleY = (fraction: number) => top + chartHeight - fraction * chartHeight;
+    drawLine(atmosphere.pressure, (value) => scaleY((value - pressureMin) / pressureSpan), pressureColor);
+    drawLine(dewpoints, (value) => scaleY((value - dewMin) / dewSpan), dewpointColor);
+    drawLine(atmosphere.humidity, (value) => scaleY(value / 100), humidityColor);
+
+    // X-axis labels (hours, or days for longer ranges)
+    ctx.fillStyle = textColorLight;
+    ctx.font = '12px sans-serif';
+    ctx.textAlign = 'center';
+    const labelStep = getHourLabelStep(hoursToShow, isMultiDay);
+    for (let i = 0; i < hoursToShow; i += labelStep) {
+      const x = left + (chartWidth / hoursToShow) * i;
+      const label = isMultiDay
+        ? formatLocalDate(atmosphere.times[i], location.timezone)
+        : formatLocalTime(atmosphere.times[i], location.timezone);
+      ctx.fillText(label, x, rect.height - 10);
+    }
+
+    // Legend
+    ctx.font = '11px sans-serif';
+    ctx.textAlign = 'left';
+    let legendX = left;
+    [
+      { label: 'Humidity (%)', color: humidityColor },
+      { label: `Dew point (${getUnitLabel('temperature', units)})`, color: dewpointColor },
+      { label: `Pressure (${getUnitLabel('pressure', units)})`, color: pressureColor },
+    ].forEach((item) => {
+      ctx.fillStyle = item.color;
+      ctx.fillRect(legendX, LEGEND_Y_POSITION - LEGEND_SQUARE_SIZE, LEGEND_SQUARE_SIZE, LEGEND_SQUARE_SIZE);
+      ctx.fillStyle = textColor;
+      ctx.fillText(item.label, legendX + LEGEND_SQUARE_SIZE + 4, LEGEND_Y_POSITION);
+      legendX += LEGEND_SQUARE_SIZE + 4 + ctx.measureText(item.label).width + LEGEND_ITEM_SPACING;
+    });
+  }, [weatherData, units, location, startDate, endDate, isDarkMode]);
+
+  if (isLoading || !weatherData || !location) {
+    return (
+      <div class="chart-container">
+        <h4>Humidity &amp; Pressure</h4>
+        <div class="loading-text">.....</div>
+      </div>
+    );
+  }
+
+  if (atmosphere.times.length === 0 || !humidityStats) {
+    return (
+      <div class="chart-container">
+        <h4>Humidity &amp; Pressure</h4>
+        <div class="chart-placeholder">
+          <p>No humidity data available for the selected dates and location.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div class="chart-container">
+      <h4>Humidity &amp; Pressure</h4>
+      <canvas
+        ref={canvasRef}
+        style={{ width: '100%', height: '170px' }}
+        aria-label={`Relative humidity, dew point and sea-level pressure. Humidity averaged ${Math.round(humidityStats.mean)}%, ranging from ${Math.round(humidityStats.min)}% to ${Math.round(humidityStats.max)}%.`}
+      />
+    </div>
+  );
+};
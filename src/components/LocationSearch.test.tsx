@@ -1,6 +1,6 @@
 import { h } from 'preact';
 
-import { render, fireEvent } from '@testing-library/preact';
+import { render, fireEvent, waitFor } from '@testing-library/preact';
 
 import '@testing-library/jest-dom';
 import * as api from '../api';
@@ -10,9 +10,11 @@ import { LocationSearch } from './LocationSearch';
 // Mock the API
 jest.mock('../api', () => ({
   bffSearchLocations: jest.fn(),
+  bffReverseGeocode: jest.fn(),
 }));
 
 const mockSearchLocations = api.bffSearchLocations as jest.MockedFunction<typeof api.bffSearchLocations>;
+const mockReverseGeocode = api.bffReverseGeocode as jest.MockedFunction<typeof api.bffReverseGeocode>;
 
 describe('LocationSearch', () => {
   const onLocationSelect = jest.fn();
@@ -20,6 +22,7 @@ describe('LocationSearch', () => {
   beforeEach(() => {
     mockSearchLocations.mockClear();
     onLocationSelect.mockClear();
+    localStorage.clear();
   });
 
   it('renders without crashing', () => {
@@ -112,4 +115,211 @@ describe('LocationSearch', () => {
     expect(getByText('Current Location:')).toBeInTheDocument();
     expect(getByText('New York,')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  describe('recent searches', () => {
+    const boston = { id: 2, name: 'Boston', latitude: 42.3601, longitude: -71.0589, timezone: 'America/New_York', elevation: 0, feature_code: 'PPL', country_code: 'US', country: 'United States' };
+    const chicago = { id: 3, name: 'Chicago', latitude: 41.85, longitude: -87.65, timezone: 'America/Chicago', elevation: 0, feature_code: 'PPL', country_code: 'US', country: 'United States' };
+
+    beforeEach(() => {
+      // Earlier tests can leave queued one-off results behind
+      mockSearchLocations.mockReset();
+    });
+
+    it('remembers a picked suggestion and offers it when the input is focused and empty', async () => {
+      mockSearchLocations.mockResolvedValueOnce([boston]);
+
+      const { getByPlaceholderText, getByText, getByRole } = render(<LocationSearch onLocationSelect={onLocationSelect} />);
+      const input = getByPlaceholderText('Search for a location...') as HTMLInputElement;
+      fireEvent.input(input, { target: { value: 'Boston' } });
+      await new Promise(resolve => setTimeout(resolve, 400));
+      fireEvent.click(getByText('Boston'));
+
+      fireEvent.focus(input);
+      expect(getByRole('listbox', { name: 'Recent searches' })).toHaveTextContent('Boston');
+      expect(JSON.parse(localStorage.getItem('recentLocations') ?? '[]')).toEqual([boston]);
+    });
+
+    it('selects a recent location with the keyboard without searching again', () => {
+      localStorage.setItem('recentLocations', JSON.stringify([boston, chicago]));
+
+      const { getByPlaceholderText } = render(<LocationSearch onLocationSelect={onLocationSelect} />);
+      const input = getByPlaceholderText('Search for a location...') as HTMLInputElement;
+      fireEvent.focus(input);
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      expect(input).toHaveAttribute('aria-activedescendant', 'location-option-1');
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      expect(onLocationSelect).toHaveBeenCalledWith(chicago);
+      expect(mockSearchLocations).not.toHaveBeenCalled();
+      expect(JSON.parse(localStorage.getItem('recentLocations') ?? '[]')).toEqual([chicago, boston]);
+    });
+
+    it('closes the history on Escape and clears it on request', () => {
+      localStorage.setItem('recentLocations', JSON.stringify([boston]));
+
+      const { getByPlaceholderText, getByText, queryByRole } = render(<LocationSearch onLocationSelect={onLocationSelect} />);
+      const input = getByPlaceholderText('Search for a location...') as HTMLInputElement;
+      fireEvent.focus(input);
+      fireEvent.keyDown(input, { key: 'Escape' });
+      expect(queryByRole('listbox', { name: 'Recent searches' })).not.toBeInTheDocument();
+
+      fireEvent.focus(input);
+      fireEvent.click(getByText('Clear history'));
+      expect(queryByRole('listbox', { name: 'Recent searches' })).not.toBeInTheDocument();
+      expect(localStorage.getItem('recentLocations')).toBeNull();
+    });
+  });
+
+  describe('keyboard navigation', () => {
+    const makeLocation = (id: number, name: string, latitude: number, longitude: number) => ({
+      id, name, latitude, longitude, timezone: 'Europe/London', elevation: 0, feature_code: 'PPL', country_code: 'GB', country: 'United Kingdom'
+    });
+    const london = makeLocation(1, 'London', 51.5074, -0.1278);
+    const londonderry = makeLocation(2, 'Londonderry', 54.9966, -7.3086);
+
+    const searchFor = async (value: string) => {
+      const utils = render(<LocationSearch onLocationSelect={onLocationSelect} />);
+      const input = utils.getByRole('combobox');
+      fireEvent.focus(input);
+      fireEvent.input(input, { target: { value } });
+      await new Promise(resolve => setTimeout(resolve, 400));
+      return { ...utils, input };
+    };
+
+    beforeEach(() => {
+      mockSearchLocations.mockReset();
+      mockSearchLocations.mockResolvedValue([london, londonderry]);
+    });
+
+    it('exposes the input as a combobox that controls the suggestion list', async () => {
+      const { input, getByRole } = await searchFor('Lond');
+
+      expect(input).toHaveAttribute('aria-autocomplete', 'list');
+      expect(input).toHaveAttribute('aria-expanded', 'true');
+      expect(input).toHaveAttribute('aria-controls', getByRole('listbox').id);
+      expect(getByRole('listbox')).toHaveAccessibleName('Location suggestions');
+    });
+
+    it('announces the number of results', async () => {
+      const { getByRole } = await searchFor('Lond');
+      expect(getByRole('status')).toHaveTextContent('2 locations found');
+    });
+
+    it('moves through suggestions with the arrow keys and wraps around', async () => {
+      const { input, getByText } = await searchFor('Lond');
+
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      expect(input).toHaveAttribute('aria-activedescendant', 'location-option-0');
+      expect(getByText('London').closest('[role="option"]')).toHaveAttribute('aria-selected', 'true');
+
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      expect(input).toHaveAttribute('aria-activedescendant', 'location-option-0');
+
+      fireEvent.keyDown(input, { key: 'ArrowUp' });
+      expect(input).toHaveAttribute('aria-activedescendant', 'location-option-1');
+    });
+
+    it('selects the highlighted suggestion with Enter', async () => {
+      const { input, queryByRole } = await searchFor('Lond');
+
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      expect(onLocationSelect).toHaveBeenCalledWith(londonderry);
+      expect(input).toHaveValue('');
+      expect(queryByRole('listbox')).not.toBeInTheDocument();
+    });
+
+    it('does nothing on Enter without a highlighted suggestion', async () => {
+      const { input } = await searchFor('Lond');
+      fireEvent.keyDown(input, { key: 'Enter' });
+      expect(onLocationSelect).not.toHaveBeenCalled();
+    });
+
+    it('closes the list with Escape, reopens it with ArrowDown and clears the query on a second Escape', async () => {
+      const { input, queryByRole } = await searchFor('Lond');
+
+      fireEvent.keyDown(input, { key: 'Escape' });
+      expect(queryByRole('listbox')).not.toBeInTheDocument();
+      expect(input).toHaveAttribute('aria-expanded', 'false');
+      expect(input).not.toHaveAttribute('aria-activedescendant');
+
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      expect(queryByRole('listbox')).toBeInTheDocument();
+
+      fireEvent.keyDown(input, { key: 'Escape' });
+      fireEvent.keyDown(input, { key: 'Escape' });
+      expect(input).toHaveValue('');
+    });
+
+    it('closes the list when focus leaves the input but keeps clicks on options working', async () => {
+      const { input, getByText, queryByRole } = await searchFor('Lond');
+
+      // Options keep focus in the input, so a click selects without a blur in between
+      const option = getByText('London');
+      expect(fireEvent.mouseDown(option)).toBe(false);
+      fireEvent.click(option);
+      expect(onLocationSelect).toHaveBeenCalledWith(london);
+
+      fireEvent.input(input, { target: { value: 'Lond' } });
+      await new Promise(resolve => setTimeout(resolve, 400));
+      fireEvent.blur(input);
+      expect(queryByRole('listbox')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('coordinate input', () => {
+    const newYork = { id: 5128581, name: 'New York', latitude: 40.71427, longitude: -74.00597, timezone: 'America/New_York', elevation: 10, feature_code: 'PPL', country_code: 'US', country: 'United States' };
+
+    beforeEach(() => {
+      mockSearchLocations.mockReset();
+      mockReverseGeocode.mockReset();
+    });
+
+    it('offers pasted coordinates without searching by name', async () => {
+      const { getByRole } = render(<LocationSearch onLocationSelect={onLocationSelect} />);
+      const input = getByRole('combobox');
+      fireEvent.focus(input);
+      fireEvent.input(input, { target: { value: `40°42'46"N 74°0'22"W` } });
+      await new Promise(resolve => setTimeout(resolve, 400));
+
+      expect(mockSearchLocations).not.toHaveBeenCalled();
+      expect(getByRole('option')).toHaveTextContent('Location (40.7128, -74.0061)');
+      expect(getByRole('status')).toHaveTextContent('Coordinates 40.7128, -74.0061');
+    });
+
+    it('names the point through reverse geocoding on Enter', async () => {
+      mockReverseGeocode.mockResolvedValueOnce(newYork);
+
+      const { getByRole } = render(<LocationSearch onLocationSelect={onLocationSelect} />);
+      const input = getByRole('combobox');
+      fireEvent.input(input, { target: { value: '40.7128, -74.0060' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      // Named after the matched place, but kept at the entered point rather than the place's centroid
+      await waitFor(() => expect(onLocationSelect).toHaveBeenCalledWith({ ...newYork, latitude: 40.7128, longitude: -74.006 }));
+      expect(mockReverseGeocode).toHaveBeenCalledWith(40.7128, -74.006);
+      expect(mockSearchLocations).not.toHaveBeenCalled();
+    });
+
+    it('falls back to a coordinate-named location when reverse geocoding fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockReverseGeocode.mockRejectedValueOnce(new Error('offline'));
+
+      const { getByRole } = render(<LocationSearch onLocationSelect={onLocationSelect} />);
+      const input = getByRole('combobox');
+      fireEvent.focus(input);
+      fireEvent.input(input, { target: { value: '8FVC9G8F+6X' } });
+      fireEvent.click(getByRole('option'));
+
+      await waitFor(() => expect(onLocationSelect).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Location (47.3656, 8.5249)',
+        timezone: 'UTC',
+      })));
+      warn.mockRestore();
+    });
+  });
+});
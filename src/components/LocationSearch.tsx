@@ -1,23 +1,58 @@
 import { h } from 'preact';
 
-import { useState, useMemo, useCallback, useRef, useEffect } from 'preact/hooks';
+import { useState, useMemo, useCallback, useEffect } from 'preact/hooks';
 
 import debounce from 'lodash/debounce';
 
-import { bffSearchLocations as searchLocations } from '../api';
+import { bffSearchLocations as searchLocations, bffReverseGeocode as reverseGeocode } from '../api';
 import { Location } from '../types';
+import { Coordinates, createCoordinateLocation, parseCoordinateInput } from '../utils/coordinateInput';
+import { addRecentLocation, parseRecentLocations, serializeRecentLocations } from '../utils/recentLocations';
 
 interface LocationSearchProps {
   onLocationSelect: (location: Location) => void;
   currentLocation?: Location | null;
 }
 
+const RECENT_STORAGE_KEY = 'recentLocations';
+
+const loadRecentLocations = (): Location[] => {
+  try {
+    return parseRecentLocations(localStorage.getItem(RECENT_STORAGE_KEY));
+  } catch (error) {
+    console.warn('Could not access localStorage, starting without recent searches:', error);
+    return [];
+  }
+};
+
+const saveRecentLocations = (recent: Location[]): void => {
+  try {
+    if (recent.length > 0) {
+      localStorage.setItem(RECENT_STORAGE_KEY, serializeRecentLocations(recent));
+    } else {
+      localStorage.removeItem(RECENT_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Could not save recent searches:', error);
+  }
+};
+
+const LISTBOX_ID = 'location-search-listbox';
+const optionId = (index: number): string => `location-option-${index}`;
+
+const plural = (count: number, singular: string, pluralForm: string): string =>
+  `${count} ${count === 1 ? singular : pluralForm}`;
+
 export const LocationSearch = ({ onLocationSelect, currentLocation }: LocationSearchProps) => {
   const [query, setQuery] = useState('');
   const [suggestions, setSuggestions] = useState<Location[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const [recentLocations, setRecentLocations] = useState<Location[]>(loadRecentLocations);
+  const [showRecent, setShowRecent] = useState(false);
+  // Option highlighted with the arrow keys; -1 when none is. Focus stays in the input.
+  const [activeIndex, setActiveIndex] = useState(-1);
 
   const handleSearch = useCallback(async (searchQuery: string) => {
     if (searchQuery.length < 2) {
@@ -33,6 +68,7 @@ export const LocationSearch = ({ onLocationSelect, currentLocation }: LocationSe
         // Ensure results is an array before slicing
         const suggestionsList = Array.isArray(results) ? results.slice(0, 5) : [];
         setSuggestions(suggestionsList);
+        setActiveIndex(-1);
         setShowSuggestions(true);
         if (suggestionsList.length === 0) {
           setError('No locations found. Please try a different search term.');
@@ -48,8 +84,6 @@ export const LocationSearch = ({ onLocationSelect, currentLocation }: LocationSe
 
   const debouncedSearch = useMemo(() => debounce(handleSearch, 300), [handleSearch]);
 
-  const blurTimeoutRef = useRef<number | null>(null);
-
   useEffect(() => {
     return () => {
       try {
@@ -58,42 +92,154 @@ export const LocationSearch = ({ onLocationSelect, currentLocation }: LocationSe
         // Cancellation may throw in some implementations; not fatal
         console.debug('debouncedSearch.cancel() threw:', err);
       }
-      if (blurTimeoutRef.current) {
-        clearTimeout(blurTimeoutRef.current as unknown as number);
-      }
     };
   }, [debouncedSearch]);
 
+  // Coordinates and plus codes are looked up directly instead of searched by name
+  const coordinates = useMemo(() => parseCoordinateInput(query), [query]);
+  const coordinateOption = useMemo(
+    () => (coordinates ? createCoordinateLocation(coordinates.latitude, coordinates.longitude) : null),
+    [coordinates]
+  );
+
+  const isRecentOpen = showRecent && query.trim() === '' && recentLocations.length > 0;
+  const isSuggestionsOpen = !isRecentOpen && showSuggestions && query.length >= 2;
+  const isOpen = isRecentOpen || isSuggestionsOpen;
+  // Locations the arrow keys move through
+  let options: Location[] = [];
+  if (isRecentOpen) {
+    options = recentLocations;
+  } else if (isSuggestionsOpen && !isLoading) {
+    options = coordinateOption ? [coordinateOption] : suggestions;
+  }
+
+  const getAnnouncement = (): string => {
+    if (isRecentOpen) return plural(recentLocations.length, 'recent search', 'recent searches');
+    if (!isSuggestionsOpen) return '';
+    if (isLoading) return coordinates ? 'Looking up coordinates...' : 'Searching...';
+    if (coordinates) return `Coordinates ${coordinates.latitude.toFixed(4)}, ${coordinates.longitude.toFixed(4)}`;
+    return suggestions.length > 0 ? plural(suggestions.length, 'location found', 'locations found') : 'No locations found';
+  };
+
+  const updateRecentLocations = (recent: Location[]) => {
+    setRecentLocations(recent);
+    saveRecentLocations(recent);
+  };
+
+  const close = () => {
+    setShowSuggestions(false);
+    setShowRecent(false);
+    setActiveIndex(-1);
+  };
+
   const handleInputChange = (e: Event) => {
     const {value} = (e.target as HTMLInputElement);
     setQuery(value);
-    debouncedSearch(value);
+    setActiveIndex(-1);
+    setShowRecent(value.trim() === '');
+    if (parseCoordinateInput(value)) {
+      debouncedSearch.cancel();
+      setSuggestions([]);
+      setError(null);
+      setShowSuggestions(true);
+    } else {
+      debouncedSearch(value);
+    }
   };
 
+  // Options keep focus in the input on mousedown, so blurring always means focus left the search
   const handleInputBlur = () => {
-    // Delay hiding suggestions to allow clicking on them
-    if (blurTimeoutRef.current) {
-      clearTimeout(blurTimeoutRef.current as unknown as number);
-    }
-    blurTimeoutRef.current = (setTimeout(() => {
-      setShowSuggestions(false);
-      blurTimeoutRef.current = null;
-    }, 200) as unknown) as number;
+    close();
   };
 
   const handleInputFocus = () => {
     if (query.length >= 2) {
       setShowSuggestions(true);
+    } else if (query.trim() === '') {
+      setShowRecent(true);
     }
   };
 
   const handleSuggestionClick = (location: Location) => {
     setQuery('');
     setSuggestions([]);
-    setShowSuggestions(false);
+    close();
+    updateRecentLocations(addRecentLocation(recentLocations, location));
     onLocationSelect(location);
   };
 
+  // Names the point like a map click does, falling back to a coordinate-named location.
+  // The geocoder answers with the nearest place's centroid, so only its names are used
+  // and the weather stays at the point that was entered.
+  const handleCoordinateSelect = async ({ latitude, longitude }: Coordinates) => {
+    setIsLoading(true);
+    let location: Location;
+    try {
+      const place = await reverseGeocode(latitude, longitude);
+      location = { ...place, latitude, longitude };
+    } catch (err) {
+      console.warn('Could not name the entered coordinates:', err);
+      location = createCoordinateLocation(latitude, longitude);
+    } finally {
+      setIsLoading(false);
+    }
+    handleSuggestionClick(location);
+  };
+
+  const handleOptionSelect = (location: Location) => {
+    if (location === coordinateOption && coordinates) {
+      void handleCoordinateSelect(coordinates);
+    } else {
+      handleSuggestionClick(location);
+    }
+  };
+
+  const handleClearHistory = () => {
+    updateRecentLocations([]);
+    close();
+  };
+
+  const handleInputKeyDown = (e: KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        if (!isOpen) {
+          handleInputFocus();
+        } else if (options.length > 0) {
+          setActiveIndex((activeIndex + 1) % options.length);
+        }
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        if (options.length > 0) {
+          setActiveIndex(activeIndex <= 0 ? options.length - 1 : activeIndex - 1);
+        }
+        break;
+      case 'Enter':
+        if (isOpen && options[activeIndex]) {
+          e.preventDefault();
+          handleOptionSelect(options[activeIndex]);
+        } else if (coordinates && !isLoading) {
+          // There is only one place to go, so Enter needs no highlighted option
+          e.preventDefault();
+          void handleCoordinateSelect(coordinates);
+        }
+        break;
+      case 'Escape':
+        // First Escape closes the list, a second one clears the query
+        if (isOpen) {
+          close();
+        } else if (query) {
+          setQuery('');
+          setSuggestions([]);
+          debouncedSearch.cancel();
+        }
+        break;
+      default:
+        break;
+    }
+  };
+
   return (
     <div class="location-search" role="search" aria-label="Location search">
       <h3>Search Location</h3>
@@ -101,53 +247,81 @@ export const LocationSearch = ({ onLocationSelect, currentLocation }: LocationSe
         type="text"
         class="search-input"
         placeholder="Search for a location..."
+        title={`Place name, coordinates (40.7128, -74.0060 or 40°42'46"N 74°0'22"W) or plus code`}
         value={query}
         onInput={handleInputChange}
         onFocus={handleInputFocus}
         onBlur={handleInputBlur}
+        onKeyDown={handleInputKeyDown}
+        role="combobox"
         aria-label="Search locations"
+        aria-autocomplete="list"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? LISTBOX_ID : undefined}
+        aria-activedescendant={isOpen && options[activeIndex] ? optionId(activeIndex) : undefined}
         id="location-search-input"
       />
-      
-      {showSuggestions && (
-        <div class="search-suggestions" role="listbox" aria-label="Location suggestions">
-          {isLoading && (
-            <div class="loading" role="status" aria-live="polite">
+
+      {isOpen && (
+        <div class="search-suggestions">
+          {isRecentOpen && (
+            <div class="recent-searches-header">
+              <span>Recent searches</span>
+              <button
+                type="button"
+                class="recent-clear-btn"
+                onMouseDown={(e: MouseEvent) => e.preventDefault()}
+                onClick={handleClearHistory}
+              >
+                Clear history
+              </button>
+            </div>
+          )}
+
+          {isSuggestionsOpen && isLoading && (
+            <div class="loading">
               <div class="loading-text">.....</div>
             </div>
           )}
-          
-          {!isLoading && suggestions.length > 0 && (
-            suggestions.map((location) => (
+
+          {isSuggestionsOpen && !isLoading && !coordinateOption && suggestions.length === 0 && (
+            <div class="loading">No locations found</div>
+          )}
+
+          <div
+            role="listbox"
+            id={LISTBOX_ID}
+            aria-label={isRecentOpen ? 'Recent searches' : 'Location suggestions'}
+          >
+            {options.map((location, index) => (
               <div
-                class="suggestion-item"
-                key={location.id}
+                class={`suggestion-item${index === activeIndex ? ' active' : ''}`}
+                key={`${location.id}:${location.latitude},${location.longitude}`}
+                id={optionId(index)}
                 role="option"
-                tabIndex={0}
-                aria-selected="false"
-                onClick={() => handleSuggestionClick(location)}
-                onKeyDown={(e: KeyboardEvent) => {
-                  if (e.key === 'Enter' || e.key === ' ') {
-                    e.preventDefault();
-                    handleSuggestionClick(location);
-                  }
-                }}
+                aria-selected={index === activeIndex}
+                onMouseDown={(e: MouseEvent) => e.preventDefault()}
+                onClick={() => handleOptionSelect(location)}
               >
                 <div class="suggestion-name">{location.name}</div>
                 <div class="suggestion-details">
-                  {location.admin1 && `${location.admin1}, `}
-                  {location.country}
+                  {location === coordinateOption ? 'Coordinates' : (
+                    <>
+                      {location.admin1 && `${location.admin1}, `}
+                      {location.country}
+                    </>
+                  )}
                 </div>
               </div>
-            ))
-          )}
-          
-          {!isLoading && suggestions.length === 0 && query.length >= 2 && (
-            <div class="loading" role="status" aria-live="polite">No locations found</div>
-          )}
+            ))}
+          </div>
         </div>
       )}
 
+      <div class="sr-only" role="status" aria-live="polite" aria-atomic="true">
+        {getAnnouncement()}
+      </div>
+
       {error && <div class="error-message error">{error}</div>}
       
       {currentLocation && (
@@ -157,4 +331,4 @@ export const LocationSearch = ({ onLocationSelect, currentLocation }: LocationSe
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -40,6 +40,32 @@ describe('MapComponent', () => {
     expect(marker).toBeInTheDocument();
   });
 
+  it('draws a marker for each favorite', () => {
+    const favorite = {
+      label: 'Office',
+      location: {
+        id: 0,
+        name: 'Boston',
+        latitude: 42.3601,
+        longitude: -71.0589,
+        elevation: 0,
+        feature_code: 'PPL',
+        country_code: 'US',
+        timezone: 'America/New_York',
+        country: 'United States'
+      }
+    };
+    const { container } = render(
+      <MapComponent
+        latitude={40.7128}
+        longitude={-74.0060}
+        onLocationSelect={mockOnLocationSelect}
+        favorites={[favorite]}
+      />
+    );
+    expect(container.querySelectorAll('path.leaflet-interactive')).toHaveLength(1);
+  });
+
   it('handles keyboard events', () => {
     const { container } = render(
       <MapComponent
@@ -3,9 +3,11 @@ import * as preact from 'preact';
 
 import { useEffect, useRef, useState } from 'preact/hooks';
 
-import { map as createMap, tileLayer, Icon, marker as createMarker, type Marker, type LeafletMouseEvent } from 'leaflet';
+import { map as createMap, tileLayer, Icon, marker as createMarker, circleMarker, layerGroup, type Map as LeafletMap, type Marker, type LeafletMouseEvent } from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 
+import { FavoriteLocation, Location } from '../types';
+
 // Fix for Leaflet marker icons in webpack
 try {
   Icon.Default.mergeOptions({
@@ -21,11 +23,25 @@ interface MapProps {
   latitude: number;
   longitude: number;
   onLocationSelect?: (lat: number, lng: number) => void;
+  /** Saved locations, drawn as smaller markers */
+  favorites?: FavoriteLocation[];
+  onFavoriteSelect?: (location: Location) => void;
 }
 
-export const MapComponent = ({ latitude, longitude, onLocationSelect }: MapProps): preact.JSX.Element => {
+const FAVORITE_MARKER_STYLE = {
+  radius: 7,
+  color: '#b45309',
+  fillColor: '#f59e0b',
+  fillOpacity: 0.9,
+  weight: 2,
+  // Clicking a favorite selects it instead of the point underneath
+  bubblingMouseEvents: false,
+};
+
+export const MapComponent = ({ latitude, longitude, onLocationSelect, favorites = [], onFavoriteSelect }: MapProps): preact.JSX.Element => {
   const containerRef = useRef<HTMLDivElement>(null);
   const markerRef = useRef<Marker | null>(null);
+  const [currentMap, setCurrentMap] = useState<LeafletMap | null>(null);
   const [isDarkMode, setIsDarkMode] = useState(false);
 
   // Listen for dark mode changes
@@ -68,6 +84,7 @@ export const MapComponent = ({ latitude, longitude, onLocationSelect }: MapProps
 
     // Add a marker at the initial location
     markerRef.current = createMarker([latitude, longitude]).addTo(map);
+    setCurrentMap(map);
 
     // Add click event listener to handle location selection
     if (onLocationSelect) {
@@ -103,6 +120,25 @@ export const MapComponent = ({ latitude, longitude, onLocationSelect }: MapProps
     };
   }, [latitude, longitude, onLocationSelect, isDarkMode]);
 
+  // Favorites live on their own layer so saving or renaming one does not rebuild the map
+  useEffect(() => {
+    if (!currentMap || favorites.length === 0) {
+      return;
+    }
+
+    const favoriteMarkers = layerGroup(favorites.map(({ label, location }) => {
+      const favoriteMarker = circleMarker([location.latitude, location.longitude], FAVORITE_MARKER_STYLE).bindTooltip(label);
+      if (onFavoriteSelect) {
+        favoriteMarker.on('click', () => onFavoriteSelect(location));
+      }
+      return favoriteMarker;
+    })).addTo(currentMap);
+
+    return () => {
+      favoriteMarkers.remove();
+    };
+  }, [currentMap, favorites, onFavoriteSelect]);
+
   return (
     <div
       ref={containerRef}
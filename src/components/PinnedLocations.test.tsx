@@ -0,0 +1,69 @@
+import { h } from 'preact';
+
+import { render, fireEvent } from '@testing-library/preact';
+
+import '@testing-library/jest-dom';
+import { COMPARISON } from '../constants';
+
+import { PinnedLocations } from './PinnedLocations';
+
+const makeLocation = (name: string, latitude: number, longitude: number) => ({
+  id: 0,
+  name,
+  latitude,
+  longitude,
+  elevation: 0,
+  feature_code: 'PPL',
+  country_code: 'US',
+  timezone: 'America/New_York',
+  country: 'United States'
+});
+
+describe('PinnedLocations', () => {
+  const newYork = makeLocation('New York', 40.7128, -74.006);
+  const boston = makeLocation('Boston', 42.3601, -71.0589);
+  const onPin = jest.fn();
+  const onUnpin = jest.fn();
+
+  beforeEach(() => {
+    onPin.mockClear();
+    onUnpin.mockClear();
+  });
+
+  it('pins the current location', () => {
+    const { getByText } = render(
+      <PinnedLocations pinnedLocations={[]} currentLocation={newYork} onPin={onPin} onUnpin={onUnpin} />
+    );
+
+    fireEvent.click(getByText('Pin current location'));
+
+    expect(onPin).toHaveBeenCalledWith(newYork);
+  });
+
+  it('disables pinning when the current location is already pinned', () => {
+    const { getByText } = render(
+      <PinnedLocations pinnedLocations={[newYork]} currentLocation={newYork} onPin={onPin} onUnpin={onUnpin} />
+    );
+
+    expect(getByText('Pinned')).toBeDisabled();
+  });
+
+  it('disables pinning once the maximum is reached', () => {
+    const pinned = Array.from({ length: COMPARISON.MAX_LOCATIONS }, (_, i) => makeLocation(`Place ${i}`, i, i));
+    const { getByText } = render(
+      <PinnedLocations pinnedLocations={pinned} currentLocation={boston} onPin={onPin} onUnpin={onUnpin} />
+    );
+
+    expect(getByText(`Up to ${COMPARISON.MAX_LOCATIONS} locations`)).toBeDisabled();
+  });
+
+  it('removes a pinned location', () => {
+    const { getByLabelText } = render(
+      <PinnedLocations pinnedLocations={[newYork, boston]} currentLocation={newYork} onPin={onPin} onUnpin={onUnpin} />
+    );
+
+    fireEvent.click(getByLabelText('Remove Boston'));
+
+    expect(onUnpin).toHaveBeenCalledWith(boston);
+  });
+});
@@ -0,0 +1,70 @@
+import { h } from 'preact';
+
+import type { JSX } from 'preact/jsx-runtime';
+
+import { Location } from '../types.js';
+import { isSameLocation } from '../utils/weatherUtils';
+import { COMPARISON } from '../constants';
+
+interface PinnedLocationsProps {
+  pinnedLocations: Location[];
+  currentLocation?: Location | null;
+  onPin: (location: Location) => void;
+  onUnpin: (location: Location) => void;
+  onClear?: () => void;
+}
+
+export const PinnedLocations = ({ pinnedLocations, currentLocation, onPin, onUnpin, onClear }: PinnedLocationsProps): JSX.Element => {
+  const isCurrentPinned = !!currentLocation && pinnedLocations.some((pinned) => isSameLocation(pinned, currentLocation));
+  const isFull = pinnedLocations.length >= COMPARISON.MAX_LOCATIONS;
+
+  const getPinButtonLabel = (): string => {
+    if (isCurrentPinned) return 'Pinned';
+    if (isFull) return `Up to ${COMPARISON.MAX_LOCATIONS} locations`;
+    return 'Pin current location';
+  };
+
+  return (
+    <div class="pinned-locations" role="group" aria-label="Pinned locations for comparison">
+      <h3>Compare Locations</h3>
+      <button
+        type="button"
+        class="pin-location-btn"
+        onClick={() => currentLocation && onPin(currentLocation)}
+        disabled={!currentLocation || isCurrentPinned || isFull}
+      >
+        {getPinButtonLabel()}
+      </button>
+
+      {pinnedLocations.length > 0 ? (
+        <ul class="pinned-chips" aria-label="Pinned locations">
+          {pinnedLocations.map((location) => (
+            <li key={`${location.latitude},${location.longitude}`} class="pinned-chip">
+              <span class="pinned-chip-name">{location.name}</span>
+              <button
+                type="button"
+                class="pinned-chip-remove"
+                onClick={() => onUnpin(location)}
+                aria-label={`Remove ${location.name}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p class="pinned-hint">Pin two or more locations to overlay their weather.</p>
+      )}
+
+      {pinnedLocations.length === 1 && (
+        <p class="pinned-hint">Pin another location to start comparing.</p>
+      )}
+
+      {onClear && pinnedLocations.length > 0 && (
+        <button type="button" class="pinned-clear-btn" onClick={onClear}>
+          Clear all
+        </button>
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,8 @@ import { h } from 'preact';
 import { render, waitFor } from '@testing-library/preact';
 
 import '@testing-library/jest-dom';
+import { METRIC_UNITS } from '../utils/units';
+
 import { PrecipitationChart } from './PrecipitationChart';
 
 // Mock canvas API
@@ -119,7 +121,7 @@ describe('PrecipitationChart', () => {
     const { container } = render(
       <PrecipitationChart
         weatherData={mockWeatherData}
-        temperatureUnit="C"
+        units={METRIC_UNITS}
         location={mockLocation}
       />
     );
@@ -130,7 +132,7 @@ describe('PrecipitationChart', () => {
     const { getByText } = render(
       <PrecipitationChart
         weatherData={mockWeatherData}
-        temperatureUnit="C"
+        units={METRIC_UNITS}
         location={mockLocation}
       />
     );
@@ -141,7 +143,7 @@ describe('PrecipitationChart', () => {
     const { getByText } = render(
       <PrecipitationChart
         weatherData={null}
-        temperatureUnit="C"
+        units={METRIC_UNITS}
       />
     );
     expect(getByText('Select a location and date range to view precipitation chart')).toBeInTheDocument();
@@ -151,7 +153,7 @@ describe('PrecipitationChart', () => {
     const { container } = render(
       <PrecipitationChart
         weatherData={mockWeatherData}
-        temperatureUnit="C"
+        units={METRIC_UNITS}
         location={mockLocation}
         startDate="2023-06-15"
       />
@@ -166,7 +168,7 @@ describe('PrecipitationChart', () => {
     const { container } = render(
       <PrecipitationChart
         weatherData={mockWeatherData}
-        temperatureUnit="F"
+        units={{ ...METRIC_UNITS, temperature: 'F' }}
         location={mockLocation}
         startDate="2023-06-15"
       />
@@ -177,4 +179,48 @@ describe('PrecipitationChart', () => {
       expect(canvas).toBeInTheDocument();
     });
   });
-});
\ No newline at end of file
+
+  it('summarises rain, showers and snowfall for the range', () => {
+    const snowyWeatherData = {
+      ...mockWeatherData,
+      daily: { ...mockWeatherData.daily, rain_sum: [1.5], showers_sum: [0.5], snowfall_sum: [2.54] },
+      hourly: { ...mockWeatherData.hourly, temperature_2m: [-2, -1, 0, 1, 2] },
+    };
+    const { getByText, rerender } = render(
+      <PrecipitationChart
+        weatherData={snowyWeatherData}
+        units={METRIC_UNITS}
+        location={mockLocation}
+        startDate="2023-06-15"
+      />
+    );
+    expect(getByText('Rain 1.5 mm')).toBeInTheDocument();
+    expect(getByText('Showers 0.5 mm')).toBeInTheDocument();
+    expect(getByText('Snow 2.5 cm')).toBeInTheDocument();
+    expect(getByText('3 h at or below 0 °C')).toBeInTheDocument();
+
+    rerender(
+      <PrecipitationChart
+        weatherData={snowyWeatherData}
+        units={{ ...METRIC_UNITS, temperature: 'F', precipitation: 'in' }}
+        location={mockLocation}
+        startDate="2023-06-15"
+      />
+    );
+    expect(getByText('Rain 0.06 in')).toBeInTheDocument();
+    expect(getByText('Snow 1.0 in')).toBeInTheDocument();
+    expect(getByText('3 h at or below 32 °F')).toBeInTheDocument();
+  });
+
+  it('leaves snowfall out of the summary when none fell', () => {
+    const { queryByText } = render(
+      <PrecipitationChart
+        weatherData={mockWeatherData}
+        units={METRIC_UNITS}
+        location={mockLocation}
+        startDate="2023-06-15"
+      />
+    );
+    expect(queryByText(/^Snow/)).not.toBeInTheDocument();
+  });
+});
@@ -4,19 +4,25 @@ import type { JSX } from 'preact/jsx-runtime';
 import { useEffect, useRef, useState } from 'preact/hooks';
 
 import { DailyWeatherData, HourlyWeatherData } from '../open-meteo.js';
-import { Location } from '../types.js';
-import { getLocalDayHours, formatLocalTime } from '../utils/weatherUtils';
+import { Location, ChartSeries, UnitPreferences } from '../types.js';
+import { getLocalRangeHours, formatLocalTime, formatLocalDate, getHourLabelStep } from '../utils/weatherUtils';
+import { getLocalRangePrecipitation, getPrecipitationTotals } from '../utils/precipitation';
 import { getCurrentDateString } from '../utils/dateUtils';
+import { formatValue, formatWithUnit, getUnitLabel } from '../utils/units';
+import { CHART_SERIES_COLORS } from '../constants';
 
 interface PrecipitationChartProps {
   weatherData?: { daily: DailyWeatherData; hourly: HourlyWeatherData } | null;
-  temperatureUnit: 'C' | 'F';
+  units: UnitPreferences;
   location?: Location | null;
   startDate?: string;
+  endDate?: string;
   isLoading?: boolean;
+  /** When provided, draws grouped bars per series instead of weatherData */
+  series?: ChartSeries[];
 }
 
-export const PrecipitationChart = ({ weatherData, temperatureUnit, location, startDate, isLoading = false }: PrecipitationChartProps): JSX.Element => {
+export const PrecipitationChart = ({ weatherData, units, location, startDate, endDate, isLoading = false, series }: PrecipitationChartProps): JSX.Element => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDarkMode, setIsDarkMode] = useState(false);
 
@@ -42,21 +48,23 @@ export const PrecipitationChart = ({ weatherData, temperatureUnit, location, sta
   const PRECIPITATION_HEIGHT_RATIO = 0.4;
   const CLOUD_COVER_HEIGHT_RATIO = 0.3;
   const CLOUD_COVER_VERTICAL_POSITION = 0.7;
-  const LEGEND_SQUARE_SIZE = 15;
   const FONT_SIZE_SMALL = 12;
   const FONT_SIZE_MEDIUM = 14;
   const LABEL_OFFSET_X = 10;
   const LABEL_OFFSET_Y = 4;
   const HOUR_LABEL_OFFSET = 10;
-  const LEGEND_PRECIPITATION_X_OFFSET = 80;
-  const LEGEND_PRECIPITATION_TEXT_X_OFFSET = 60;
-  const LEGEND_CLOUD_X_OFFSET = 20;
-  const LEGEND_CLOUD_TEXT_X_OFFSET = 40;
-  const LEGEND_Y_POSITION = 15;
-  const LEGEND_TEXT_Y_POSITION = 27;
+  const MAX_POINTS_WITH_MARKERS = 48;
+  const FREEZING_STRIP_HEIGHT = 4;
+  const SERIES_LEGEND_SQUARE_SIZE = 10;
+  const SERIES_LEGEND_ITEM_SPACING = 12;
+  const SERIES_LEGEND_Y_POSITION = 28;
+
+  const isComparison = !!series && series.length > 0;
+  const freezingLabel = units.temperature === 'F' ? '32 °F' : '0 °C';
+  const precipitationLabel = getUnitLabel('precipitation', units);
 
   useEffect(() => {
-    if (!weatherData || !location || !canvasRef.current) {
+    if ((!isComparison && (!weatherData || !location)) || !canvasRef.current) {
       return;
     }
 
@@ -78,19 +86,133 @@ export const PrecipitationChart = ({ weatherData, temperatureUnit, location, sta
     const chartWidth = rect.width - padding * 2;
     const chartHeight = rect.height - padding * 2;
 
+    // Comparison mode: one group of bars per hour, one bar per series, sharing a
+    // single precipitation scale. Cloud cover is omitted to keep the overlay readable.
+    if (isComparison) {
+      const palette = isDarkMode ? CHART_SERIES_COLORS.DARK : CHART_SERIES_COLORS.LIGHT;
+      const bgColor = isDarkMode ? '#1f2937' : '#f8f9fa';
+      const gridColor = isDarkMode ? '#6b7280' : '#e0e0e0';
+      const textColor = isDarkMode ? '#f3f4f6' : '#333';
+      const textColorLight = isDarkMode ? '#9ca3af' : '#666';
+
+      const bars = series.map((item, index) => {
+        const localData = getLocalRangeHours(item.weatherData.hourly, item.location, item.startDate, item.endDate);
+        return {
+          label: item.label,
+          color: palette[index % palette.length],
+          timezone: item.location.timezone,
+          times: localData.times,
+          precipitation: localData.precip,
+          isMultiDay: item.startDate !== item.endDate
+        };
+      }).filter((bar) => bar.precipitation.length > 0);
+
+      if (bars.length === 0) {
+        console.log('[DEBUG] PrecipitationChart: No comparison data, skipping render');
+        return;
+      }
+
+      // The longest series drives the x-axis labels
+      const axisBar = bars.reduce((longest, bar) => (bar.precipitation.length > longest.precipitation.length ? bar : longest));
+      const hoursToShow = axisBar.precipitation.length;
+      const labelStep = getHourLabelStep(hoursToShow, axisBar.isMultiDay);
+      const maxPrecipitation = Math.max(...bars.flatMap((bar) => bar.precipitation)) || 1;
+      const groupWidth = chartWidth / hoursToShow * PRECIPITATION_BAR_WIDTH_RATIO;
+      const barWidth = groupWidth / bars.length;
+
+      // Draw chart background and grid
+      ctx.fillStyle = bgColor;
+      ctx.fillRect(padding, padding, chartWidth, chartHeight);
+      ctx.strokeStyle = gridColor;
+      ctx.lineWidth = 1;
+      Array.from({ length: 6 }).forEach((_, i) => {
+        const y = padding + (chartHeight / 5) * i;
+        ctx.beginPath();
+        ctx.moveTo(padding, y);
+        ctx.lineTo(padding + chartWidth, y);
+        ctx.stroke();
+      });
+      for (let i = 0; i <= hoursToShow; i += labelStep) {
+        const x = padding + (chartWidth / hoursToShow) * i;
+        ctx.beginPath();
+        ctx.moveTo(x, padding);
+        ctx.lineTo(x, padding + chartHeight);
+        ctx.stroke();
+      }
+
+      // Draw grouped bars
+      bars.forEach((bar, seriesIndex) => {
+        ctx.fillStyle = bar.color;
+        bar.precipitation.forEach((precip: number, index: number) => {
+          const x = padding + (chartWidth / hoursToShow) * index + groupWidth * 0.2 + barWidth * seriesIndex;
+          const barHeight = (precip / maxPrecipitation) * chartHeight;
+          ctx.fillRect(x, padding + chartHeight - barHeight, barWidth, barHeight);
+        });
+      });
+
+      // Draw Y-axis labels
+      ctx.fillStyle = textColor;
+      ctx.font = `${FONT_SIZE_SMALL}px sans-serif`;
+      ctx.textAlign = 'right';
+      Array.from({ length: 6 }).forEach((_, i) => {
+        const precip = (maxPrecipitation / 5) * (5 - i);
+        const y = padding + (chartHeight / 5) * i;
+        ctx.fillText(`${formatValue(precip, 'precipitation', units)}${precipitationLabel}`, padding - LABEL_OFFSET_X, y + LABEL_OFFSET_Y);
+      });
+
+      // Draw X-axis labels
+      ctx.fillStyle = textColorLight;
+      ctx.textAlign = 'center';
+      for (let i = 0; i < hoursToShow; i += labelStep) {
+        const x = padding + (chartWidth / hoursToShow) * i;
+        const hourLabel = axisBar.isMultiDay
+          ? formatLocalDate(axisBar.times[i], axisBar.timezone)
+          : formatLocalTime(axisBar.times[i], axisBar.timezone);
+        ctx.fillText(hourLabel, x, rect.height - HOUR_LABEL_OFFSET);
+      }
+
+      // Draw chart title
+      ctx.fillStyle = textColor;
+      ctx.font = `${FONT_SIZE_MEDIUM}px sans-serif`;
+      ctx.fillText('Precipitation', rect.width / 2, 20);
+
+      // Draw series legend
+      ctx.font = '11px sans-serif';
+      ctx.textAlign = 'left';
+      let legendX = padding;
+      bars.forEach((bar) => {
+        ctx.fillStyle = bar.color;
+        ctx.fillRect(legendX, SERIES_LEGEND_Y_POSITION - SERIES_LEGEND_SQUARE_SIZE, SERIES_LEGEND_SQUARE_SIZE, SERIES_LEGEND_SQUARE_SIZE);
+        ctx.fillStyle = textColor;
+        ctx.fillText(bar.label, legendX + SERIES_LEGEND_SQUARE_SIZE + 4, SERIES_LEGEND_Y_POSITION);
+        legendX += SERIES_LEGEND_SQUARE_SIZE + 4 + ctx.measureText(bar.label).width + SERIES_LEGEND_ITEM_SPACING;
+      });
+      return;
+    }
+    if (!weatherData || !location) return;
+
     const effectiveStartDate = startDate || getCurrentDateString();
-    const localData = getLocalDayHours(weatherData.hourly, location, effectiveStartDate);
+    const effectiveEndDate = endDate || effectiveStartDate;
+    const isMultiDay = effectiveEndDate !== effectiveStartDate;
+    const localData = getLocalRangeHours(weatherData.hourly, location, effectiveStartDate, effectiveEndDate);
     const precipitationData = localData.precip;
     const cloudCoverData = localData.cloudcover;
+    const breakdown = getLocalRangePrecipitation(weatherData.hourly, location, effectiveStartDate, effectiveEndDate);
 
-    // Find max values for scaling
-    const maxPrecipitation = Math.max(...precipitationData) || 1;
+    // Find max values for scaling; bars stack rain, showers and melted snow
+    const stackedTotals = precipitationData.map((_, index) =>
+      (breakdown.rain[index] ?? 0) + (breakdown.showers[index] ?? 0) + (breakdown.snow[index] ?? 0)
+    );
+    const maxPrecipitation = Math.max(...stackedTotals) || 1;
     const maxCloudCover = CLOUD_COVER_MAX; // Cloud cover is percentage
 
     // Define colors based on dark mode
     const bgColor = isDarkMode ? '#1f2937' : '#f8f9fa';
     const gridColor = isDarkMode ? '#6b7280' : '#e0e0e0';
-    const precipColor = isDarkMode ? '#3b82f6' : '#4dabf7';
+    const rainColor = isDarkMode ? '#3b82f6' : '#4dabf7';
+    const showersColor = isDarkMode ? '#1d4ed8' : '#1c7ed6';
+    const snowColor = isDarkMode ? '#a855f7' : '#cc5de8';
+    const freezingColor = isDarkMode ? '#06b6d4' : '#15aabf';
     const cloudColor = isDarkMode ? '#d1d5db' : '#868e96';
     const textColor = isDarkMode ? '#f3f4f6' : '#333';
     const textColorLight = isDarkMode ? '#9ca3af' : '#666';
@@ -114,7 +236,8 @@ export const PrecipitationChart = ({ weatherData, temperatureUnit, location, sta
 
     // Vertical grid lines
     const hoursToShow = precipitationData.length;
-    for (let i = 0; i <= hoursToShow; i += 3) {
+    const labelStep = getHourLabelStep(hoursToShow, isMultiDay);
+    for (let i = 0; i <= hoursToShow; i += labelStep) {
       const x = padding + (chartWidth / hoursToShow) * i;
       ctx.beginPath();
       ctx.moveTo(x, padding);
@@ -122,17 +245,35 @@ export const PrecipitationChart = ({ weatherData, temperatureUnit, location, sta
       ctx.stroke();
     }
 
-    // Draw precipitation bars
-    ctx.fillStyle = precipColor;
-    precipitationData.forEach((precip: number, index: number) => {
+    // Draw stacked precipitation bars: rain at the bottom, then showers, then snow
+    const barWidth = chartWidth / hoursToShow * PRECIPITATION_BAR_WIDTH_RATIO;
+    precipitationData.forEach((_, index: number) => {
       const x = padding + (chartWidth / hoursToShow) * index;
-      const barWidth = chartWidth / hoursToShow * PRECIPITATION_BAR_WIDTH_RATIO;
-      const barHeight = (precip / maxPrecipitation) * (chartHeight * PRECIPITATION_HEIGHT_RATIO); // Use 40% of chart height
-      const y = padding + chartHeight - barHeight;
-
-      ctx.fillRect(x + barWidth * 0.2, y, barWidth, barHeight);
+      let y = padding + chartHeight;
+      [
+        { value: breakdown.rain[index] ?? 0, color: rainColor },
+        { value: breakdown.showers[index] ?? 0, color: showersColor },
+        { value: breakdown.snow[index] ?? 0, color: snowColor },
+      ].forEach((part) => {
+        const partHeight = (part.value / maxPrecipitation) * (chartHeight * PRECIPITATION_HEIGHT_RATIO); // Use 40% of chart height
+        if (partHeight <= 0) return;
+        y -= partHeight;
+        ctx.fillStyle = part.color;
+        ctx.fillRect(x + barWidth * 0.2, y, barWidth, partHeight);
+      });
     });
 
+    // Mark hours at or below freezing with a strip under the plot area
+    const hasFreezingHours = breakdown.freezing.some(Boolean);
+    if (hasFreezingHours) {
+      ctx.fillStyle = freezingColor;
+      breakdown.freezing.forEach((isFreezing, index) => {
+        if (!isFreezing || index >= hoursToShow) return;
+        const x = padding + (chartWidth / hoursToShow) * index;
+        ctx.fillRect(x, padding + chartHeight + 2, chartWidth / hoursToShow, FREEZING_STRIP_HEIGHT);
+      });
+    }
+
     // Draw cloud cover line
     ctx.strokeStyle = cloudColor;
     ctx.lineWidth = 2;
@@ -151,26 +292,28 @@ export const PrecipitationChart = ({ weatherData, temperatureUnit, location, sta
 
     ctx.stroke();
 
-    // Draw cloud cover data points
-    ctx.fillStyle = cloudColor;
-    cloudCoverData.forEach((cover: number, index: number) => {
-      const x = padding + (chartWidth / hoursToShow) * index;
-      const y = padding + chartHeight * CLOUD_COVER_VERTICAL_POSITION - (cover / maxCloudCover) * (chartHeight * CLOUD_COVER_HEIGHT_RATIO);
-
-      ctx.beginPath();
-      ctx.arc(x, y, 3, 0, 2 * Math.PI);
-      ctx.fill();
-    });
+    // Draw cloud cover data points (skipped on long ranges where they would merge into the line)
+    if (hoursToShow <= MAX_POINTS_WITH_MARKERS) {
+      ctx.fillStyle = cloudColor;
+      cloudCoverData.forEach((cover: number, index: number) => {
+        const x = padding + (chartWidth / hoursToShow) * index;
+        const y = padding + chartHeight * CLOUD_COVER_VERTICAL_POSITION - (cover / maxCloudCover) * (chartHeight * CLOUD_COVER_HEIGHT_RATIO);
+
+        ctx.beginPath();
+        ctx.arc(x, y, 3, 0, 2 * Math.PI);
+        ctx.fill();
+      });
+    }
 
     // Draw Y-axis labels (left side - precipitation)
-    ctx.fillStyle = precipColor;
+    ctx.fillStyle = rainColor;
     ctx.font = `${FONT_SIZE_SMALL}px sans-serif`;
     ctx.textAlign = 'right';
 
     Array.from({ length: 6 }).forEach((_, i) => {
       const precip = (maxPrecipitation / 5) * (5 - i);
       const y = padding + (chartHeight / 5) * i;
-      ctx.fillText(`${precip.toFixed(1)}mm`, padding - LABEL_OFFSET_X, y + LABEL_OFFSET_Y);
+      ctx.fillText(`${formatValue(precip, 'precipitation', units)}${precipitationLabel}`, padding - LABEL_OFFSET_X, y + LABEL_OFFSET_Y);
     });
 
     // Draw Y-axis labels (right side - cloud cover)
@@ -187,35 +330,36 @@ export const PrecipitationChart = ({ weatherData, temperatureUnit, location, sta
     ctx.fillStyle = textColorLight;
     ctx.textAlign = 'center';
 
-    for (let i = 0; i < hoursToShow; i += 3) {
+    for (let i = 0; i < hoursToShow; i += labelStep) {
       const x = padding + (chartWidth / hoursToShow) * i;
-      const hourLabel = formatLocalTime(localData.times[i], location.timezone);
+      const hourLabel = isMultiDay
+        ? formatLocalDate(localData.times[i], location.timezone)
+        : formatLocalTime(localData.times[i], location.timezone);
       ctx.fillText(hourLabel, x, rect.height - HOUR_LABEL_OFFSET);
     }
 
-    // Draw legend
-    ctx.fillStyle = precipColor;
-    ctx.fillRect(rect.width / 2 - LEGEND_PRECIPITATION_X_OFFSET, LEGEND_Y_POSITION, LEGEND_SQUARE_SIZE, LEGEND_SQUARE_SIZE);
-    ctx.fillStyle = textColor;
-    ctx.font = `${FONT_SIZE_SMALL}px sans-serif`;
+    // Draw legend (the heading above the canvas carries the title)
+    ctx.font = '11px sans-serif';
     ctx.textAlign = 'left';
-    ctx.fillText('Precipitation', rect.width / 2 - LEGEND_PRECIPITATION_TEXT_X_OFFSET, LEGEND_TEXT_Y_POSITION);
-
-    ctx.fillStyle = cloudColor;
-    ctx.fillRect(rect.width / 2 + LEGEND_CLOUD_X_OFFSET, LEGEND_Y_POSITION, LEGEND_SQUARE_SIZE, LEGEND_SQUARE_SIZE);
-    ctx.fillStyle = textColor;
-    ctx.fillText('Cloud Cover', rect.width / 2 + LEGEND_CLOUD_TEXT_X_OFFSET, LEGEND_TEXT_Y_POSITION);
-
-    // Draw chart title
-    ctx.fillStyle = textColor;
-    ctx.font = `${FONT_SIZE_MEDIUM}px sans-serif`;
-    ctx.textAlign = 'center';
-    ctx.fillText('Precipitation & Cloud Cover', rect.width / 2, 20);
-
-  }, [weatherData, temperatureUnit, location, startDate, isDarkMode]);
+    let legendX = padding;
+    [
+      { label: 'Rain', color: rainColor },
+      { label: 'Showers', color: showersColor },
+      { label: 'Snow (water)', color: snowColor },
+      { label: 'Cloud Cover', color: cloudColor },
+      ...(hasFreezingHours ? [{ label: `≤ ${freezingLabel}`, color: freezingColor }] : []),
+    ].forEach((item) => {
+      ctx.fillStyle = item.color;
+      ctx.fillRect(legendX, SERIES_LEGEND_Y_POSITION - SERIES_LEGEND_SQUARE_SIZE, SERIES_LEGEND_SQUARE_SIZE, SERIES_LEGEND_SQUARE_SIZE);
+      ctx.fillStyle = textColor;
+      ctx.fillText(item.label, legendX + SERIES_LEGEND_SQUARE_SIZE + 4, SERIES_LEGEND_Y_POSITION);
+      legendX += SERIES_LEGEND_SQUARE_SIZE + 4 + ctx.measureText(item.label).width + SERIES_LEGEND_ITEM_SPACING;
+    });
+  }, [weatherData, units, location, startDate, endDate, isDarkMode, series, isComparison]);
 
   // Data guard for empty localData
   const effectiveStartDate = startDate || getCurrentDateString();
+  const effectiveEndDate = endDate || effectiveStartDate;
   const emptyHourly = {
     time: [],
     precipitation: [],
@@ -224,7 +368,7 @@ export const PrecipitationChart = ({ weatherData, temperatureUnit, location, sta
     weathercode: [],
   } as unknown as HourlyWeatherData;
   const hourlyData = weatherData?.hourly || emptyHourly;
-  const localData = getLocalDayHours(hourlyData, location || { timezone: 'UTC' } as unknown as Location, effectiveStartDate);
+  const localData = getLocalRangeHours(hourlyData, location || { timezone: 'UTC' } as unknown as Location, effectiveStartDate, effectiveEndDate);
   if (isLoading) {
     return (
       <div class="chart-container">
@@ -234,12 +378,25 @@ export const PrecipitationChart = ({ weatherData, temperatureUnit, location, sta
     );
   }
 
+  if (isComparison) {
+    return (
+      <div class="chart-container">
+        <h4>Precipitation</h4>
+        <canvas
+          ref={canvasRef}
+          style={{ width: '100%', height: '150px' }}
+          aria-label={`Precipitation comparison: ${series.map((item) => item.label).join(', ')}`}
+        />
+      </div>
+    );
+  }
+
   if (localData.precip.length === 0 && weatherData && location) {
     return (
       <div class="chart-container">
         <h4>Precipitation & Cloud Cover</h4>
         <div class="chart-placeholder">
-          <p>No precipitation or cloud cover data available for the selected date and location. Try a different historical date from 1940 onwards.</p>
+          <p>No precipitation or cloud cover data available for the selected dates and location. Try a different historical date from 1940 onwards.</p>
         </div>
       </div>
     );
@@ -254,13 +411,24 @@ export const PrecipitationChart = ({ weatherData, temperatureUnit, location, sta
     );
   }
 
+  const totals = getPrecipitationTotals(weatherData.daily, effectiveStartDate, effectiveEndDate);
+  const freezingHours = getLocalRangePrecipitation(weatherData.hourly, location, effectiveStartDate, effectiveEndDate)
+    .freezing.filter(Boolean).length;
+
   return (
     <div class="chart-container">
       <h4>Precipitation & Cloud Cover</h4>
       <canvas
         ref={canvasRef}
         style={{ width: '100%', height: '150px' }}
+        aria-label={`Hourly precipitation stacked as rain, showers and snow water equivalent in ${precipitationLabel}, with cloud cover and hours at or below freezing marked`}
       />
+      <p class="precip-summary">
+        <span>Rain {formatWithUnit(totals.rain, 'precipitation', units)}</span>
+        <span>Showers {formatWithUnit(totals.showers, 'precipitation', units)}</span>
+        {totals.snowfall > 0 && <span class="precip-snow">Snow {formatWithUnit(totals.snowfall, 'snowfall', units)}</span>}
+        {freezingHours > 0 && <span>{freezingHours} h at or below {freezingLabel}</span>}
+      </p>
     </div>
   );
 };
\ No newline at end of file
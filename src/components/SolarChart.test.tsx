@@ -0,0 +1,93 @@
+import { h } from 'preact';
+
+import { render, within } from '@testing-library/preact';
+
+import '@testing-library/jest-dom';
+import { SolarChart } from './SolarChart';
+
+// Mock canvas API
+const mockContext = {
+  clearRect: jest.fn(),
+  fillRect: jest.fn(),
+  beginPath: jest.fn(),
+  moveTo: jest.fn(),
+  lineTo: jest.fn(),
+  stroke: jest.fn(),
+  measureText: jest.fn().mockReturnValue({ width: 10 }),
+  fillText: jest.fn(),
+  scale: jest.fn()
+};
+HTMLCanvasElement.prototype.getContext = jest.fn().mockReturnValue(mockContext);
+
+HTMLCanvasElement.prototype.getBoundingClientRect = jest.fn().mockReturnValue({
+  width: 400,
+  height: 170,
+  top: 0,
+  left: 0,
+  bottom: 170,
+  right: 400,
+});
+
+describe('SolarChart', () => {
+  const mockLocation = {
+    id: 1,
+    name: 'London',
+    latitude: 51.5,
+    longitude: -0.12,
+    elevation: 0,
+    feature_code: 'PPL',
+    country_code: 'GB',
+    timezone: 'UTC',
+    country: 'United Kingdom'
+  };
+
+  const mockWeatherData = {
+    daily: {
+      time: [new Date('2023-06-15')],
+      sunrise: ['2023-06-15T04:43'],
+      sunset: ['2023-06-15T21:19'],
+      shortwave_radiation_sum: [25.2]
+    },
+    hourly: {
+      time: [new Date('2023-06-15T11:00:00Z'), new Date('2023-06-15T12:00:00Z'), new Date('2023-06-15T13:00:00Z')],
+      shortwave_radiation: [780, 820, 760],
+      direct_radiation: [600, 640, 580],
+      diffuse_radiation: [180, 180, 180],
+      direct_normal_irradiance: [700, 750, 690]
+    }
+  } as unknown as Parameters<typeof SolarChart>[0]['weatherData'];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('summarizes each day with daylight and radiation totals', () => {
+    const { getByRole } = render(
+      <SolarChart weatherData={mockWeatherData} location={mockLocation} startDate="2023-06-15" />
+    );
+
+    const row = within(getByRole('table', { name: 'Daily sunshine and radiation' })).getAllByRole('row')[1];
+    expect(row).toHaveTextContent('04:43');
+    expect(row).toHaveTextContent('21:19');
+    expect(row).toHaveTextContent('16.6');
+    expect(row).toHaveTextContent('7.00');
+    expect(row).toHaveTextContent('2.14');
+    expect(row).toHaveTextContent('820');
+  });
+
+  it('shades night hours before drawing the irradiance lines', () => {
+    render(<SolarChart weatherData={mockWeatherData} location={mockLocation} startDate="2023-06-15" />);
+
+    // Night background, then one daylight band
+    expect(mockContext.fillRect.mock.calls.length).toBeGreaterThanOrEqual(2);
+    expect(mockContext.fillText).toHaveBeenCalledWith('DNI', expect.any(Number), expect.any(Number));
+  });
+
+  it('shows a placeholder when the range has no radiation data', () => {
+    const { getByText } = render(
+      <SolarChart weatherData={mockWeatherData} location={mockLocation} startDate="2023-07-01" />
+    );
+
+    expect(getByText('No solar radiation data available for the selected dates and location.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,245 @@
+import { h } from 'preact';
+
+import type { JSX } from 'preact/jsx-runtime';
+import { useEffect, useRef, useState } from 'preact/hooks';
+
+import { DailyWeatherData, HourlyWeatherData } from '../open-meteo.js';
+import { Location } from '../types.js';
+import { getLocalRangeSolar, getValueStats, formatLocalTime, formatLocalDate, getHourLabelStep } from '../utils/weatherUtils';
+import { getSolarDaySummaries, getHourOffset } from '../utils/solar';
+import { getCurrentDateString, parseDateString } from '../utils/dateUtils';
+
+interface SolarChartProps {
+  weatherData?: { daily: DailyWeatherData; hourly: HourlyWeatherData } | null;
+  location?: Location | null;
+  startDate?: string;
+  endDate?: string;
+  isLoading?: boolean;
+}
+
+export const SolarChart = ({ weatherData, location, startDate, endDate, isLoading = false }: SolarChartProps): JSX.Element => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isDarkMode, setIsDarkMode] = useState(false);
+
+  // Detect dark mode changes
+  useEffect(() => {
+    const checkDarkMode = () => {
+      setIsDarkMode(document.body.classList.contains('dark-mode'));
+    };
+
+    checkDarkMode();
+    const observer = new MutationObserver(checkDarkMode);
+    observer.observe(document.body, { attributes: true, attributeFilter: ['class'] });
+
+    return () => observer.disconnect();
+  }, []);
+
+  // Chart rendering constants
+  const CHART_PADDING = 40;
+  const LEFT_AXIS_WIDTH = 56;
+  const GRID_LINES = 4;
+  const LEGEND_SQUARE_SIZE = 10;
+  const LEGEND_ITEM_SPACING = 12;
+  const LEGEND_Y_POSITION = 28;
+
+  const effectiveStartDate = startDate || getCurrentDateString();
+  const effectiveEndDate = endDate || effectiveStartDate;
+  const isMultiDay = effectiveStartDate !== effectiveEndDate;
+
+  const solar = weatherData && location
+    ? getLocalRangeSolar(weatherData.hourly, location, effectiveStartDate, effectiveEndDate)
+    : { times: [], shortwave: [], direct: [], diffuse: [], directNormal: [] };
+  const days = weatherData && location
+    ? getSolarDaySummaries(weatherData, location, effectiveStartDate, effectiveEndDate)
+    : [];
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !location || solar.times.length === 0) {
+      return;
+    }
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = rect.width * window.devicePixelRatio;
+    canvas.height = rect.height * window.devicePixelRatio;
+    ctx.scale(window.devicePixelRatio, window.devicePixelRatio);
+    ctx.clearRect(0, 0, rect.width, rect.height);
+
+    const left = LEFT_AXIS_WIDTH;
+    const top = CHART_PADDING;
+    const chartWidth = rect.width - LEFT_AXIS_WIDTH - CHART_PADDING;
+    const chartHeight = rect.height - CHART_PADDING * 2;
+    const hoursToShow = solar.times.length;
+    const hourWidth = chartWidth / hoursToShow;
+
+    const bgColor = isDarkMode ? '#1f2937' : '#f8f9fa';
+    const nightColor = isDarkMode ? '#111827' : '#e9ecef';
+    const gridColor = isDarkMode ? '#6b7280' : '#e0e0e0';
+    const textColor = isDarkMode ? '#f3f4f6' : '#333';
+    const textColorLight = isDarkMode ? '#9ca3af' : '#666';
+    const lines = [
+      { label: 'Global (GHI)', data: solar.shortwave, color: isDarkMode ? '#eab308' : '#fcc419' },
+      { label: 'Direct', data: solar.direct, color: isDarkMode ? '#f97316' : '#ff922b' },
+      { label: 'Diffuse', data: solar.diffuse, color: isDarkMode ? '#3b82f6' : '#4dabf7' },
+      { label: 'DNI', data: solar.directNormal, color: isDarkMode ? '#ef4444' : '#e03131' },
+    ];
+
+    const maxIrradiance = Math.max(
+      getValueStats(lines.flatMap((line) => line.data))?.max ?? 0,
+      100
+    );
+
+    // Night first, then daylight between each day's sunrise and sunset
+    ctx.fillStyle = nightColor;
+    ctx.fillRect(left, top, chartWidth, chartHeight);
+    ctx.fillStyle = bgColor;
+    days.forEach((day) => {
+      const rise = day.sunrise ? getHourOffset(day.sunrise, solar.times[0]) : null;
+      const set = day.sunset ? getHourOffset(day.sunset, solar.times[0]) : null;
+      if (rise === null || set === null) return;
+      const x0 = left + Math.max(0, rise) * hourWidth;
+      const x1 = left + Math.min(hoursToShow, set) * hourWidth;
+      if (x1 > x0) {
+        ctx.fillRect(x0, top, x1 - x0, chartHeight);
+      }
+    });
+
+    // Horizontal grid lines and y-axis labels
+    ctx.strokeStyle = gridColor;
+    ctx.lineWidth = 1;
+    ctx.fillStyle = textColor;
+    ctx.font = '11px sans-serif';
+    ctx.textAlign = 'right';
+    Array.from({ length: GRID_LINES + 1 }).forEach((_, i) => {
+      const y = top + (chartHeight / GRID_LINES) * i;
+      ctx.beginPath();
+      ctx.moveTo(left, y);
+      ctx.lineTo(left + chartWidth, y);
+      ctx.stroke();
+      ctx.fillText(`${Math.round((maxIrradiance / GRID_LINES) * (GRID_LINES - i))}`, left - 6, y + 4);
+    });
+
+    lines.forEach((line) => {
+      ctx.strokeStyle = line.color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      let penDown = false;
+      line.data.forEach((value, index) => {
+        if (typeof value !== 'number') {
+          penDown = false; // Leave a gap for missing hours
+          return;
+        }
+        const x = left + hourWidth * index;
+        const y = top + chartHeight - (value / maxIrradiance) * chartHeight;
+        if (penDown) {
+          ctx.lineTo(x, y);
+        } else {
+          ctx.moveTo(x, y);
+          penDown = true;
+        }
+      });
+      ctx.stroke();
+    });
+
+    // X-axis labels (hours, or days for longer ranges)
+    ctx.fillStyle = textColorLight;
+    ctx.font = '12px sans-serif';
+    ctx.textAlign = 'center';
+    const labelStep = getHourLabelStep(hoursToShow, isMultiDay);
+    for (let i = 0; i < hoursToShow; i += labelStep) {
+      const x = left + hourWidth * i;
+      const label = isMultiDay
+        ? formatLocalDate(solar.times[i], location.timezone)
+        : formatLocalTime(solar.times[i], location.timezone);
+      ctx.fillText(label, x, rect.height - 10);
+    }
+
+    // Legend
+    ctx.font = '11px sans-serif';
+    ctx.textAlign = 'left';
+    let legendX = left;
+    lines.forEach((line) => {
+      ctx.fillStyle = line.color;
+      ctx.fillRect(legendX, LEGEND_Y_POSITION - LEGEND_SQUARE_SIZE, LEGEND_SQUARE_SIZE, LEGEND_SQUARE_SIZE);
+      ctx.fillStyle = textColor;
+      ctx.fillText(line.label, legendX + LEGEND_SQUARE_SIZE + 4, LEGEND_Y_POSITION);
+      legendX += LEGEND_SQUARE_SIZE + 4 + ctx.measureText(line.label).width + LEGEND_ITEM_SPACING;
+    });
+  }, [weatherData, location, startDate, endDate, isDarkMode]);
+
+  if (isLoading || !weatherData || !location) {
+    return (
+      <div class="chart-container">
+        <h4>Solar Radiation</h4>
+        <div class="loading-text">.....</div>
+      </div>
+    );
+  }
+
+  if (solar.times.length === 0) {
+    return (
+      <div class="chart-container">
+        <h4>Solar Radiation</h4>
+        <div class="chart-placeholder">
+          <p>No solar radiation data available for the selected dates and location.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const formatNumber = (value: number | null, digits: number): string =>
+    value === null ? '–' : value.toFixed(digits);
+
+  // Sunrise and sunset are local wall-clock strings, so the time part is already local
+  const formatClock = (time: string | null): string => (time ? time.slice(11, 16) : '–');
+
+  const formatDay = (key: string): string => {
+    const date = parseDateString(key);
+    if (!date) return key;
+    return date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+  };
+
+  return (
+    <div class="chart-container solar-chart">
+      <h4>Solar Radiation</h4>
+      <canvas
+        ref={canvasRef}
+        style={{ width: '100%', height: '170px' }}
+        aria-label="Hourly global, direct, diffuse and direct normal irradiance in W/m², with night hours shaded"
+      />
+      {days.length > 0 && (
+        <div class="comparison-table-scroll">
+          <table class="comparison-table solar-table">
+            <caption>Daily sunshine and radiation</caption>
+            <thead>
+              <tr>
+                <th scope="col">Date</th>
+                <th scope="col">Sunrise</th>
+                <th scope="col">Sunset</th>
+                <th scope="col">Daylight (h)</th>
+                <th scope="col">Radiation (kWh/m²)</th>
+                <th scope="col">DNI (kWh/m²)</th>
+                <th scope="col">Peak (W/m²)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {days.map((day) => (
+                <tr key={day.date}>
+                  <th scope="row">{formatDay(day.date)}</th>
+                  <td>{formatClock(day.sunrise)}</td>
+                  <td>{formatClock(day.sunset)}</td>
+                  <td>{formatNumber(day.daylightHours, 1)}</td>
+                  <td>{formatNumber(day.radiationKwh, 2)}</td>
+                  <td>{formatNumber(day.directNormalKwh, 2)}</td>
+                  <td>{formatNumber(day.peakIrradiance, 0)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,8 @@ import { h } from 'preact';
 import { render, waitFor } from '@testing-library/preact';
 
 import '@testing-library/jest-dom';
+import { METRIC_UNITS } from '../utils/units';
+
 import { TemperatureChart } from './TemperatureChart';
 
 // Mock canvas API
@@ -119,7 +121,7 @@ describe('TemperatureChart', () => {
     const { container } = render(
       <TemperatureChart
         weatherData={mockWeatherData}
-        temperatureUnit="C"
+        units={METRIC_UNITS}
       />
     );
     expect(container).toBeInTheDocument();
@@ -129,7 +131,7 @@ describe('TemperatureChart', () => {
     const { getByText } = render(
       <TemperatureChart
         weatherData={mockWeatherData}
-        temperatureUnit="C"
+        units={METRIC_UNITS}
       />
     );
     expect(getByText('Temperature')).toBeInTheDocument();
@@ -139,7 +141,7 @@ describe('TemperatureChart', () => {
     const { getByText } = render(
       <TemperatureChart
         weatherData={null}
-        temperatureUnit="C"
+        units={METRIC_UNITS}
       />
     );
     expect(getByText('Select a location and date range to view temperature chart')).toBeInTheDocument();
@@ -149,7 +151,7 @@ describe('TemperatureChart', () => {
     const { container } = render(
       <TemperatureChart
         weatherData={mockWeatherData}
-        temperatureUnit="C"
+        units={METRIC_UNITS}
         location={mockLocation}
         startDate="2023-06-15" // Date should match the date in mock data
       />
@@ -164,7 +166,7 @@ describe('TemperatureChart', () => {
     const { container } = render(
       <TemperatureChart
         weatherData={mockWeatherData}
-        temperatureUnit="F"
+        units={{ ...METRIC_UNITS, temperature: 'F' }}
         location={mockLocation}
         startDate="2023-06-15" // Date should match the date in mock data
       />
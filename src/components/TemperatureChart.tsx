@@ -4,19 +4,24 @@ import type { JSX } from 'preact/jsx-runtime';
 import { useEffect, useRef, useState } from 'preact/hooks';
 
 import { DailyWeatherData, HourlyWeatherData } from '../open-meteo.js';
-import { Location } from '../types.js';
-import { getLocalDayHours, formatLocalTime } from '../utils/weatherUtils';
+import { Location, ChartSeries, UnitPreferences } from '../types.js';
+import { getLocalRangeHours, formatLocalTime, formatLocalDate, getHourLabelStep } from '../utils/weatherUtils';
 import { getCurrentDateString } from '../utils/dateUtils';
+import { convertValue, getUnitLabel } from '../utils/units';
+import { CHART_SERIES_COLORS } from '../constants';
 
 interface TemperatureChartProps {
   weatherData?: { daily: DailyWeatherData; hourly: HourlyWeatherData } | null;
-  temperatureUnit: 'C' | 'F';
+  units: UnitPreferences;
   location?: Location | null;
   startDate?: string;
+  endDate?: string;
   isLoading?: boolean;
+  /** When provided, overlays one line per series instead of drawing weatherData */
+  series?: ChartSeries[];
 }
 
-export const TemperatureChart = ({ weatherData, temperatureUnit, location, startDate, isLoading = false }: TemperatureChartProps): JSX.Element => {
+export const TemperatureChart = ({ weatherData, units, location, startDate, endDate, isLoading = false, series }: TemperatureChartProps): JSX.Element => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDarkMode, setIsDarkMode] = useState(false);
 
@@ -37,12 +42,16 @@ export const TemperatureChart = ({ weatherData, temperatureUnit, location, start
 
   // Chart rendering constants
   const CHART_PADDING = 40;
-  const FAHRENHEIT_CONVERSION_FACTOR = 9/5;
-  const FAHRENHEIT_CONVERSION_OFFSET = 32;
   const CHART_TITLE_Y_POSITION = 20;
+  const MAX_POINTS_WITH_MARKERS = 48;
+  const LEGEND_SQUARE_SIZE = 10;
+  const LEGEND_ITEM_SPACING = 12;
+  const LEGEND_Y_POSITION = 28;
+
+  const isComparison = !!series && series.length > 0;
 
   useEffect(() => {
-    if (!weatherData || !location || !canvasRef.current) {
+    if ((!isComparison && (!weatherData || !location)) || !canvasRef.current) {
       return;
     }
 
@@ -64,23 +73,43 @@ export const TemperatureChart = ({ weatherData, temperatureUnit, location, start
     const chartWidth = rect.width - padding * 2;
     const chartHeight = rect.height - padding * 2;
 
-    const effectiveStartDate = startDate || getCurrentDateString();
-    const localData = getLocalDayHours(weatherData.hourly, location, effectiveStartDate);
-    console.log('[DEBUG] TemperatureChart: localData', {
-      tempsLength: localData.temps.length,
-      timesLength: localData.times.length,
-      startDate: effectiveStartDate,
-      location: location?.name
-    });
-    const temperatures = localData.temps.map((temp: number) =>
-      temperatureUnit === 'F' ? (temp * FAHRENHEIT_CONVERSION_FACTOR) + FAHRENHEIT_CONVERSION_OFFSET : temp
-    );
-
-    if (temperatures.length === 0) {
+    const palette = isDarkMode ? CHART_SERIES_COLORS.DARK : CHART_SERIES_COLORS.LIGHT;
+    const toDisplayUnit = (temp: number) => convertValue(temp, 'temperature', units);
+
+    // Collect one line per series (or a single line for the current location)
+    const lines = (isComparison ? series : [{
+      label: location?.name ?? '',
+      location: location as Location,
+      weatherData: weatherData as ChartSeries['weatherData'],
+      startDate: startDate || getCurrentDateString(),
+      endDate: endDate || startDate || getCurrentDateString()
+    }]).map((item, index) => {
+      const localData = getLocalRangeHours(item.weatherData.hourly, item.location, item.startDate, item.endDate);
+      return {
+        label: item.label,
+        color: palette[index % palette.length],
+        timezone: item.location.timezone,
+        times: localData.times,
+        temperatures: localData.temps.map(toDisplayUnit),
+        isMultiDay: item.startDate !== item.endDate
+      };
+    }).filter((line) => line.temperatures.length > 0);
+
+    console.log('[DEBUG] TemperatureChart: lines', lines.map((line) => ({
+      label: line.label,
+      tempsLength: line.temperatures.length
+    })));
+
+    if (lines.length === 0) {
       console.log('[DEBUG] TemperatureChart: No temperatures data, skipping render');
       return;
     }
 
+    // The longest line drives the x-axis labels
+    const axisLine = lines.reduce((longest, line) => (line.temperatures.length > longest.temperatures.length ? line : longest));
+    const { isMultiDay } = axisLine;
+    const temperatures = lines.flatMap((line) => line.temperatures);
+
     // Find min and max temperatures
     const maxTemp = Math.max(...temperatures);
     const minTemp = Math.min(...temperatures);
@@ -111,8 +140,9 @@ export const TemperatureChart = ({ weatherData, temperatureUnit, location, start
     });
 
     // Vertical grid lines
-    const hoursToShow = temperatures.length;
-    for (let i = 0; i <= hoursToShow; i += 3) {
+    const hoursToShow = axisLine.temperatures.length;
+    const labelStep = getHourLabelStep(hoursToShow, isMultiDay);
+    for (let i = 0; i <= hoursToShow; i += labelStep) {
       const x = padding + (chartWidth / hoursToShow) * i;
       ctx.beginPath();
       ctx.moveTo(x, padding);
@@ -120,33 +150,39 @@ export const TemperatureChart = ({ weatherData, temperatureUnit, location, start
       ctx.stroke();
     }
 
-    // Draw temperature line
-    ctx.strokeStyle = tempLineColor;
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-
-    temperatures.forEach((temp: number, index: number) => {
-      const x = padding + (chartWidth / hoursToShow) * index;
-      const y = padding + chartHeight - ((temp - minTemp) / tempRange) * chartHeight;
-      
-      if (index === 0) {
-        ctx.moveTo(x, y);
-      } else {
-        ctx.lineTo(x, y);
-      }
-    });
+    lines.forEach((line) => {
+      const lineColor = isComparison ? line.color : tempLineColor;
 
-    ctx.stroke();
+      // Draw temperature line
+      ctx.strokeStyle = lineColor;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
 
-    // Draw data points
-    ctx.fillStyle = tempLineColor;
-    temperatures.forEach((temp: number, index: number) => {
-      const x = padding + (chartWidth / hoursToShow) * index;
-      const y = padding + chartHeight - ((temp - minTemp) / tempRange) * chartHeight;
+      line.temperatures.forEach((temp: number, index: number) => {
+        const x = padding + (chartWidth / hoursToShow) * index;
+        const y = padding + chartHeight - ((temp - minTemp) / tempRange) * chartHeight;
 
-      ctx.beginPath();
-      ctx.arc(x, y, 3, 0, 2 * Math.PI);
-      ctx.fill();
+        if (index === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      });
+
+      ctx.stroke();
+
+      // Draw data points (skipped on long ranges where they would merge into the line)
+      if (line.temperatures.length <= MAX_POINTS_WITH_MARKERS) {
+        ctx.fillStyle = lineColor;
+        line.temperatures.forEach((temp: number, index: number) => {
+          const x = padding + (chartWidth / hoursToShow) * index;
+          const y = padding + chartHeight - ((temp - minTemp) / tempRange) * chartHeight;
+
+          ctx.beginPath();
+          ctx.arc(x, y, 3, 0, 2 * Math.PI);
+          ctx.fill();
+        });
+      }
     });
 
     // Draw Y-axis labels
@@ -157,16 +193,18 @@ export const TemperatureChart = ({ weatherData, temperatureUnit, location, start
     Array.from({ length: 6 }).forEach((_, i) => {
       const temp = minTemp + (tempRange / 5) * (5 - i);
       const y = padding + (chartHeight / 5) * i;
-      ctx.fillText(`${Math.round(temp)}°${temperatureUnit}`, padding - 10, y + 4);
+      ctx.fillText(`${Math.round(temp)}${getUnitLabel('temperature', units)}`, padding - 10, y + 4);
     });
 
     // Draw X-axis labels (hours)
     ctx.fillStyle = textColorLight;
     ctx.textAlign = 'center';
 
-    for (let i = 0; i < hoursToShow; i += 3) {
+    for (let i = 0; i < hoursToShow; i += labelStep) {
       const x = padding + (chartWidth / hoursToShow) * i;
-      const hourLabel = formatLocalTime(localData.times[i], location.timezone);
+      const hourLabel = isMultiDay
+        ? formatLocalDate(axisLine.times[i], axisLine.timezone)
+        : formatLocalTime(axisLine.times[i], axisLine.timezone);
       ctx.fillText(hourLabel, x, rect.height - 10);
     }
 
@@ -176,10 +214,25 @@ export const TemperatureChart = ({ weatherData, temperatureUnit, location, start
     ctx.textAlign = 'center';
     ctx.fillText('Temperature', rect.width / 2, CHART_TITLE_Y_POSITION);
 
-  }, [weatherData, temperatureUnit, location, startDate, isDarkMode]);
+    // Draw legend for overlaid series
+    if (isComparison) {
+      ctx.font = '11px sans-serif';
+      ctx.textAlign = 'left';
+      let legendX = padding;
+      lines.forEach((line) => {
+        ctx.fillStyle = line.color;
+        ctx.fillRect(legendX, LEGEND_Y_POSITION - LEGEND_SQUARE_SIZE, LEGEND_SQUARE_SIZE, LEGEND_SQUARE_SIZE);
+        ctx.fillStyle = textColor;
+        ctx.fillText(line.label, legendX + LEGEND_SQUARE_SIZE + 4, LEGEND_Y_POSITION);
+        legendX += LEGEND_SQUARE_SIZE + 4 + ctx.measureText(line.label).width + LEGEND_ITEM_SPACING;
+      });
+    }
+
+  }, [weatherData, units, location, startDate, endDate, isDarkMode, series, isComparison]);
 
   // Data guard for empty localData
   const effectiveStartDate = startDate || getCurrentDateString();
+  const effectiveEndDate = endDate || effectiveStartDate;
   const emptyHourly = {
     time: [],
     temperature_2m: [],
@@ -188,7 +241,7 @@ export const TemperatureChart = ({ weatherData, temperatureUnit, location, start
     cloudcover: [],
   } as unknown as HourlyWeatherData;
   const hourlyData = weatherData?.hourly || emptyHourly;
-  const localData = getLocalDayHours(hourlyData, location || {
+  const localData = getLocalRangeHours(hourlyData, location || {
     id: 0,
     name: 'Unknown Location',
     latitude: 0,
@@ -198,7 +251,7 @@ export const TemperatureChart = ({ weatherData, temperatureUnit, location, start
     country_code: 'XX',
     timezone: 'UTC',
     country: 'Unknown'
-  } as Location, effectiveStartDate);
+  } as Location, effectiveStartDate, effectiveEndDate);
   if (isLoading) {
     return (
       <div class="chart-container">
@@ -208,12 +261,25 @@ export const TemperatureChart = ({ weatherData, temperatureUnit, location, start
     );
   }
 
+  if (isComparison) {
+    return (
+      <div class="chart-container">
+        <h4>Temperature</h4>
+        <canvas
+          ref={canvasRef}
+          style={{ width: '100%', height: '150px' }}
+          aria-label={`Temperature comparison: ${series.map((item) => item.label).join(', ')}`}
+        />
+      </div>
+    );
+  }
+
   if (localData.temps.length === 0 && weatherData && location) {
     return (
       <div class="chart-container">
         <h4>Temperature</h4>
         <div class="chart-placeholder">
-          <p>No temperature data available for the selected date and location. Try a different historical date from 1940 onwards.</p>
+          <p>No temperature data available for the selected dates and location. Try a different historical date from 1940 onwards.</p>
         </div>
       </div>
     );
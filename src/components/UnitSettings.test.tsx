@@ -0,0 +1,27 @@
+import { h } from 'preact';
+
+import { render, fireEvent } from '@testing-library/preact';
+
+import '@testing-library/jest-dom';
+import { METRIC_UNITS } from '../utils/units';
+
+import { UnitSettings } from './UnitSettings';
+
+describe('UnitSettings', () => {
+  it('shows the current units', () => {
+    const { getByLabelText } = render(<UnitSettings units={{ ...METRIC_UNITS, windSpeed: 'kn' }} onChange={jest.fn()} />);
+
+    expect(getByLabelText('Temperature unit')).toHaveValue('C');
+    expect(getByLabelText('Wind speed unit')).toHaveValue('kn');
+    expect(getByLabelText('Precipitation unit')).toHaveValue('mm');
+    expect(getByLabelText('Pressure unit')).toHaveValue('hPa');
+  });
+
+  it('reports the updated preferences', () => {
+    const onChange = jest.fn();
+    const { getByLabelText } = render(<UnitSettings units={METRIC_UNITS} onChange={onChange} />);
+
+    fireEvent.change(getByLabelText('Precipitation unit'), { target: { value: 'in' } });
+    expect(onChange).toHaveBeenCalledWith({ ...METRIC_UNITS, precipitation: 'in' });
+  });
+});
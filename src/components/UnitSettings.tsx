@@ -0,0 +1,38 @@
+import { h } from 'preact';
+
+import type { JSX } from 'preact/jsx-runtime';
+
+import { UnitPreferences } from '../types.js';
+import { UNIT_CHOICES, getUnitLabel, UnitQuantity } from '../utils/units';
+
+interface UnitSettingsProps {
+  units: UnitPreferences;
+  onChange: (units: UnitPreferences) => void;
+}
+
+const PICKERS: { key: keyof UnitPreferences; quantity: UnitQuantity; label: string }[] = [
+  { key: 'temperature', quantity: 'temperature', label: 'Temperature unit' },
+  { key: 'windSpeed', quantity: 'windSpeed', label: 'Wind speed unit' },
+  { key: 'precipitation', quantity: 'precipitation', label: 'Precipitation unit' },
+  { key: 'pressure', quantity: 'pressure', label: 'Pressure unit' },
+];
+
+export const UnitSettings = ({ units, onChange }: UnitSettingsProps): JSX.Element => {
+  return (
+    <div class="unit-settings" role="group" aria-label="Display units">
+      {PICKERS.map(({ key, quantity, label }) => (
+        <select
+          key={key}
+          class="export-select"
+          value={units[key]}
+          onChange={(e: Event) => onChange({ ...units, [key]: (e.target as HTMLSelectElement).value })}
+          aria-label={label}
+        >
+          {UNIT_CHOICES[key].map((choice) => (
+            <option key={choice} value={choice}>{getUnitLabel(quantity, { ...units, [key]: choice })}</option>
+          ))}
+        </select>
+      ))}
+    </div>
+  );
+};
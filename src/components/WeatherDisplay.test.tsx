@@ -1,8 +1,10 @@
 import { h } from 'preact';
 
-import { render } from '@testing-library/preact';
+import { render, fireEvent } from '@testing-library/preact';
 
 import '@testing-library/jest-dom';
+import { METRIC_UNITS } from '../utils/units';
+
 import { WeatherDisplay } from './WeatherDisplay';
 
 describe('WeatherDisplay', () => {
@@ -77,7 +79,7 @@ describe('WeatherDisplay', () => {
       <WeatherDisplay
         weatherData={mockWeatherData}
         location={mockLocation}
-        temperatureUnit="C"
+        units={METRIC_UNITS}
       />
     );
     expect(container).toBeInTheDocument();
@@ -88,18 +90,38 @@ describe('WeatherDisplay', () => {
       <WeatherDisplay
         weatherData={mockWeatherData}
         location={mockLocation}
-        temperatureUnit="C"
+        units={METRIC_UNITS}
       />
     );
     expect(getByText('New York, United States')).toBeInTheDocument();
   });
 
+  it('shows the grid cell the weather was resolved to', () => {
+    const { getByText, queryByText, rerender } = render(
+      <WeatherDisplay
+        weatherData={mockWeatherData}
+        location={mockLocation}
+        units={METRIC_UNITS}
+      />
+    );
+    expect(queryByText(/Grid cell/)).not.toBeInTheDocument();
+
+    rerender(
+      <WeatherDisplay
+        weatherData={{ ...mockWeatherData, grid: { latitude: 40.7, longitude: -74.0, elevation: 51.4 } }}
+        location={mockLocation}
+        units={METRIC_UNITS}
+      />
+    );
+    expect(getByText('Grid cell 40.70, -74.00 · 51 m')).toBeInTheDocument();
+  });
+
   it('displays daily weather summary', () => {
     const { getByText, getAllByText } = render(
       <WeatherDisplay
         weatherData={mockWeatherData}
         location={mockLocation}
-        temperatureUnit="C"
+        units={METRIC_UNITS}
       />
     );
     
@@ -120,7 +142,7 @@ describe('WeatherDisplay', () => {
       <WeatherDisplay
         weatherData={mockWeatherData}
         location={mockLocation}
-        temperatureUnit="C"
+        units={METRIC_UNITS}
       />
     );
 
@@ -136,12 +158,85 @@ describe('WeatherDisplay', () => {
     expect(precipElements.length).toBeGreaterThan(0);
   });
 
+  it('shows the mean and range of hourly humidity for each local day', () => {
+    const { getByTitle, getAllByText } = render(
+      <WeatherDisplay
+        weatherData={mockWeatherData}
+        location={mockLocation}
+        units={METRIC_UNITS}
+      />
+    );
+
+    expect(getByTitle('Mean 65%, range 60–70%')).toHaveTextContent('65% (60–70%)');
+    // No hourly humidity falls on the second day
+    expect(getAllByText('–').length).toBeGreaterThan(0);
+  });
+
+  it('adds a snowfall line only on days with snow', () => {
+    const snowyWeatherData = {
+      ...mockWeatherData,
+      daily: { ...mockWeatherData.daily, snowfall_sum: [0, 5.08] },
+    };
+    const { getAllByText, getByText, rerender } = render(
+      <WeatherDisplay
+        weatherData={snowyWeatherData}
+        location={mockLocation}
+        units={METRIC_UNITS}
+      />
+    );
+
+    expect(getAllByText('Precip')).toHaveLength(2);
+    expect(getAllByText('Snow')).toHaveLength(1);
+    expect(getByText('5.1 cm')).toBeInTheDocument();
+
+    rerender(
+      <WeatherDisplay
+        weatherData={snowyWeatherData}
+        location={mockLocation}
+        units={{ ...METRIC_UNITS, precipitation: 'in' }}
+      />
+    );
+    expect(getByText('2.0 in')).toBeInTheDocument();
+  });
+
+  it('shows wind and precipitation in the preferred units', () => {
+    const { getByText } = render(
+      <WeatherDisplay
+        weatherData={mockWeatherData}
+        location={mockLocation}
+        units={{ ...METRIC_UNITS, windSpeed: 'mph', precipitation: 'in' }}
+      />
+    );
+
+    // 12 km/h is 7.5 mph and 5 mm is 0.2 in
+    expect(getByText('7 mph')).toBeInTheDocument();
+    expect(getByText('0.2in')).toBeInTheDocument();
+  });
+
+  it('reports unit changes from the unit pickers', () => {
+    const onUnitsChange = jest.fn();
+    const { getByLabelText } = render(
+      <WeatherDisplay
+        weatherData={mockWeatherData}
+        location={mockLocation}
+        units={METRIC_UNITS}
+        onUnitsChange={onUnitsChange}
+      />
+    );
+
+    fireEvent.change(getByLabelText('Temperature unit'), { target: { value: 'F' } });
+    expect(onUnitsChange).toHaveBeenLastCalledWith({ ...METRIC_UNITS, temperature: 'F' });
+
+    fireEvent.change(getByLabelText('Pressure unit'), { target: { value: 'inHg' } });
+    expect(onUnitsChange).toHaveBeenLastCalledWith({ ...METRIC_UNITS, pressure: 'inHg' });
+  });
+
   it('converts temperatures to Fahrenheit when selected', () => {
     const { getAllByText, container } = render(
       <WeatherDisplay
         weatherData={mockWeatherData}
         location={mockLocation}
-        temperatureUnit="F"
+        units={{ ...METRIC_UNITS, temperature: 'F' }}
       />
     );
     
@@ -164,7 +259,7 @@ describe('WeatherDisplay', () => {
       <WeatherDisplay
         weatherData={null}
         location={null}
-        temperatureUnit="C"
+        units={METRIC_UNITS}
       />
     );
     expect(getByText('Select a location and date range to view weather data')).toBeInTheDocument();
@@ -175,10 +270,64 @@ describe('WeatherDisplay', () => {
       <WeatherDisplay
         weatherData={null}
         location={null}
-        temperatureUnit="C"
+        units={METRIC_UNITS}
         error="Failed to fetch weather data"
       />
     );
     expect(getByText('Failed to fetch weather data')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+  it('compares the day with the climatological normal', () => {
+    const climatology = {
+      month: 6,
+      day: 15,
+      years: 4,
+      startYear: 2019,
+      endYear: 2022,
+      samples: [19, 20, 21, 22].map((max, i) => ({
+        year: 2019 + i,
+        date: `${2019 + i}-06-15`,
+        temperature_2m_max: max,
+        temperature_2m_min: 10,
+        precipitation_sum: 0
+      })),
+      stats: {
+        temperature_2m_max: {
+          count: 4,
+          mean: 20.5,
+          median: 20.5,
+          percentiles: { p10: 19.3, p25: 19.75, p75: 21.25, p90: 21.7 },
+          recordHigh: { value: 22, year: 2022 },
+          recordLow: { value: 19, year: 2019 }
+        }
+      }
+    };
+
+    const { getByText } = render(
+      <WeatherDisplay
+        weatherData={mockWeatherData}
+        climatology={climatology}
+        location={mockLocation}
+        units={METRIC_UNITS}
+      />
+    );
+    // 25°C high vs. a 20.5°C mean rounds to +5°C (4.5 rounds up)
+    expect(getByText('+5°C above the 4-year mean, 100th percentile')).toBeInTheDocument();
+  });
+
+  it('exports the selected dataset', () => {
+    const onExport = jest.fn();
+    const { getByLabelText, getByText } = render(
+      <WeatherDisplay
+        weatherData={mockWeatherData}
+        location={mockLocation}
+        units={METRIC_UNITS}
+        onExport={onExport}
+      />
+    );
+
+    fireEvent.change(getByLabelText('Data to export'), { target: { value: 'hourly' } });
+    fireEvent.click(getByText('Export'));
+
+    expect(onExport).toHaveBeenCalledWith('hourly');
+  });
+});
@@ -1,23 +1,42 @@
 import { h } from 'preact';
 
 import type { JSX } from 'preact/jsx-runtime';
+import { useMemo, useState } from 'preact/hooks';
 
-import { DailyWeatherData, HourlyWeatherData } from '../open-meteo.js';
-import { Location } from '../types.js';
-import { formatLocalTime } from '../utils/weatherUtils';
+import { DailyWeatherData, GridCell, HourlyWeatherData } from '../open-meteo.js';
+import { Location, ClimatologyResponse, ClimatologyVariable, UnitPreferences } from '../types.js';
+import { formatLocalTime, getValueStats, groupHourlyIndicesByLocalDay } from '../utils/weatherUtils';
 import { parseDateString } from '../utils/dateUtils';
+import { compareToNormal, formatOrdinal } from '../utils/climatology';
+import { convertValue, formatValue, formatWithUnit, getUnitLabel } from '../utils/units';
+import type { WeatherExportDataset } from '../utils/weatherExport';
+
+import { UnitSettings } from './UnitSettings';
 
 interface WeatherDisplayProps {
-  weatherData?: { daily: DailyWeatherData; hourly: HourlyWeatherData } | null;
+  weatherData?: { daily: DailyWeatherData; hourly: HourlyWeatherData; grid?: GridCell } | null;
+  climatology?: ClimatologyResponse | null;
   location?: Location | null;
-  temperatureUnit: 'C' | 'F';
-  onTemperatureUnitChange?: (unit: 'C' | 'F') => void;
+  units: UnitPreferences;
+  onUnitsChange?: (units: UnitPreferences) => void;
+  onExport?: (dataset: WeatherExportDataset) => void;
   error?: string;
   isLoading?: boolean;
 }
 
+const toDateKey = (time: Date | string): string => (typeof time === 'string' ? time.slice(0, 10) : time.toISOString().slice(0, 10));
+
+export const WeatherDisplay = ({ weatherData, climatology, location, units, onUnitsChange, onExport, error, isLoading = false }: WeatherDisplayProps): JSX.Element => {
+  const [exportDataset, setExportDataset] = useState<WeatherExportDataset>('daily');
+  // Hours of each local day, grouped once rather than filtering every hour for every day card
+  const hourlyIndicesByDay = useMemo(() => {
+    if (!weatherData?.hourly || !location) {
+      return new Map<string, number[]>();
+    }
+    const dateKeys = (weatherData.daily?.time ?? []).map((time: Date | string) => toDateKey(time));
+    return groupHourlyIndicesByLocalDay(weatherData.hourly, location, dateKeys);
+  }, [weatherData, location]);
 
-export const WeatherDisplay = ({ weatherData, location, temperatureUnit, onTemperatureUnitChange, error, isLoading = false }: WeatherDisplayProps): JSX.Element => {
   if (error != null) {
     return (
       <div class="weather-info">
@@ -71,22 +90,17 @@ export const WeatherDisplay = ({ weatherData, location, temperatureUnit, onTempe
 
   const precipitationFormatter = new Intl.NumberFormat('en-US', {
     minimumFractionDigits: 0,
-    maximumFractionDigits: 1
+    maximumFractionDigits: units.precipitation === 'in' ? 2 : 1
   });
 
-  const convertTemperature = (temp: number): number => {
-    if (temperatureUnit === 'F') {
-      return (temp * 9/5) + 32;
-    }
-    return temp;
-  };
+  const convertTemperature = (temp: number): number => convertValue(temp, 'temperature', units);
 
   const formatTemperature = (temp: number): string => {
     return temperatureFormatter.format(Math.round(convertTemperature(temp)));
   };
 
   const formatPrecipitation = (precip: number): string => {
-    return precipitationFormatter.format(precip);
+    return precipitationFormatter.format(convertValue(precip, 'precipitation', units));
   };
 
   const formatTime = (time: string, timezone: string): string => {
@@ -103,6 +117,26 @@ export const WeatherDisplay = ({ weatherData, location, temperatureUnit, onTempe
     });
   };
 
+  // Describes how a value compares to the climatology, e.g. "+6°F above the 30-year mean, 92nd percentile"
+  const formatNormalComparison = (date: Date, variable: ClimatologyVariable, value: number): string | null => {
+    if (!climatology || climatology.month !== date.getUTCMonth() + 1 || climatology.day !== date.getUTCDate()) {
+      return null;
+    }
+    const comparison = compareToNormal(climatology, variable, value);
+    if (!comparison) {
+      return null;
+    }
+
+    const quantity = variable === 'precipitation_sum' ? 'precipitation' : 'temperatureDifference';
+    const unit = getUnitLabel(quantity, units);
+    const rounded = Number(formatValue(comparison.anomaly, quantity, units));
+    const span = `${climatology.years}-year mean`;
+    const position = rounded === 0
+      ? `At the ${span}`
+      : `${rounded > 0 ? '+' : ''}${rounded}${unit} ${rounded > 0 ? 'above' : 'below'} the ${span}`;
+    return `${position}, ${formatOrdinal(comparison.percentile)} percentile`;
+  };
+
   const getWeatherIcon = (code: number): string => {
     const icons: { [key: number]: string } = {
       0: 'Clear', 1: 'Mainly Clear', 2: 'Partly Cloudy', 3: 'Overcast',
@@ -156,25 +190,33 @@ export const WeatherDisplay = ({ weatherData, location, temperatureUnit, onTempe
       <div class="weather-header">
         <div class="location-name">
           {location?.name ?? 'Unknown'}, {location?.country ?? ''}
+          {weatherData.grid && (
+            <div class="grid-cell" title="Weather comes from the model grid cell nearest to this location">
+              Grid cell {weatherData.grid.latitude.toFixed(2)}, {weatherData.grid.longitude.toFixed(2)} · {Math.round(weatherData.grid.elevation)} m
+            </div>
+          )}
         </div>
-        <div class="temp-toggle">
-          <button
-            class={`temp-btn ${temperatureUnit === 'C' ? 'active' : ''}`}
-            onClick={() => onTemperatureUnitChange?.('C')}
-            aria-label="Switch to Celsius"
-            aria-pressed={temperatureUnit === 'C'}
-          >
-            °C
-          </button>
-          <button
-            class={`temp-btn ${temperatureUnit === 'F' ? 'active' : ''}`}
-            onClick={() => onTemperatureUnitChange?.('F')}
-            aria-label="Switch to Fahrenheit"
-            aria-pressed={temperatureUnit === 'F'}
-          >
-            °F
-          </button>
-        </div>
+        {onUnitsChange && <UnitSettings units={units} onChange={onUnitsChange} />}
+        {onExport && (
+          <div class="export-controls">
+            <select
+              class="export-select"
+              value={exportDataset}
+              onChange={(e: Event) => setExportDataset((e.target as HTMLSelectElement).value as WeatherExportDataset)}
+              aria-label="Data to export"
+            >
+              <option value="daily">Daily</option>
+              <option value="hourly">Hourly</option>
+            </select>
+            <button
+              class="temp-btn export-btn"
+              onClick={() => onExport(exportDataset)}
+              aria-label={`Export ${exportDataset} data as CSV`}
+            >
+              Export
+            </button>
+          </div>
+        )}
       </div>
   
       {/* Daily Weather Summary */}
@@ -190,10 +232,15 @@ export const WeatherDisplay = ({ weatherData, location, temperatureUnit, onTempe
             const maxTempFormatted = formatTemperature(maxTemp);
             const minTempFormatted = formatTemperature(minTemp);
             const precip = weatherData.daily.precipitation_sum?.[index] ?? 0;
+            const snowfall = weatherData.daily.snowfall_sum?.[index] ?? 0;
             const windSpeed = weatherData.daily.windspeed_10m_max?.[index] ?? 0;
-            const humidity = weatherData.daily.precipitation_hours?.[index] ?? 0; // Using precipitation_hours as humidity proxy
+            // Humidity over the hours of this local day
+            const humidity = getValueStats((hourlyIndicesByDay.get(toDateKey(time)) ?? [])
+              .map((i) => weatherData.hourly.relativehumidity_2m?.[i] ?? null));
             const sunrise = weatherData.daily.sunrise?.[index];
             const sunset = weatherData.daily.sunset?.[index];
+            const maxTempVsNormal = formatNormalComparison(date, 'temperature_2m_max', maxTemp);
+            const precipVsNormal = formatNormalComparison(date, 'precipitation_sum', precip);
             
             // Determine temperature color based on max temp
             const getTempColor = (temp: number) => {
@@ -238,19 +285,53 @@ export const WeatherDisplay = ({ weatherData, location, temperatureUnit, onTempe
                 {/* Horizontal Weather Details */}
                 <div class="weather-details">
                   <div class="detail-item precip">
-                    <span class="detail-icon">Rain</span>
-                    <span class="detail-value">{formatPrecipitation(precip)}mm</span>
+                    <span class="detail-icon">Precip</span>
+                    <span class="detail-value">{formatPrecipitation(precip)}{getUnitLabel('precipitation', units)}</span>
                   </div>
+                  {snowfall > 0 && (
+                    <div class="detail-item snow">
+                      <span class="detail-icon">Snow</span>
+                      <span class="detail-value">{formatWithUnit(snowfall, 'snowfall', units)}</span>
+                    </div>
+                  )}
                   <div class="detail-item wind">
                     <span class="detail-icon">Wind</span>
-                    <span class="detail-value">{windSpeed.toFixed(0)} km/h</span>
+                    <span class="detail-value">{formatWithUnit(windSpeed, 'windSpeed', units)}</span>
                   </div>
                   <div class="detail-item humidity">
                     <span class="detail-icon">Humidity</span>
-                    <span class="detail-value">{humidity.toFixed(0)}%</span>
+                    {humidity ? (
+                      <span
+                        class="detail-value"
+                        title={`Mean ${Math.round(humidity.mean)}%, range ${Math.round(humidity.min)}–${Math.round(humidity.max)}%`}
+                      >
+                        {Math.round(humidity.mean)}%
+                        <span class="detail-range"> ({Math.round(humidity.min)}–{Math.round(humidity.max)}%)</span>
+                      </span>
+                    ) : (
+                      <span class="detail-value">–</span>
+                    )}
                   </div>
                 </div>
                 
+                {/* Comparison with the climatological normal */}
+                {(maxTempVsNormal || precipVsNormal) && (
+                  <div class="normal-comparison" aria-label="Comparison with normal">
+                    {maxTempVsNormal && (
+                      <div class="normal-item">
+                        <span class="detail-icon">High vs. normal</span>
+                        <span class="detail-value">{maxTempVsNormal}</span>
+                      </div>
+                    )}
+                    {precipVsNormal && (
+                      <div class="normal-item">
+                        <span class="detail-icon">Precip vs. normal</span>
+                        <span class="detail-value">{precipVsNormal}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Horizontal Sun Times */}
                 <div class="sun-times">
                   {sunrise && (
@@ -0,0 +1,106 @@
+import { h } from 'preact';
+
+import { render } from '@testing-library/preact';
+
+import '@testing-library/jest-dom';
+import { METRIC_UNITS } from '../utils/units';
+
+import { WindChart } from './WindChart';
+
+// Mock canvas API
+const mockContext = {
+  clearRect: jest.fn(),
+  fillRect: jest.fn(),
+  beginPath: jest.fn(),
+  closePath: jest.fn(),
+  moveTo: jest.fn(),
+  lineTo: jest.fn(),
+  stroke: jest.fn(),
+  fill: jest.fn(),
+  arc: jest.fn(),
+  measureText: jest.fn().mockReturnValue({ width: 10 }),
+  fillText: jest.fn(),
+  scale: jest.fn()
+};
+HTMLCanvasElement.prototype.getContext = jest.fn().mockReturnValue(mockContext);
+
+HTMLCanvasElement.prototype.getBoundingClientRect = jest.fn().mockReturnValue({
+  width: 400,
+  height: 200,
+  top: 0,
+  left: 0,
+  bottom: 200,
+  right: 400,
+});
+
+describe('WindChart', () => {
+  const mockLocation = {
+    id: 1,
+    name: 'New York',
+    latitude: 40.7128,
+    longitude: -74.0060,
+    elevation: 0,
+    feature_code: 'PPL',
+    country_code: 'US',
+    timezone: 'America/New_York',
+    country: 'United States'
+  };
+
+  const mockWeatherData = {
+    daily: {
+      time: [new Date('2023-06-15')],
+      windgusts_10m_max: [42.4],
+      winddirection_10m_dominant: [225]
+    },
+    hourly: {
+      time: [
+        new Date('2023-06-15T16:00:00'),
+        new Date('2023-06-15T17:00:00'),
+        new Date('2023-06-15T18:00:00')
+      ],
+      windspeed_10m: [12, 15, 0.5],
+      winddirection_10m: [225, 230, 90],
+      windgusts_10m: [30, 42, 5]
+    }
+  } as unknown as Parameters<typeof WindChart>[0]['weatherData'];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('summarizes the prevailing direction and peak gust', () => {
+    const { getByText, getByLabelText } = render(
+      <WindChart weatherData={mockWeatherData} units={METRIC_UNITS} location={mockLocation} startDate="2023-06-15" />
+    );
+
+    expect(getByText('Mostly from SW, dominant SW, max gust 42 km/h')).toBeInTheDocument();
+    expect(getByLabelText(/^Wind rose\./)).toBeInTheDocument();
+    expect(getByText('Calm 33%')).toBeInTheDocument();
+  });
+
+  it('draws the rose sectors and the speed/gust lines', () => {
+    render(<WindChart weatherData={mockWeatherData} units={METRIC_UNITS} location={mockLocation} startDate="2023-06-15" />);
+
+    expect(mockContext.closePath).toHaveBeenCalled();
+    expect(mockContext.fillText).toHaveBeenCalledWith('N', expect.any(Number), expect.any(Number));
+    expect(mockContext.fillText).toHaveBeenCalledWith('Gusts (km/h)', expect.any(Number), expect.any(Number));
+  });
+
+  it('labels speeds in the preferred unit', () => {
+    const { getByText, getByLabelText } = render(
+      <WindChart weatherData={mockWeatherData} units={{ ...METRIC_UNITS, windSpeed: 'kn' }} location={mockLocation} startDate="2023-06-15" />
+    );
+
+    // 42 km/h is 22.7 knots
+    expect(getByText('Mostly from SW, dominant SW, max gust 23 kn')).toBeInTheDocument();
+    expect(getByLabelText('Wind speed classes (kn)')).toHaveTextContent('<5');
+  });
+
+  it('shows a placeholder when the range has no wind data', () => {
+    const { getByText } = render(
+      <WindChart weatherData={mockWeatherData} units={METRIC_UNITS} location={mockLocation} startDate="2023-07-01" />
+    );
+
+    expect(getByText('No wind data available for the selected dates and location.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,292 @@
+import { h } from 'preact';
+
+import type { JSX } from 'preact/jsx-runtime';
+import { useEffect, useRef, useState } from 'preact/hooks';
+
+import { DailyWeatherData, HourlyWeatherData } from '../open-meteo.js';
+import { Location, UnitPreferences } from '../types.js';
+import { getLocalRangeWind, formatLocalTime, formatLocalDate, getHourLabelStep } from '../utils/weatherUtils';
+import { buildWindRose, getCompassDirection, getPrevailingSector, getSpeedClassLabels } from '../utils/windRose';
+import { getCurrentDateString } from '../utils/dateUtils';
+import { formatValue, formatWithUnit, getUnitLabel } from '../utils/units';
+import { WIND_ROSE, WIND_SPEED_COLORS } from '../constants';
+
+interface WindChartProps {
+  weatherData?: { daily: DailyWeatherData; hourly: HourlyWeatherData } | null;
+  units: UnitPreferences;
+  location?: Location | null;
+  startDate?: string;
+  endDate?: string;
+  isLoading?: boolean;
+}
+
+// Daily times arrive as YYYY-MM-DD strings from JSON, or Date objects in tests
+const toDateKey = (time: Date | string): string =>
+  typeof time === 'string' ? time.slice(0, 10) : time.toISOString().slice(0, 10);
+
+export const WindChart = ({ weatherData, units, location, startDate, endDate, isLoading = false }: WindChartProps): JSX.Element => {
+  const roseCanvasRef = useRef<HTMLCanvasElement>(null);
+  const lineCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [isDarkMode, setIsDarkMode] = useState(false);
+
+  // Detect dark mode changes
+  useEffect(() => {
+    const checkDarkMode = () => {
+      setIsDarkMode(document.body.classList.contains('dark-mode'));
+    };
+
+    checkDarkMode();
+    const observer = new MutationObserver(checkDarkMode);
+    observer.observe(document.body, { attributes: true, attributeFilter: ['class'] });
+
+    return () => observer.disconnect();
+  }, []);
+
+  // Chart rendering constants
+  const CHART_PADDING = 40;
+  const ROSE_PADDING = 24;
+  const ROSE_RINGS = 4;
+  const SECTOR_FILL_RATIO = 0.9; // Leave a gap between neighbouring sectors
+  const LEGEND_SQUARE_SIZE = 10;
+  const LEGEND_ITEM_SPACING = 12;
+  const LEGEND_Y_POSITION = 28;
+
+  const effectiveStartDate = startDate || getCurrentDateString();
+  const effectiveEndDate = endDate || effectiveStartDate;
+  const isMultiDay = effectiveStartDate !== effectiveEndDate;
+
+  const wind = weatherData && location
+    ? getLocalRangeWind(weatherData.hourly, location, effectiveStartDate, effectiveEndDate)
+    : { times: [], speeds: [], directions: [], gusts: [] };
+  const rose = buildWindRose(wind.directions, wind.speeds);
+  const speedLabel = getUnitLabel('windSpeed', units);
+  const prevailing = getPrevailingSector(rose);
+
+  // Daily dominant direction and peak gust over the selected days
+  const dailyIndices = (weatherData?.daily?.time ?? [])
+    .map((time: Date | string, index: number) => ({ key: toDateKey(time), index }))
+    .filter(({ key }) => key >= effectiveStartDate && key <= effectiveEndDate)
+    .map(({ index }) => index);
+  const dailyGusts = dailyIndices
+    .map((index) => weatherData?.daily.windgusts_10m_max?.[index])
+    .filter((gust): gust is number => typeof gust === 'number' && Number.isFinite(gust));
+  const maxGust = dailyGusts.length > 0 ? Math.max(...dailyGusts) : null;
+  const dominantDirection = dailyIndices.length === 1
+    ? weatherData?.daily.winddirection_10m_dominant?.[dailyIndices[0]]
+    : undefined;
+
+  useEffect(() => {
+    const roseCanvas = roseCanvasRef.current;
+    const lineCanvas = lineCanvasRef.current;
+    if (!roseCanvas || !lineCanvas || rose.sampleCount === 0 || !location) {
+      return;
+    }
+
+    const textColor = isDarkMode ? '#f3f4f6' : '#333';
+    const textColorLight = isDarkMode ? '#9ca3af' : '#666';
+    const gridColor = isDarkMode ? '#6b7280' : '#e0e0e0';
+    const bgColor = isDarkMode ? '#1f2937' : '#f8f9fa';
+    const speedColor = isDarkMode ? '#3b82f6' : '#4dabf7';
+    const gustColor = isDarkMode ? '#f59e0b' : '#f59f00';
+    const classColors = isDarkMode ? WIND_SPEED_COLORS.DARK : WIND_SPEED_COLORS.LIGHT;
+
+    // Wind rose
+    const roseCtx = roseCanvas.getContext('2d');
+    if (roseCtx) {
+      const rect = roseCanvas.getBoundingClientRect();
+      roseCanvas.width = rect.width * window.devicePixelRatio;
+      roseCanvas.height = rect.height * window.devicePixelRatio;
+      roseCtx.scale(window.devicePixelRatio, window.devicePixelRatio);
+      roseCtx.clearRect(0, 0, rect.width, rect.height);
+
+      const cx = rect.width / 2;
+      const cy = rect.height / 2;
+      const radius = Math.min(rect.width, rect.height) / 2 - ROSE_PADDING;
+      const maxTotal = Math.max(...rose.sectors.map((sector) => sector.total)) || 1;
+
+      // Frequency rings
+      roseCtx.strokeStyle = gridColor;
+      roseCtx.lineWidth = 1;
+      for (let ring = 1; ring <= ROSE_RINGS; ring++) {
+        roseCtx.beginPath();
+        roseCtx.arc(cx, cy, (radius / ROSE_RINGS) * ring, 0, 2 * Math.PI);
+        roseCtx.stroke();
+      }
+
+      // Sectors, stacked from the slowest speed class outwards
+      const halfWidth = ((Math.PI * 2) / rose.sectors.length / 2) * SECTOR_FILL_RATIO;
+      rose.sectors.forEach((sector) => {
+        // Canvas angles start at east and run clockwise; compass bearings start at north
+        const angle = ((sector.direction - 90) * Math.PI) / 180;
+        let cumulative = 0;
+        sector.frequencies.forEach((frequency, classIndex) => {
+          if (frequency === 0) return;
+          const inner = (cumulative / maxTotal) * radius;
+          cumulative += frequency;
+          const outer = (cumulative / maxTotal) * radius;
+          roseCtx.fillStyle = classColors[classIndex];
+          roseCtx.beginPath();
+          roseCtx.arc(cx, cy, outer, angle - halfWidth, angle + halfWidth);
+          roseCtx.arc(cx, cy, inner, angle + halfWidth, angle - halfWidth, true);
+          roseCtx.closePath();
+          roseCtx.fill();
+        });
+      });
+
+      // Cardinal labels
+      roseCtx.fillStyle = textColor;
+      roseCtx.font = '12px sans-serif';
+      roseCtx.textAlign = 'center';
+      roseCtx.fillText('N', cx, cy - radius - 8);
+      roseCtx.fillText('S', cx, cy + radius + 16);
+      roseCtx.fillText('E', cx + radius + 12, cy + 4);
+      roseCtx.fillText('W', cx - radius - 12, cy + 4);
+    }
+
+    // Speed and gust time series
+    const lineCtx = lineCanvas.getContext('2d');
+    if (lineCtx) {
+      const rect = lineCanvas.getBoundingClientRect();
+      lineCanvas.width = rect.width * window.devicePixelRatio;
+      lineCanvas.height = rect.height * window.devicePixelRatio;
+      lineCtx.scale(window.devicePixelRatio, window.devicePixelRatio);
+      lineCtx.clearRect(0, 0, rect.width, rect.height);
+
+      const padding = CHART_PADDING;
+      const chartWidth = rect.width - padding * 2;
+      const chartHeight = rect.height - padding * 2;
+      const hoursToShow = wind.times.length;
+      const values = [...wind.speeds, ...wind.gusts].filter((value): value is number => typeof value === 'number');
+      const maxSpeed = Math.max(...values, 1);
+
+      lineCtx.fillStyle = bgColor;
+      lineCtx.fillRect(padding, padding, chartWidth, chartHeight);
+
+      // Horizontal grid lines and y-axis labels
+      lineCtx.strokeStyle = gridColor;
+      lineCtx.lineWidth = 1;
+      lineCtx.fillStyle = textColor;
+      lineCtx.font = '12px sans-serif';
+      lineCtx.textAlign = 'right';
+      Array.from({ length: 5 }).forEach((_, i) => {
+        const y = padding + (chartHeight / 4) * i;
+        lineCtx.beginPath();
+        lineCtx.moveTo(padding, y);
+        lineCtx.lineTo(padding + chartWidth, y);
+        lineCtx.stroke();
+        lineCtx.fillText(formatValue((maxSpeed / 4) * (4 - i), 'windSpeed', units), padding - 10, y + 4);
+      });
+
+      const drawLine = (data: (number | null)[], color: string) => {
+        lineCtx.strokeStyle = color;
+        lineCtx.lineWidth = 2;
+        lineCtx.beginPath();
+        let penDown = false;
+        data.forEach((value, index) => {
+          if (typeof value !== 'number') {
+            penDown = false; // Leave a gap for missing hours
+            return;
+          }
+          const x = padding + (chartWidth / hoursToShow) * index;
+          const y = padding + chartHeight - (value / maxSpeed) * chartHeight;
+          if (penDown) {
+            lineCtx.lineTo(x, y);
+          } else {
+            lineCtx.moveTo(x, y);
+            penDown = true;
+          }
+        });
+        lineCtx.stroke();
+      };
+      drawLine(wind.gusts, gustColor);
+      drawLine(wind.speeds, speedColor);
+
+      // X-axis labels (hours, or days for longer ranges)
+      lineCtx.fillStyle = textColorLight;
+      lineCtx.textAlign = 'center';
+      const labelStep = getHourLabelStep(hoursToShow, isMultiDay);
+      for (let i = 0; i < hoursToShow; i += labelStep) {
+        const x = padding + (chartWidth / hoursToShow) * i;
+        const label = isMultiDay
+          ? formatLocalDate(wind.times[i], location.timezone)
+          : formatLocalTime(wind.times[i], location.timezone);
+        lineCtx.fillText(label, x, rect.height - 10);
+      }
+
+      // Legend
+      lineCtx.font = '11px sans-serif';
+      lineCtx.textAlign = 'left';
+      let legendX = padding;
+      [{ label: `Speed (${speedLabel})`, color: speedColor }, { label: `Gusts (${speedLabel})`, color: gustColor }].forEach((item) => {
+        lineCtx.fillStyle = item.color;
+        lineCtx.fillRect(legendX, LEGEND_Y_POSITION - LEGEND_SQUARE_SIZE, LEGEND_SQUARE_SIZE, LEGEND_SQUARE_SIZE);
+        lineCtx.fillStyle = textColor;
+        lineCtx.fillText(item.label, legendX + LEGEND_SQUARE_SIZE + 4, LEGEND_Y_POSITION);
+        legendX += LEGEND_SQUARE_SIZE + 4 + lineCtx.measureText(item.label).width + LEGEND_ITEM_SPACING;
+      });
+    }
+  }, [weatherData, units, location, startDate, endDate, isDarkMode]);
+
+  if (isLoading || !weatherData || !location) {
+    return (
+      <div class="chart-container">
+        <h4>Wind</h4>
+        <div class="loading-text">.....</div>
+      </div>
+    );
+  }
+
+  if (rose.sampleCount === 0) {
+    return (
+      <div class="chart-container">
+        <h4>Wind</h4>
+        <div class="chart-placeholder">
+          <p>No wind data available for the selected dates and location.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const summary = [
+    prevailing ? `Mostly from ${prevailing.label}` : 'Calm',
+    typeof dominantDirection === 'number' ? `dominant ${getCompassDirection(dominantDirection)}` : null,
+    maxGust !== null ? `max gust ${formatWithUnit(maxGust, 'windSpeed', units)}` : null,
+  ].filter(Boolean).join(', ');
+
+  const classColors = isDarkMode ? WIND_SPEED_COLORS.DARK : WIND_SPEED_COLORS.LIGHT;
+  // Speed classes are binned in km/h; only their labels follow the chosen unit
+  const classLabels = getSpeedClassLabels(WIND_ROSE.SPEED_LIMITS_KMH.map((limit) => Number(formatValue(limit, 'windSpeed', units))));
+
+  return (
+    <div class="chart-container wind-chart">
+      <h4>Wind</h4>
+      <p class="wind-summary">{summary}</p>
+      <div class="wind-chart-body">
+        <figure class="wind-rose">
+          <canvas
+            ref={roseCanvasRef}
+            style={{ width: '200px', height: '200px' }}
+            aria-label={`Wind rose. ${summary}`}
+          />
+          <figcaption>
+            <ul class="wind-rose-legend" aria-label={`Wind speed classes (${speedLabel})`}>
+              {classLabels.map((label, index) => (
+                <li key={label}>
+                  <span class="wind-rose-swatch" style={{ backgroundColor: classColors[index] }} />
+                  {label}
+                </li>
+              ))}
+            </ul>
+            {rose.calmShare > 0 && <span class="wind-calm">Calm {Math.round(rose.calmShare * 100)}%</span>}
+          </figcaption>
+        </figure>
+        <canvas
+          ref={lineCanvasRef}
+          class="wind-line-chart"
+          style={{ width: '100%', height: '150px' }}
+          aria-label="Wind speed and gusts over time"
+        />
+      </div>
+    </div>
+  );
+};
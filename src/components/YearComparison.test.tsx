@@ -0,0 +1,70 @@
+import { h } from 'preact';
+
+import { render, fireEvent } from '@testing-library/preact';
+
+import '@testing-library/jest-dom';
+import { YEAR_OVER_YEAR } from '../constants';
+
+import { YearComparison } from './YearComparison';
+
+describe('YearComparison', () => {
+  const onYearsChange = jest.fn();
+
+  beforeEach(() => {
+    onYearsChange.mockClear();
+  });
+
+  it('adds a typed year', () => {
+    const { getByLabelText, getByText } = render(
+      <YearComparison baseYear={2023} selectedYears={[2020]} onYearsChange={onYearsChange} />
+    );
+
+    fireEvent.input(getByLabelText('Year to compare'), { target: { value: '2015' } });
+    fireEvent.click(getByText('Add year'));
+
+    expect(onYearsChange).toHaveBeenCalledWith([2020, 2015]);
+  });
+
+  it('rejects years outside the archive', () => {
+    const { getByLabelText, getByRole, container } = render(
+      <YearComparison baseYear={2023} selectedYears={[]} onYearsChange={onYearsChange} />
+    );
+
+    fireEvent.input(getByLabelText('Year to compare'), { target: { value: '1900' } });
+    // Submit directly; the browser's own range check would otherwise block the click
+    fireEvent.submit(container.querySelector('form')!);
+
+    expect(onYearsChange).not.toHaveBeenCalled();
+    expect(getByRole('alert')).toHaveTextContent('Enter a year between 1940 and 2023');
+  });
+
+  it('applies a "last N years" preset without the base year', () => {
+    const { getByText } = render(
+      <YearComparison baseYear={2023} selectedYears={[]} onYearsChange={onYearsChange} />
+    );
+
+    fireEvent.click(getByText('Last 5 years'));
+
+    expect(onYearsChange).toHaveBeenCalledWith([2022, 2021, 2020, 2019, 2018]);
+  });
+
+  it('leaves room for the base year in the largest preset', () => {
+    const { getByText } = render(
+      <YearComparison baseYear={2023} selectedYears={[]} onYearsChange={onYearsChange} />
+    );
+
+    fireEvent.click(getByText('Last 10 years'));
+
+    expect(onYearsChange.mock.calls[0][0]).toHaveLength(YEAR_OVER_YEAR.MAX_YEARS - 1);
+  });
+
+  it('removes a compared year', () => {
+    const { getByLabelText } = render(
+      <YearComparison baseYear={2023} selectedYears={[2020, 2015]} onYearsChange={onYearsChange} />
+    );
+
+    fireEvent.click(getByLabelText('Remove 2015'));
+
+    expect(onYearsChange).toHaveBeenCalledWith([2020]);
+  });
+});
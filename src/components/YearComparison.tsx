@@ -0,0 +1,110 @@
+import { h } from 'preact';
+
+import type { JSX } from 'preact/jsx-runtime';
+import { useState } from 'preact/hooks';
+
+import { YEAR_OVER_YEAR } from '../constants';
+
+/** First year with archive data */
+const MIN_YEAR = 1940;
+
+interface YearComparisonProps {
+  /** Year of the currently selected start date; always shown as the reference line */
+  baseYear: number;
+  selectedYears: number[];
+  onYearsChange: (years: number[]) => void;
+  loading?: boolean;
+}
+
+export const YearComparison = ({ baseYear, selectedYears, onYearsChange, loading = false }: YearComparisonProps): JSX.Element => {
+  const [yearInput, setYearInput] = useState('');
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  // The base year is drawn too, so it takes one of the available series
+  const maxExtraYears = YEAR_OVER_YEAR.MAX_YEARS - 1;
+  const isFull = selectedYears.length >= maxExtraYears;
+
+  const setYears = (years: number[]) => {
+    const unique = Array.from(new Set(years)).filter((year) => year !== baseYear);
+    onYearsChange(unique.sort((a, b) => b - a).slice(0, maxExtraYears));
+  };
+
+  const handleAddYear = (e: Event) => {
+    e.preventDefault();
+    const year = Number(yearInput);
+    if (!Number.isInteger(year) || year < MIN_YEAR || year > baseYear) {
+      setInputError(`Enter a year between ${MIN_YEAR} and ${baseYear}`);
+      return;
+    }
+    setInputError(null);
+    setYearInput('');
+    setYears([...selectedYears, year]);
+  };
+
+  const applyPreset = (count: number) => {
+    const years = Array.from({ length: Math.min(count, maxExtraYears) }, (_, i) => baseYear - 1 - i)
+      .filter((year) => year >= MIN_YEAR);
+    setYears(years);
+  };
+
+  return (
+    <div class="year-comparison" role="group" aria-label="Compare the same dates across years">
+      <h3>Compare Years</h3>
+      <form class="year-input-row" onSubmit={handleAddYear}>
+        <input
+          type="number"
+          class="year-input"
+          min={MIN_YEAR}
+          max={baseYear}
+          value={yearInput}
+          disabled={loading || isFull}
+          onInput={(e: Event) => setYearInput((e.target as HTMLInputElement).value)}
+          aria-label="Year to compare"
+          placeholder="e.g. 2010"
+        />
+        <button type="submit" class="year-add-btn" disabled={loading || isFull || !yearInput}>
+          Add year
+        </button>
+      </form>
+      {inputError && <p class="year-input-error" role="alert">{inputError}</p>}
+
+      <div class="date-presets" role="group" aria-label="Quick year ranges">
+        {YEAR_OVER_YEAR.PRESETS.map((count) => (
+          <button
+            key={count}
+            type="button"
+            class="date-preset"
+            disabled={loading}
+            onClick={() => applyPreset(count)}
+          >
+            Last {count} years
+          </button>
+        ))}
+      </div>
+
+      {selectedYears.length > 0 && (
+        <ul class="pinned-chips" aria-label="Compared years">
+          {selectedYears.map((year) => (
+            <li key={year} class="pinned-chip">
+              <span class="pinned-chip-name">{year}</span>
+              <button
+                type="button"
+                class="pinned-chip-remove"
+                onClick={() => setYears(selectedYears.filter((selected) => selected !== year))}
+                aria-label={`Remove ${year}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selectedYears.length > 0 && (
+        <button type="button" class="pinned-clear-btn" onClick={() => onYearsChange([])}>
+          Clear years
+        </button>
+      )}
+    </div>
+  );
+};
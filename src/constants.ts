@@ -18,7 +18,7 @@ export const GEO_BOUNDS = {
   MAX_LONGITUDE: 180,
 } as const;
 
-import { FallbackLocation } from './types';
+import { ChartId, FallbackLocation } from './types';
 
 /** Fallback location data when geolocation fails */
 export const FALLBACK_LOCATION: FallbackLocation = {
@@ -41,10 +41,22 @@ export const FALLBACK_LOCATION: FallbackLocation = {
 export const CACHE_TTL = {
   SEARCH: 5 * 60 * 1_000,        // 5 minutes
   WEATHER: 30 * 60 * 1_000,      // 30 minutes
-  REVERSE_GEOCODE: 30 * 60 * 1_000, // 30 minutes
+  REVERSE_GEOCODE: 30 * 24 * 60 * 60 * 1_000, // 30 days (place names rarely change; kept for offline use)
   SERVER_DEFAULT: 30 * 60 * 1_000, // 30 minutes (general server cache)
+  CLIMATOLOGY: 24 * 60 * 60 * 1_000, // 24 hours (past years never change)
+  HISTORICAL: 30 * 24 * 60 * 60 * 1_000, // 30 days (settled archive data never changes)
 } as const;
 
+/** Size limits and sweep interval for the server cache */
+export const SERVER_CACHE_LIMITS = {
+  MAX_ENTRIES: 20_000, // weather is cached per day, so about 50 location-years
+  MAX_BYTES: 256 * 1024 * 1024, // ~256 MB of JSON
+  SWEEP_INTERVAL: 10 * 60 * 1_000, // 10 minutes
+} as const;
+
+/** Days after which archive data for a date is considered final */
+export const ARCHIVE_SETTLED_AFTER_DAYS = 7;
+
 // =========================================
 // API CONFIGURATION
 // =========================================
@@ -82,6 +94,132 @@ export const RATE_LIMITS = {
   },
 } as const;
 
+// =========================================
+// WEATHER VARIABLES
+// =========================================
+
+/** Open-Meteo variables clients may request; all of them are fetched when none are chosen */
+export const WEATHER_VARIABLES = {
+  DAILY: [
+    'weathercode',
+    'temperature_2m_max',
+    'temperature_2m_min',
+    'apparent_temperature_max',
+    'apparent_temperature_min',
+    'sunrise',
+    'sunset',
+    'precipitation_sum',
+    'rain_sum',
+    'showers_sum',
+    'snowfall_sum',
+    'precipitation_hours',
+    'windspeed_10m_max',
+    'windgusts_10m_max',
+    'winddirection_10m_dominant',
+    'shortwave_radiation_sum',
+    'et0_fao_evapotranspiration',
+  ],
+  HOURLY: [
+    'temperature_2m',
+    'relativehumidity_2m',
+    'dewpoint_2m',
+    'apparent_temperature',
+    'pressure_msl',
+    'surface_pressure',
+    'precipitation',
+    'rain',
+    'snowfall',
+    'weathercode',
+    'cloudcover',
+    'cloudcover_low',
+    'cloudcover_mid',
+    'cloudcover_high',
+    'shortwave_radiation',
+    'direct_radiation',
+    'diffuse_radiation',
+    'direct_normal_irradiance',
+    'windspeed_10m',
+    'winddirection_10m',
+    'windgusts_10m',
+    'temperature_80m',
+  ],
+} as const;
+
+// =========================================
+// CLIMATOLOGY
+// =========================================
+
+/** Limits for "normal" value calculations over past years */
+export const CLIMATOLOGY = {
+  DEFAULT_YEARS: 30,
+  MAX_YEARS: 80,
+  YEARS_PER_REQUEST: 10, // Years of daily values fetched per upstream request
+} as const;
+
+// =========================================
+// COMPARISON
+// =========================================
+
+/** Limits for overlaying several series on the same charts */
+export const COMPARISON = {
+  MAX_LOCATIONS: 5,
+} as const;
+
+/** Limits for saved locations */
+export const FAVORITES = {
+  MAX_LOCATIONS: 20,
+  MAX_LABEL_LENGTH: 100, // Same as location names in links and exports
+} as const;
+
+/** Locations picked from search, newest first */
+export const RECENT_SEARCHES = {
+  MAX_ITEMS: 8,
+} as const;
+
+/** Limits for overlaying the same dates from several years */
+export const YEAR_OVER_YEAR = {
+  MAX_YEARS: 10, // Matches the number of series colors
+  FETCH_CONCURRENCY: 5, // Parallel upstream requests per batched weather query
+  PRESETS: [5, 10], // Quick "last N years" choices
+} as const;
+
+/** Wind rose binning */
+export const WIND_ROSE = {
+  SECTORS: 16, // 22.5° compass sectors
+  SPEED_LIMITS_KMH: [10, 20, 30, 40], // Upper bounds of each speed class; faster winds fall in a final class
+  CALM_KMH: 1, // Below this the direction is not meaningful
+} as const;
+
+/** Fill colors for wind rose speed classes, slowest first */
+export const WIND_SPEED_COLORS = {
+  LIGHT: ['#a5d8ff', '#4dabf7', '#1c7ed6', '#f59f00', '#e03131'],
+  DARK: ['#93c5fd', '#3b82f6', '#1d4ed8', '#f59e0b', '#ef4444'],
+} as const;
+
+/** Defaults for agricultural indices (temperatures in °C) */
+export const AGRICULTURE = {
+  DEFAULT_BASE_TEMPERATURE: 10, // Common growing degree day base for corn and many warm-season crops
+  MIN_BASE_TEMPERATURE: -10,
+  MAX_BASE_TEMPERATURE: 40,
+  CHILL_MIN_TEMPERATURE: 0, // Chill hours model: hours between 0 °C and 7.2 °C (32–45 °F)
+  CHILL_MAX_TEMPERATURE: 7.2,
+} as const;
+
+/** Rain/showers/snow breakdown settings */
+export const PRECIPITATION = {
+  SNOW_CM_PER_MM_WATER: 0.7, // Open-Meteo's snow ratio: 7 cm of snowfall is 10 mm of water
+  FREEZING_POINT_C: 0,
+} as const;
+
+/** Charts in display order; all are shown until the user hides some */
+export const CHART_IDS = ['temperature', 'precipitation', 'humidity', 'wind', 'solar', 'agriculture'] as const satisfies readonly ChartId[];
+
+/** Line/bar colors for overlaid chart series, indexed by series position */
+export const CHART_SERIES_COLORS = {
+  LIGHT: ['#ff6b6b', '#4dabf7', '#51cf66', '#fcc419', '#cc5de8', '#ff922b', '#20c997', '#845ef7', '#f06595', '#868e96'],
+  DARK: ['#ef4444', '#3b82f6', '#22c55e', '#eab308', '#a855f7', '#f97316', '#14b8a6', '#8b5cf6', '#ec4899', '#d1d5db'],
+} as const;
+
 // =========================================
 // APPLICATION VERSION
 // =========================================
@@ -13,6 +13,15 @@ if (rootElement) {
   render(h(App, {}), rootElement);
 }
 
+// Cache the app shell for offline use; skipped in development so hot reloading always gets fresh files
+if (process.env.NODE_ENV === 'production' && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error: unknown) => {
+      console.warn('Service worker registration failed:', error);
+    });
+  });
+}
+
 if ((module as unknown as { hot?: unknown }).hot) {
   (module as unknown as { hot?: { accept: (path: string, callback: () => void) => void } }).hot!.accept('./components/App', async () => {
     const { default: NextApp } = await import('./components/App');
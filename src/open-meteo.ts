@@ -2,12 +2,14 @@ import axios, { AxiosError } from 'axios';
 import axiosRetry, { exponentialDelay, isRetryableError } from 'axios-retry';
 import tzLookup from 'tz-lookup';
 
-import { APIError, wrapError } from './utils/simpleErrors';
+import { APIError, ValidationError, wrapError } from './utils/simpleErrors';
 import { validateDateRangeWithErrors, validateCoordinatesWithErrors, validateTimezoneWithErrors } from './utils/validation';
 import { validateWithZod, safeValidateWithZod } from './utils/zodValidation';
 import { getEnvVar } from './utils/env';
-import { parseAPITimeString } from './utils/dateUtils';
-import { Location } from './types';
+import { getDatesInRange, parseAPITimeString } from './utils/dateUtils';
+import { buildClimatology, getClimatologyDates } from './utils/climatology';
+import { CLIMATOLOGY, WEATHER_VARIABLES, YEAR_OVER_YEAR } from './constants';
+import { Location, ClimatologyResponse, ClimatologySample, YearOverYearEntry } from './types';
 // Import Zod schemas
 import {
   WeatherDataResponseSchema
@@ -25,11 +27,27 @@ export interface WeatherLocation {
   longitude: number;
   timezone: string;
 }
+
 /**
- * Represents daily weather data from the Open-Meteo Historical Weather API.
+ * The grid cell Open-Meteo resolved a request to, which can differ from the requested point
  */
-export interface DailyWeatherData {
-  time: Date[];
+export interface GridCell {
+  latitude: number;
+  longitude: number;
+  /** Elevation in meters */
+  elevation: number;
+}
+
+/** A daily variable that can be requested from the archive API */
+export type DailyVariable = typeof WEATHER_VARIABLES.DAILY[number];
+
+/** An hourly variable that can be requested from the archive API */
+export type HourlyVariable = typeof WEATHER_VARIABLES.HOURLY[number];
+
+/**
+ * Daily variable arrays from the Open-Meteo Historical Weather API.
+ */
+interface DailyWeatherValues {
   weathercode: number[];
   temperature_2m_max: number[];
   temperature_2m_min: number[];
@@ -50,10 +68,9 @@ export interface DailyWeatherData {
 }
 
 /**
- * Represents hourly weather data from the Open-Meteo Historical Weather API.
+ * Hourly variable arrays from the Open-Meteo Historical Weather API.
  */
-export interface HourlyWeatherData {
-  time: Date[];
+interface HourlyWeatherValues {
   temperature_2m: number[];
   relativehumidity_2m: number[];
   dewpoint_2m: number[];
@@ -78,6 +95,36 @@ export interface HourlyWeatherData {
   temperature_80m: number[];
 }
 
+/**
+ * Represents daily weather data from the Open-Meteo Historical Weather API.
+ * Only the requested variables are present; all of them by default.
+ */
+export type DailyWeatherData<K extends DailyVariable = DailyVariable> = { time: Date[] } & Pick<DailyWeatherValues, K>;
+
+/**
+ * Represents hourly weather data from the Open-Meteo Historical Weather API.
+ * Only the requested variables are present; all of them by default.
+ */
+export type HourlyWeatherData<K extends HourlyVariable = HourlyVariable> = { time: Date[] } & Pick<HourlyWeatherValues, K>;
+
+/**
+ * Weather data for an arbitrary variable selection; only the time arrays are guaranteed.
+ */
+export interface SelectedWeatherData {
+  daily: DailyWeatherData<never> & Partial<DailyWeatherValues>;
+  hourly: HourlyWeatherData<never> & Partial<HourlyWeatherValues>;
+  grid?: GridCell;
+}
+
+/**
+ * Variables to request; omitted lists default to every allowed variable,
+ * and an empty list skips that granularity entirely.
+ */
+export interface WeatherVariableSelection<D extends DailyVariable = DailyVariable, H extends HourlyVariable = HourlyVariable> {
+  daily?: readonly D[];
+  hourly?: readonly H[];
+}
+
 // Configure axios with retry logic and timeout
 const axiosInstance = axios.create({
   timeout: 10000, // 10 seconds timeout
@@ -95,15 +142,19 @@ axiosRetry(axiosInstance, {
 
 /**
  * Searches for locations using the Nominatim (OpenStreetMap) Geocoding API.
- * @param query The search query (e.g., a city name).
+ * @param query The search query (e.g., a city name), in any script.
+ * @param language Optional comma-separated language tags (e.g., "de,en") for localized result names.
  * @returns A promise that resolves to an array of matching locations.
  */
-export const searchLocations = async (query: string): Promise<Location[]> => {
+export const searchLocations = async (query: string, language?: string): Promise<Location[]> => {
   const url = new URL('https://nominatim.openstreetmap.org/search');
   url.searchParams.append('format', 'json');
   url.searchParams.append('q', query);
   url.searchParams.append('limit', '5');
   url.searchParams.append('addressdetails', '1');
+  if (language) {
+    url.searchParams.append('accept-language', language);
+  }
   const headers: Record<string, string> = {
     'User-Agent': 'WeatherHistoryViewer/1.0'
   };
@@ -125,7 +176,8 @@ export const searchLocations = async (query: string): Promise<Location[]> => {
 
         const location: Location = {
           id: parseInt(item.place_id) || Math.floor(Math.random() * 1000000),
-          name: item.display_name?.split(',')[0]?.trim() || item.display_name || 'Unknown Location',
+          // `name` is the place's own name in the requested language; display_name starts with the same
+          name: item.name?.trim() || item.display_name?.split(',')[0]?.trim() || item.display_name || 'Unknown Location',
           latitude,
           longitude,
           elevation: 0,
@@ -161,79 +213,60 @@ export const searchLocations = async (query: string): Promise<Location[]> => {
  * @param location The location to fetch weather data for.
  * @param startDate The start date of the date range (YYYY-MM-DD).
  * @param endDate The end date of the date range (YYYY-MM-DD).
+ * @param variables Optional daily and hourly variables to fetch instead of all of them.
  * @returns A promise that resolves to an object containing daily and hourly weather data.
  */
-export const getHistoricalWeather = async (
+export const getHistoricalWeather = async <D extends DailyVariable = DailyVariable, H extends HourlyVariable = HourlyVariable>(
   location: WeatherLocation,
   startDate: string,
-  endDate: string
-): Promise<{ daily: DailyWeatherData; hourly: HourlyWeatherData }> => {
+  endDate: string,
+  variables: WeatherVariableSelection<D, H> = {}
+): Promise<{ daily: DailyWeatherData<D>; hourly: HourlyWeatherData<H>; grid?: GridCell }> => {
   // Validate inputs before making API call
   validateDateRangeWithErrors(startDate, endDate);
+  return fetchArchive(location, startDate, endDate, variables);
+};
+
+/**
+ * Requests a date range from the archive API. Callers check the range: user-facing
+ * requests are limited to 365 days, while climatology spans several years of daily data.
+ */
+const fetchArchive = async <D extends DailyVariable = DailyVariable, H extends HourlyVariable = HourlyVariable>(
+  location: WeatherLocation,
+  startDate: string,
+  endDate: string,
+  variables: WeatherVariableSelection<D, H>
+): Promise<{ daily: DailyWeatherData<D>; hourly: HourlyWeatherData<H>; grid?: GridCell }> => {
   validateCoordinatesWithErrors(location.latitude, location.longitude);
   validateTimezoneWithErrors(location.timezone);
 
   // Validate the location object with Zod
   const validatedLocation = validateWithZod(WeatherLocationSchema, location, 'Invalid weather location') as { latitude: number; longitude: number; timezone: string };
 
-  const params = {
+  const dailyVariables: readonly string[] = variables.daily ?? WEATHER_VARIABLES.DAILY;
+  const hourlyVariables: readonly string[] = variables.hourly ?? WEATHER_VARIABLES.HOURLY;
+  if (dailyVariables.length === 0 && hourlyVariables.length === 0) {
+    throw new ValidationError('At least one daily or hourly variable is required', 'variables');
+  }
+
+  const params: Record<string, string | number> = {
     latitude: validatedLocation.latitude,
     longitude: validatedLocation.longitude,
     start_date: startDate,
     end_date: endDate,
-    daily: [
-      'weathercode',
-      'temperature_2m_max',
-      'temperature_2m_min',
-      'apparent_temperature_max',
-      'apparent_temperature_min',
-      'sunrise',
-      'sunset',
-      'precipitation_sum',
-      'rain_sum',
-      'showers_sum',
-      'snowfall_sum',
-      'precipitation_hours',
-      'windspeed_10m_max',
-      'windgusts_10m_max',
-      'winddirection_10m_dominant',
-      'shortwave_radiation_sum',
-      'et0_fao_evapotranspiration',
-    ].join(','),
-    hourly: [
-      'temperature_2m',
-      'relativehumidity_2m',
-      'dewpoint_2m',
-      'apparent_temperature',
-      'pressure_msl',
-      'surface_pressure',
-      'precipitation',
-      'rain',
-      'snowfall',
-      'weathercode',
-      'cloudcover',
-      'cloudcover_low',
-      'cloudcover_mid',
-      'cloudcover_high',
-      'shortwave_radiation',
-      'direct_radiation',
-      'diffuse_radiation',
-      'direct_normal_irradiance',
-      'windspeed_10m',
-      'winddirection_10m',
-      'windgusts_10m',
-      'temperature_80m',
-    ].join(','),
     timezone: validatedLocation.timezone,
   };
+  // Open-Meteo omits a granularity from the response when none of its variables are requested
+  if (dailyVariables.length > 0) {
+    params.daily = dailyVariables.join(',');
+  }
+  if (hourlyVariables.length > 0) {
+    params.hourly = hourlyVariables.join(',');
+  }
 
   const url = new URL('https://archive-api.open-meteo.com/v1/archive');
   Object.entries(params).forEach(([key, value]) => {
-    if (Array.isArray(value)) {
-      url.searchParams.append(key, value.join(','));
-    } else {
-      url.searchParams.append(key, String(value));
-    }
+    url.searchParams.append(key, String(value));
   });
   const headers: Record<string, string> = {};
   const apiKey = getEnvVar('OPEN_METEO_API_KEY');
@@ -245,9 +278,12 @@ export const getHistoricalWeather = async (
     const response = await axiosInstance.get(url.toString(), { headers });
     const {data} = response;
 
-    if (!data.daily || !data.hourly) {
+    if ((params.daily && !data.daily) || (params.hourly && !data.hourly)) {
       throw new APIError('Invalid weather response: missing daily or hourly data', response.status, data);
     }
+    // Keep the response shape stable when a granularity was not requested
+    data.daily ??= { time: [] };
+    data.hourly ??= { time: [] };
 
     if (!Array.isArray(data.daily.time) || !Array.isArray(data.hourly.time)) {
       throw new APIError('Invalid weather response: time arrays missing or invalid', response.status, data);
@@ -285,22 +321,101 @@ export const getHistoricalWeather = async (
       hourly: data.hourly
     }, 'Invalid weather data response');
 
+    const grid: GridCell | undefined = [data.latitude, data.longitude, data.elevation].every(Number.isFinite)
+      ? { latitude: data.latitude, longitude: data.longitude, elevation: data.elevation }
+      : undefined;
+
     // After processing string timestamps to Date objects, we can safely cast to the interface types
-    return validatedData as unknown as { daily: DailyWeatherData; hourly: HourlyWeatherData };
+    return { ...(validatedData as unknown as { daily: DailyWeatherData<D>; hourly: HourlyWeatherData<H> }), grid };
   } catch (error: unknown) {
     throw wrapError(error, 'Weather API request failed');
   }
 };
 
+/**
+ * Computes "normal" values for a calendar date from the same date in each past year.
+ * The daily values are fetched for whole spans of years at a time and the sampled dates picked out,
+ * so 30 years cost 3 upstream requests instead of 30.
+ * @param location The location to fetch weather data for.
+ * @param month The month of the calendar date (1-12).
+ * @param day The day of the calendar date (1-31).
+ * @param years The number of past years to sample.
+ * @returns A promise that resolves to the per-year samples and their statistics.
+ */
+export const getClimatology = async (
+  location: WeatherLocation,
+  month: number,
+  day: number,
+  years: number = CLIMATOLOGY.DEFAULT_YEARS
+): Promise<ClimatologyResponse> => {
+  const dates = getClimatologyDates(month, day, years);
+  const samples: ClimatologySample[] = [];
+
+  // One request at a time to stay polite with the upstream API
+  for (let i = 0; i < dates.length; i += CLIMATOLOGY.YEARS_PER_REQUEST) {
+    const span = dates.slice(i, i + CLIMATOLOGY.YEARS_PER_REQUEST);
+    const startDate = span[0].date;
+    const endDate = span[span.length - 1].date;
+    const { daily } = await fetchArchive(location, startDate, endDate, {
+      daily: ['temperature_2m_max', 'temperature_2m_min', 'precipitation_sum'],
+      hourly: [],
+    });
+
+    // The archive returns one value per day of the span, in order
+    const dayIndex = new Map(getDatesInRange(startDate, endDate).map((date, index) => [date, index]));
+    for (const { year, date } of span) {
+      const index = dayIndex.get(date) ?? -1;
+      samples.push({
+        year,
+        date,
+        temperature_2m_max: daily.temperature_2m_max[index] ?? null,
+        temperature_2m_min: daily.temperature_2m_min[index] ?? null,
+        precipitation_sum: daily.precipitation_sum[index] ?? null,
+      });
+    }
+  }
+
+  return buildClimatology(month, day, samples);
+};
+
+/**
+ * Fetches the same dates from several years, e.g. for a year-over-year overlay.
+ * @param location The location to fetch weather data for.
+ * @param ranges The per-year date ranges to fetch.
+ * @returns A promise that resolves to the weather for each range, in input order.
+ */
+export const getHistoricalWeatherForRanges = async (
+  location: WeatherLocation,
+  ranges: { year: number; startDate: string; endDate: string }[]
+): Promise<YearOverYearEntry[]> => {
+  const entries: YearOverYearEntry[] = [];
+
+  // Fetch in small batches to stay polite with the upstream API
+  for (let i = 0; i < ranges.length; i += YEAR_OVER_YEAR.FETCH_CONCURRENCY) {
+    const batch = ranges.slice(i, i + YEAR_OVER_YEAR.FETCH_CONCURRENCY);
+    const results = await Promise.all(batch.map(async ({ year, startDate, endDate }) => ({
+      year,
+      startDate,
+      endDate,
+      weather: await getHistoricalWeather(location, startDate, endDate),
+    })));
+    entries.push(...results);
+  }
+
+  return entries;
+};
+
 /**
  * Gets the location for a given latitude and longitude using Nominatim (OpenStreetMap) reverse geocoding.
  * @param latitude The latitude.
  * @param longitude The longitude.
+ * @param language Optional comma-separated language tags (e.g., "de,en") for a localized place name.
  * @returns A promise that resolves to a location.
  */
 export const reverseGeocode = async (
     latitude: number,
-    longitude: number
+    longitude: number,
+    language?: string
   ): Promise<Location> => {
     // Use Nominatim for reverse geocoding since Open-Meteo doesn't support it
     const url = new URL('https://nominatim.openstreetmap.org/reverse');
@@ -309,6 +424,9 @@ export const reverseGeocode = async (
     url.searchParams.append('lon', longitude.toString());
     url.searchParams.append('addressdetails', '1');
     url.searchParams.append('zoom', '10'); // Get reasonably detailed address
+    if (language) {
+      url.searchParams.append('accept-language', language);
+    }
     const headers: Record<string, string> = {
       'User-Agent': 'WeatherHistoryViewer/1.0'
     };
@@ -334,7 +452,7 @@ export const reverseGeocode = async (
       // Map Nominatim response to Location interface
       const location: Location = {
         id: parseInt(data.place_id) || Math.floor(Math.random() * 1000000), // Use place_id or generate ID
-        name: data.display_name?.split(',')[0]?.trim() || data.display_name || 'Unknown Location',
+        name: data.name?.trim() || data.display_name?.split(',')[0]?.trim() || data.display_name || 'Unknown Location',
         latitude: parseFloat(data.lat),
         longitude: parseFloat(data.lon),
         elevation: 0, // Elevation not provided by Nominatim
@@ -12,7 +12,15 @@ import {
   HourlyWeatherDataSchema,
   WeatherAPIParamsSchema
 } from '../weatherSchema';
+import {
+  WeatherAPIRequestSchema,
+  AgricultureAPIParamsSchema,
+  ReverseGeocodeAPIParamsSchema,
+  SearchAPIParamsSchema,
+  validateAPIParams
+} from '../apiSchema';
 import { validateWithZod, safeValidateWithZod, ValidationError } from '../../utils/zodValidation';
+import { AGRICULTURE, YEAR_OVER_YEAR } from '../../constants';
 
 describe('Zod Schemas', () => {
   describe('LocationSchema', () => {
@@ -110,6 +118,17 @@ describe('Zod Schemas', () => {
       const invalidQuery = { q: 'New York <script>' }; // Invalid characters
       expect(() => validateWithZod(SearchQuerySchema, invalidQuery)).toThrow(ValidationError);
     });
+
+    it('should accept place names in any script', () => {
+      for (const q of ['Zürich', 'São Paulo', '東京', 'Köln', 'Москва', "St. John's", 'Sant Adrià de Besòs']) {
+        expect(() => validateWithZod(SearchQuerySchema, { q })).not.toThrow();
+      }
+    });
+
+    it('should normalize decomposed characters to NFC', () => {
+      const decomposed = 'Zu\u0308rich';
+      expect(validateWithZod(SearchQuerySchema, { q: ` ${decomposed} ` })).toEqual({ q: 'Zürich' });
+    });
   });
 
   describe('ReverseGeocodeSchema', () => {
@@ -194,6 +213,13 @@ describe('Zod Schemas', () => {
 
       expect(() => validateWithZod(DailyWeatherDataSchema, invalidDailyData)).toThrow(ValidationError);
     });
+
+    it('should accept a subset of variables but require time', () => {
+      const subset = { time: ['2023-01-01T00:00:00Z'], temperature_2m_max: [10] };
+
+      expect(() => validateWithZod(DailyWeatherDataSchema, subset)).not.toThrow();
+      expect(() => validateWithZod(DailyWeatherDataSchema, { temperature_2m_max: [10] })).toThrow(ValidationError);
+    });
   });
 
   describe('HourlyWeatherDataSchema', () => {
@@ -260,6 +286,121 @@ describe('Zod Schemas', () => {
   });
 });
 
+describe('SearchAPIParamsSchema', () => {
+  it('accepts international queries and normalizes the language list', () => {
+    const result = validateWithZod(SearchAPIParamsSchema, { q: 'Köln', lang: 'de-DE,de;q=0.9,en;q=0.8' });
+    expect(result).toEqual({ q: 'Köln', lang: 'de-DE,de,en' });
+  });
+
+  it('leaves lang out when it has no valid language tags', () => {
+    expect(validateWithZod(SearchAPIParamsSchema, { q: 'Köln', lang: '*' })).toEqual({ q: 'Köln' });
+  });
+
+  it('rejects markup in the query', () => {
+    expect(() => validateWithZod(SearchAPIParamsSchema, { q: 'Köln"><img>' })).toThrow(ValidationError);
+  });
+
+  it('agrees with the runtime search check', () => {
+    expect(() => validateAPIParams.searchParams({ q: 'São Paulo' })).not.toThrow();
+    expect(() => validateAPIParams.searchParams({ q: 'Zu\u0308rich' })).not.toThrow();
+    expect(() => validateAPIParams.searchParams({ q: 'Köln<script>' })).toThrow();
+  });
+});
+
+describe('ReverseGeocodeAPIParamsSchema', () => {
+  it('normalizes an optional language list', () => {
+    expect(validateWithZod(ReverseGeocodeAPIParamsSchema, { lat: '47.37', lon: '8.54', lang: 'de-CH,de;q=0.9' }))
+      .toEqual({ lat: 47.37, lon: 8.54, lang: 'de-CH,de' });
+    expect(validateWithZod(ReverseGeocodeAPIParamsSchema, { lat: '47.37', lon: '8.54' })).toEqual({ lat: 47.37, lon: 8.54 });
+  });
+});
+
+describe('WeatherAPIRequestSchema', () => {
+  const baseQuery = {
+    lat: '40.7128',
+    lon: '-74.0060',
+    start: '2023-06-15',
+    end: '2023-06-16',
+    timezone: 'America/New_York'
+  };
+
+  it('leaves years undefined for a regular request', () => {
+    const result = validateWithZod(WeatherAPIRequestSchema, baseQuery) as { years?: number[] };
+    expect(result.years).toBeUndefined();
+  });
+
+  it('parses a comma-separated list of years', () => {
+    const result = validateWithZod(WeatherAPIRequestSchema, { ...baseQuery, years: '2015, 2020' }) as { years?: number[] };
+    expect(result.years).toEqual([2015, 2020]);
+  });
+
+  it('defaults to the nested JSON layout and accepts bulk export formats', () => {
+    const defaults = validateWithZod(WeatherAPIRequestSchema, baseQuery) as { format: string; dataset: string };
+    expect(defaults.format).toBe('json');
+    expect(defaults.dataset).toBe('hourly');
+
+    const bulk = validateWithZod(WeatherAPIRequestSchema, { ...baseQuery, format: 'ndjson', dataset: 'daily', name: ' New York ' }) as { format: string; dataset: string; name: string };
+    expect(bulk).toMatchObject({ format: 'ndjson', dataset: 'daily', name: 'New York' });
+
+    expect(() => validateWithZod(WeatherAPIRequestSchema, { ...baseQuery, format: 'parquet' })).toThrow(ValidationError);
+  });
+
+  it('parses daily and hourly variable lists against the allow-list', () => {
+    const result = validateWithZod(WeatherAPIRequestSchema, {
+      ...baseQuery,
+      daily: 'temperature_2m_max, temperature_2m_min,temperature_2m_max',
+      hourly: ''
+    }) as { daily?: string[]; hourly?: string[] };
+
+    expect(result.daily).toEqual(['temperature_2m_max', 'temperature_2m_min']);
+    expect(result.hourly).toEqual([]);
+    expect((validateWithZod(WeatherAPIRequestSchema, baseQuery) as { daily?: string[] }).daily).toBeUndefined();
+    expect(() => validateWithZod(WeatherAPIRequestSchema, { ...baseQuery, hourly: 'temperature_2m,soil_moisture' })).toThrow(ValidationError);
+  });
+
+  it('accepts export units and leaves omitted units unset', () => {
+    const result = validateWithZod(WeatherAPIRequestSchema, {
+      ...baseQuery,
+      temperature_unit: 'F',
+      wind_speed_unit: 'kn',
+      precipitation_unit: 'in',
+    }) as { temperature_unit?: string; wind_speed_unit?: string; precipitation_unit?: string; pressure_unit?: string };
+
+    expect(result).toMatchObject({ temperature_unit: 'F', wind_speed_unit: 'kn', precipitation_unit: 'in' });
+    expect(result.pressure_unit).toBeUndefined();
+    expect(() => validateWithZod(WeatherAPIRequestSchema, { ...baseQuery, wind_speed_unit: 'beaufort' })).toThrow(ValidationError);
+  });
+
+  it('rejects years before 1940 or too many years', () => {
+    expect(() => validateWithZod(WeatherAPIRequestSchema, { ...baseQuery, years: '1939' })).toThrow(ValidationError);
+    const tooMany = Array.from({ length: YEAR_OVER_YEAR.MAX_YEARS + 1 }, (_, i) => 2000 + i).join(',');
+    expect(() => validateWithZod(WeatherAPIRequestSchema, { ...baseQuery, years: tooMany })).toThrow(ValidationError);
+  });
+});
+
+describe('AgricultureAPIParamsSchema', () => {
+  const baseQuery = {
+    lat: '40.7128',
+    lon: '-74.0060',
+    start: '2023-04-01',
+    end: '2023-09-30',
+    timezone: 'America/New_York'
+  };
+
+  it('defaults the base temperature', () => {
+    const result = validateWithZod(AgricultureAPIParamsSchema, baseQuery) as { base: number; upper?: number };
+    expect(result.base).toBe(AGRICULTURE.DEFAULT_BASE_TEMPERATURE);
+    expect(result.upper).toBeUndefined();
+  });
+
+  it('requires the upper threshold to be above the base', () => {
+    const result = validateWithZod(AgricultureAPIParamsSchema, { ...baseQuery, base: '8', upper: '30' }) as { base: number; upper?: number };
+    expect(result).toMatchObject({ base: 8, upper: 30 });
+    expect(() => validateWithZod(AgricultureAPIParamsSchema, { ...baseQuery, base: '10', upper: '5' })).toThrow(ValidationError);
+    expect(() => validateWithZod(AgricultureAPIParamsSchema, { ...baseQuery, base: 'warm' })).toThrow(ValidationError);
+  });
+});
+
 describe('Zod Validation Utilities', () => {
   describe('validateWithZod', () => {
     it('should return validated data for correct input', () => {
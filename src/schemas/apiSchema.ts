@@ -2,14 +2,34 @@ import { z } from 'zod';
 import invariant from 'tiny-invariant';
 
 import { validateNumber, validateString, validateObject } from '../utils/invariants';
+import { AGRICULTURE, CLIMATOLOGY, WEATHER_VARIABLES, YEAR_OVER_YEAR } from '../constants';
+import { UNIT_CHOICES } from '../utils/units';
+import { normalizeLanguageList, SEARCH_QUERY_PATTERN } from '../utils/validation';
+
+// Optional preferred languages for place names (e.g. "de-CH,de,en"); the Accept-Language header is used otherwise
+const LanguageListSchema = z.preprocess(
+  (val) => (typeof val === 'string' ? normalizeLanguageList(val) : val),
+  z.string().max(100).optional()
+);
 
 /**
  * Zod schema for validating search API request parameters
  */
 export const SearchAPIParamsSchema = z.object({
-  q: z.string().min(1).max(100).regex(/^[a-zA-Z0-9\s,.\-_]+$/),
+  // Place names in any script; NFC keeps differently composed spellings on the same cache entry
+  q: z.string().normalize('NFC').trim().min(1).max(100).regex(SEARCH_QUERY_PATTERN),
+  lang: LanguageListSchema,
 });
 
+/**
+ * Parses a comma-separated variable list (e.g. "temperature_2m,rain") against an allow-list.
+ * An empty value selects no variables, which skips that granularity.
+ */
+const variableListSchema = <T extends string>(allowed: readonly [T, ...T[]]) => z.preprocess(
+  (val) => (typeof val === 'string' ? val.split(',').map((name) => name.trim()).filter(Boolean) : val),
+  z.array(z.enum(allowed)).transform((names) => Array.from(new Set(names))).optional()
+);
+
 /**
  * Zod schema for validating weather API request parameters
  */
@@ -19,6 +39,64 @@ export const WeatherAPIRequestSchema = z.object({
   start: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   end: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   timezone: z.string().min(1).max(50),
+  // Optional comma-separated years (e.g. "2015,2020") to fetch the same dates from each year
+  years: z.preprocess(
+    (val) => (typeof val === 'string' ? val.split(',').map((year) => Number(year.trim())) : val),
+    z.array(z.number().int().min(1940).max(new Date().getUTCFullYear())).min(1).max(YEAR_OVER_YEAR.MAX_YEARS).optional()
+  ),
+  // Optional variable lists; every allowed variable is fetched when a list is omitted
+  daily: variableListSchema(WEATHER_VARIABLES.DAILY),
+  hourly: variableListSchema(WEATHER_VARIABLES.HOURLY),
+  // Machine-oriented layouts: "ndjson" streams one record per row, "columnar" returns one array per variable
+  format: z.enum(['json', 'ndjson', 'columnar']).default('json'),
+  dataset: z.enum(['daily', 'hourly']).default('hourly'),
+  // Optional location name, used only for download filenames
+  name: z.string().trim().max(100).optional(),
+  // Units for file exports; values stay metric when omitted and in JSON responses
+  temperature_unit: z.enum(UNIT_CHOICES.temperature).optional(),
+  wind_speed_unit: z.enum(UNIT_CHOICES.windSpeed).optional(),
+  precipitation_unit: z.enum(UNIT_CHOICES.precipitation).optional(),
+  pressure_unit: z.enum(UNIT_CHOICES.pressure).optional(),
+});
+
+/**
+ * Zod schema for validating weather export (CSV) request parameters
+ */
+export const WeatherExportParamsSchema = WeatherAPIRequestSchema.omit({ years: true, format: true }).extend({
+  dataset: z.enum(['daily', 'hourly']).default('daily'),
+});
+
+/**
+ * Zod schema for validating agricultural indices request parameters (temperatures in °C)
+ */
+export const AgricultureAPIParamsSchema = WeatherAPIRequestSchema.pick({ lat: true, lon: true, start: true, end: true, timezone: true }).extend({
+  base: z.preprocess(
+    (val) => (val === undefined ? undefined : Number(val)),
+    z.number().min(AGRICULTURE.MIN_BASE_TEMPERATURE).max(AGRICULTURE.MAX_BASE_TEMPERATURE).default(AGRICULTURE.DEFAULT_BASE_TEMPERATURE)
+  ),
+  upper: z.preprocess((val) => (val === undefined ? undefined : Number(val)), z.number().min(-10).max(50).optional()),
+}).refine((data) => data.upper === undefined || data.upper > data.base, {
+  message: "Upper threshold must be above the base temperature",
+  path: ["upper"],
+});
+
+/**
+ * Zod schema for validating climatology API request parameters
+ */
+export const ClimatologyAPIParamsSchema = z.object({
+  lat: z.preprocess((val) => Number(val), z.number().min(-90).max(90)),
+  lon: z.preprocess((val) => Number(val), z.number().min(-180).max(180)),
+  month: z.preprocess((val) => Number(val), z.number().int().min(1).max(12)),
+  day: z.preprocess((val) => Number(val), z.number().int().min(1).max(31)),
+  years: z.preprocess((val) => (val === undefined ? undefined : Number(val)), z.number().int().min(1).max(CLIMATOLOGY.MAX_YEARS).default(CLIMATOLOGY.DEFAULT_YEARS)),
+  timezone: z.string().min(1).max(50),
+}).refine((data) => {
+  // Use a leap year so Feb 29 is accepted
+  const daysInMonth = new Date(Date.UTC(2000, data.month, 0)).getUTCDate();
+  return data.day <= daysInMonth;
+}, {
+  message: "Day does not exist in the given month",
+  path: ["day"],
 });
 
 /**
@@ -27,6 +105,7 @@ export const WeatherAPIRequestSchema = z.object({
 export const ReverseGeocodeAPIParamsSchema = z.object({
   lat: z.preprocess((val) => Number(val), z.number().min(-90).max(90)),
   lon: z.preprocess((val) => Number(val), z.number().min(-180).max(180)),
+  lang: LanguageListSchema,
 });
 
 /**
@@ -58,8 +137,9 @@ export const validateAPIParams = {
     validateObject(params, 'search params');
     const { q } = params as { q: string };
     validateString(q, 'search query');
-    invariant(q.length >= 1 && q.length <= 100, 'Search query must be between 1 and 100 characters');
-    invariant(/^[a-zA-Z0-9\s,.\-_]+$/.test(q), 'Search query contains invalid characters');
+    const query = q.normalize('NFC').trim();
+    invariant(query.length >= 1 && query.length <= 100, 'Search query must be between 1 and 100 characters');
+    invariant(SEARCH_QUERY_PATTERN.test(query), 'Search query contains invalid characters');
   },
 
   /**
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 
+import { SEARCH_QUERY_PATTERN } from '../utils/validation';
+
 /**
  * Zod schema for validating location data from the Open-Meteo API
  */
@@ -29,7 +31,7 @@ export const LocationSchema = z.object({
  * Zod schema for validating search query parameters
  */
 export const SearchQuerySchema = z.object({
-  q: z.string().min(1).max(100).regex(/^[a-zA-Z0-9\s,.\-_]+$/),
+  q: z.string().normalize('NFC').trim().min(1).max(100).regex(SEARCH_QUERY_PATTERN),
 });
 
 /**
@@ -47,4 +49,18 @@ export const WeatherLocationSchema = z.object({
   latitude: z.number().min(-90).max(90),
   longitude: z.number().min(-180).max(180),
   timezone: z.string().min(1).max(50),
-});
\ No newline at end of file
+});
+
+/**
+ * Zod schema for locations saved in the browser (favorites, recent searches).
+ * Coordinate-only locations have id 0, and fields missing from older saves get the
+ * same defaults as createCoordinateLocation, so the result is a complete Location.
+ */
+export const StoredLocationSchema = LocationSchema.extend({
+  id: z.number().int().nonnegative().default(0),
+  name: z.string(),
+  elevation: z.number().default(0),
+  feature_code: z.string().min(1).max(50).default('PPL'),
+  country_code: z.string().length(2).default('XX'),
+  country: z.string().min(1).max(100).default('Unknown'),
+});
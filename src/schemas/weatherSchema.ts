@@ -1,7 +1,8 @@
 import { z } from 'zod';
 
 /**
- * Zod schema for validating daily weather data from Open-Meteo API
+ * Zod schema for validating daily weather data from Open-Meteo API.
+ * Only time is required; the variable arrays are present when requested.
  */
 export const DailyWeatherDataSchema = z.object({
   time: z.array(z.union([z.string().datetime(), z.date()])),
@@ -22,10 +23,11 @@ export const DailyWeatherDataSchema = z.object({
   winddirection_10m_dominant: z.array(z.union([z.number(), z.null()])),
   shortwave_radiation_sum: z.array(z.union([z.number(), z.null()])),
   et0_fao_evapotranspiration: z.array(z.union([z.number(), z.null()])),
-});
+}).partial().required({ time: true });
 
 /**
- * Zod schema for validating hourly weather data from Open-Meteo API
+ * Zod schema for validating hourly weather data from Open-Meteo API.
+ * Only time is required; the variable arrays are present when requested.
  */
 export const HourlyWeatherDataSchema = z.object({
   time: z.array(z.union([z.string().datetime(), z.date()])),
@@ -51,7 +53,7 @@ export const HourlyWeatherDataSchema = z.object({
   winddirection_10m: z.array(z.union([z.number(), z.null()])),
   windgusts_10m: z.array(z.union([z.number(), z.null()])),
   temperature_80m: z.array(z.union([z.number(), z.null()])),
-});
+}).partial().required({ time: true });
 
 /**
  * Zod schema for validating weather data response
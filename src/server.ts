@@ -12,42 +12,48 @@ import { createCorsMiddleware } from './utils/cors';
 import {
   validateDateRangeWithErrors,
   validateCoordinatesWithErrors,
-  validateTimezoneWithErrors
+  validateTimezoneWithErrors,
+  normalizeLanguageList
 } from './utils/validation';
 import { validateWithZod } from './utils/zodValidation';
 import { SimpleCacheManager } from './utils/simpleCacheManager';
+import { FileCacheStore } from './utils/fileCacheStore';
 import {
   searchLocations,
   getHistoricalWeather,
+  getHistoricalWeatherForRanges,
+  getClimatology,
   reverseGeocode,
-  DailyWeatherData,
-  HourlyWeatherData
+  DailyVariable,
+  HourlyVariable,
+  SelectedWeatherData,
+  WeatherVariableSelection
 } from './open-meteo';
 import { Location as GeoLocation } from './types/location';
-import { getCurrentISODate } from './utils/dateUtils';
-import { CACHE_TTL, RATE_LIMITS } from './constants';
+import { ClimatologyResponse, UnitPreferences, YearOverYearEntry, YearOverYearResponse } from './types';
+import { getCurrentISODate, getDatesInRange, isArchiveSettled, shiftDateRangeToYear } from './utils/dateUtils';
+import {
+  weatherToCsv,
+  weatherToColumnar,
+  iterateWeatherRecords,
+  getExportFilename,
+  WeatherExportDataset
+} from './utils/weatherExport';
+import { computeAgricultureIndices } from './utils/agriculture';
+import { DateRange, findMissingRanges, mergeWeatherDays, splitWeatherByDay } from './utils/weatherChunks';
+import { snapCoordinates } from './utils/coordinateGrid';
+import { METRIC_UNITS } from './utils/units';
+import { CACHE_TTL, RATE_LIMITS, SERVER_CACHE_LIMITS } from './constants';
 // Import Zod schemas
 import {
   SearchAPIParamsSchema,
   WeatherAPIRequestSchema,
-  ReverseGeocodeAPIParamsSchema
+  ReverseGeocodeAPIParamsSchema,
+  ClimatologyAPIParamsSchema,
+  WeatherExportParamsSchema,
+  AgricultureAPIParamsSchema
 } from './schemas/apiSchema';
 
-/**
- * Simple HTML escaping function to prevent XSS
- */
-const escapeHtml = (str: string): string => {
-  if (typeof str !== 'string') {
-    return String(str);
-  }
- return str
-    .replace(/&/g, '&')
-    .replace(/</g, '<')
-    .replace(/>/g, '>')
-    .replace(/"/g, '"')
-    .replace(/'/g, '&#x27;');
-};
-
 // Load environment variables from .env file
 config();
 
@@ -67,6 +73,8 @@ console.log('  PORT:', getEnvVar('PORT') ?? 'not set');
 console.log('  API_BASE_URL:', getEnvVar('API_BASE_URL') ?? 'not set');
 console.log('  FRONTEND_PORT:', getEnvVar('FRONTEND_PORT') ?? 'not set');
 console.log('  CORS_ORIGIN:', getEnvVar('CORS_ORIGIN') ?? 'not set');
+console.log('  CACHE_DIR:', getEnvVar('CACHE_DIR') ?? 'not set');
+console.log('  COORDINATE_GRID_RESOLUTION:', getEnvVar('COORDINATE_GRID_RESOLUTION'));
 
 // Validate environment variables
 try {
@@ -82,6 +90,8 @@ const nodeEnv = getEnvVar('NODE_ENV') ?? 'development';
 const port = Number.parseInt(getEnvVar('PORT') ?? '3001', 10);
 const frontendPort = Number.parseInt(getEnvVar('FRONTEND_PORT') ?? '3000', 10);
 const corsOrigins = getEnvVar('CORS_ORIGIN') ?? '';
+// Defaults to .cache/server (see env.ts); "off" keeps the cache in memory only
+const cacheDir = getEnvVar('CACHE_DIR');
 
 /**
  * This file sets up a simple Express server to act as a Backend-for-Frontend (BFF).
@@ -110,10 +120,25 @@ app.use(express.static(path.join(__dirname, '..', 'public')));
 // (Env variables already computed above)
 
 // Define the type for the cache data
-type CacheData = GeoLocation[] | { daily: DailyWeatherData; hourly: HourlyWeatherData } | GeoLocation;
-
-// Create a simple cache manager (replaces overly complex unified cache)
-const cache = new SimpleCacheManager<CacheData>(CACHE_TTL.SERVER_DEFAULT);
+type CacheData = GeoLocation[] | SelectedWeatherData | GeoLocation | ClimatologyResponse;
+
+// Create a simple cache manager (replaces overly complex unified cache),
+// bounded by LRU limits and mirrored to disk so cached weather survives restarts
+const cacheDirectory = cacheDir && cacheDir !== 'off' ? path.resolve(cacheDir) : undefined;
+const cacheStore = cacheDirectory ? new FileCacheStore<CacheData>(cacheDirectory) : undefined;
+const cache = new SimpleCacheManager<CacheData>(CACHE_TTL.SERVER_DEFAULT, {
+  store: cacheStore,
+  maxEntries: SERVER_CACHE_LIMITS.MAX_ENTRIES,
+  maxBytes: SERVER_CACHE_LIMITS.MAX_BYTES,
+});
+cache.startSweep(SERVER_CACHE_LIMITS.SWEEP_INTERVAL);
+cache.restore()
+  .then((restored) => {
+    if (cacheStore) {
+      console.log(`💾 Restored ${restored} cache entries from ${cacheDirectory}`);
+    }
+  })
+  .catch((error) => console.warn('Could not restore the persistent cache:', error));
 
 // Initialize memory monitoring
 console.log('🔍 Memory leak detection activated');
@@ -149,6 +174,9 @@ const weatherLimiter = rateLimit({
 });
 
 app.use('/api/weather', weatherLimiter);
+app.use('/api/weather.csv', weatherLimiter);
+app.use('/api/climatology', weatherLimiter);
+app.use('/api/agriculture', weatherLimiter);
 
 
 /**
@@ -190,9 +218,13 @@ app.get('/api/debug-config', (req, res) => {
     },
     endpoints: {
       health: `/api/health`,
-      search: `/api/search?q=<query>`,
-      weather: `/api/weather?lat=<lat>&lon=<lon>&start=<date>&end=<date>&timezone=<tz>`,
-      reverseGeocode: `/api/reverse-geocode?lat=<lat>&lon=<lon>`
+      search: `/api/search?q=<query>[&lang=<languages>]`,
+      weather: `/api/weather?lat=<lat>&lon=<lon>&start=<date>&end=<date>&timezone=<tz>[&years=<y1,y2>][&daily=<vars>][&hourly=<vars>]`,
+      weatherBulk: `/api/weather?<weather params>&format=<ndjson|columnar>&dataset=<hourly|daily>[&name=<name>]`,
+      weatherCsv: `/api/weather.csv?lat=<lat>&lon=<lon>&start=<date>&end=<date>&timezone=<tz>&dataset=<daily|hourly>[&name=<name>]`,
+      climatology: `/api/climatology?lat=<lat>&lon=<lon>&month=<month>&day=<day>&years=<years>&timezone=<tz>`,
+      agriculture: `/api/agriculture?lat=<lat>&lon=<lon>&start=<date>&end=<date>&timezone=<tz>[&base=<°C>][&upper=<°C>]`,
+      reverseGeocode: `/api/reverse-geocode?lat=<lat>&lon=<lon>[&lang=<languages>]`
     }
   });
 });
@@ -204,22 +236,24 @@ app.get('/api/debug-config', (req, res) => {
 app.get('/api/search', async (req, res) => {
   try {
     // Validate and sanitize query parameters using Zod
-    const validatedParams = validateWithZod(SearchAPIParamsSchema, req.query, 'Invalid search parameters') as { q: string };
+    // The query is NFC-normalized and limited to letters, digits and place-name punctuation,
+    // so it is passed on as typed: escaping would turn "St. John's" into an entity Nominatim cannot match
+    const validatedParams = validateWithZod(SearchAPIParamsSchema, req.query, 'Invalid search parameters') as { q: string; lang?: string };
     const { q: query } = validatedParams;
+    // Result names follow the client's explicit choice, then the browser's Accept-Language header
+    const language = validatedParams.lang ?? normalizeLanguageList(req.get('accept-language'));
+    const cacheKey = `search:${language ?? ''}:${query}`;
 
     // Check cache first
-    const cachedResult = cache.get(`search:${query}`);
+    const cachedResult = cache.get(cacheKey);
     if (cachedResult) {
       return res.json(cachedResult);
     }
 
-       // Additional sanitization for security
-       const sanitizedQuery = escapeHtml(query.trim());
-   
-       const locations = await searchLocations(sanitizedQuery);
-    
+    const locations = await searchLocations(query, language);
+
     // Cache the result
-    cache.set(`search:${query}`, locations);
+    cache.set(cacheKey, locations);
     
     res.json(locations);
   } catch (error: unknown) {
@@ -232,15 +266,160 @@ app.get('/api/search', async (req, res) => {
   }
 });
 
+/**
+ * Builds the server cache key for one weather range; variable selections get their own entries
+ */
+const weatherCacheKey = (
+  lat: number,
+  lon: number,
+  start: string,
+  end: string,
+  timezone: string,
+  variables: WeatherVariableSelection = {}
+): string => {
+  const baseKey = `weather:${lat}:${lon}:${start}:${end}:${timezone}`;
+  if (!variables.daily && !variables.hourly) {
+    return baseKey;
+  }
+  const listKey = (names?: readonly string[]) => (names ? [...names].sort().join(',') : '*');
+  return `${baseKey}:${listKey(variables.daily)}:${listKey(variables.hourly)}`;
+};
+
+/**
+ * Cache lifetime for a weather range: ranges that ended before the archive settled
+ * never change, so they are kept much longer than recent ones
+ */
+const weatherCacheTTL = (end: string): number =>
+  isArchiveSettled(end) ? CACHE_TTL.HISTORICAL : CACHE_TTL.SERVER_DEFAULT;
+
+/**
+ * Reads the cached day chunks for a list of dates; dates without a chunk are left out
+ */
+const getCachedWeatherDays = (
+  lat: number,
+  lon: number,
+  dates: string[],
+  timezone: string,
+  variables: WeatherVariableSelection = {}
+): Map<string, SelectedWeatherData> => {
+  const days = new Map<string, SelectedWeatherData>();
+  for (const date of dates) {
+    const chunk = cache.get(weatherCacheKey(lat, lon, date, date, timezone, variables)) as SelectedWeatherData | null;
+    if (chunk) {
+      days.set(date, chunk);
+    }
+  }
+  return days;
+};
+
+/**
+ * Caches fetched weather as one chunk per day, each with its own lifetime
+ * @returns The chunks, keyed by date
+ */
+const cacheWeatherDays = (
+  lat: number,
+  lon: number,
+  range: DateRange,
+  timezone: string,
+  variables: WeatherVariableSelection,
+  weather: SelectedWeatherData
+): Map<string, SelectedWeatherData> => {
+  const days = splitWeatherByDay(weather, getDatesInRange(range.start, range.end));
+  days.forEach((chunk, date) => {
+    cache.set(weatherCacheKey(lat, lon, date, date, timezone, variables), chunk, weatherCacheTTL(date));
+  });
+  return days;
+};
+
+/**
+ * Gets historical weather data through the shared server cache.
+ * Coordinates are snapped to the weather grid, and weather is cached per day,
+ * so only the days missing from the cache are fetched,
+ * one request per gap. Identical requests for a gap that is already being fetched share that fetch.
+ */
+const getCachedHistoricalWeather = async (
+  lat: number,
+  lon: number,
+  start: string,
+  end: string,
+  timezone: string,
+  variables: WeatherVariableSelection = {}
+): Promise<SelectedWeatherData> => {
+  // Points in the same grid cell share cache entries and upstream requests
+  const { latitude, longitude } = snapCoordinates(lat, lon);
+  const dates = getDatesInRange(start, end);
+  const days = getCachedWeatherDays(latitude, longitude, dates, timezone, variables);
+
+  const missing = findMissingRanges(dates, (date) => days.has(date));
+  const fetched = await Promise.all(missing.map((range) =>
+    cache.coalesce(weatherCacheKey(latitude, longitude, range.start, range.end, timezone, variables), async () => {
+      const weather = await getHistoricalWeather({ latitude, longitude, timezone }, range.start, range.end, variables);
+      return cacheWeatherDays(latitude, longitude, range, timezone, variables, weather);
+    })
+  ));
+  fetched.forEach((chunks) => chunks.forEach((chunk, date) => days.set(date, chunk)));
+
+  return mergeWeatherDays(dates.map((date) => days.get(date) as SelectedWeatherData));
+};
+
+/**
+ * Writes records as newline-delimited JSON, waiting for the socket to drain
+ * so long ranges are not serialized into one large response body
+ */
+const streamNdjson = async (res: express.Response, records: Iterable<Record<string, unknown>>): Promise<void> => {
+  for (const record of records) {
+    if (res.destroyed) {
+      return; // Client went away
+    }
+    if (!res.write(`${JSON.stringify(record)}\n`)) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          res.off('drain', done);
+          res.off('close', done);
+          resolve();
+        };
+        res.on('drain', done);
+        res.on('close', done);
+      });
+    }
+  }
+  res.end();
+};
+
+/** Unit query parameters shared by the export formats */
+interface ExportUnitParams {
+  temperature_unit?: UnitPreferences['temperature'];
+  wind_speed_unit?: UnitPreferences['windSpeed'];
+  precipitation_unit?: UnitPreferences['precipitation'];
+  pressure_unit?: UnitPreferences['pressure'];
+}
+
+/**
+ * Resolves the export units from query parameters; omitted units stay metric
+ */
+const getExportUnits = (params: ExportUnitParams): UnitPreferences => ({
+  temperature: params.temperature_unit ?? METRIC_UNITS.temperature,
+  windSpeed: params.wind_speed_unit ?? METRIC_UNITS.windSpeed,
+  precipitation: params.precipitation_unit ?? METRIC_UNITS.precipitation,
+  pressure: params.pressure_unit ?? METRIC_UNITS.pressure,
+});
+
 /**
  * Gets historical weather data for a given location and date range.
  * e.g., /api/weather?lat=40.71&lon=-74.01&start=2023-01-01&end=2023-01-02
+ * Add &years=2015,2020 to get the same dates from each of those years in one request.
+ * Add &daily=temperature_2m_max,precipitation_sum and/or &hourly=temperature_2m to fetch only
+ * those variables; an empty list (e.g. &hourly=) skips that granularity.
+ * Add &format=ndjson (one record per row) or &format=columnar (one array per variable)
+ * with &dataset=hourly|daily for bulk export; &name= sets the download filename.
+ * Exports accept &temperature_unit=C|F, &wind_speed_unit=kmh|mph|ms|kn,
+ * &precipitation_unit=mm|in and &pressure_unit=hPa|inHg; JSON responses stay metric.
  */
 app.get('/api/weather', async (req, res) => {
   try {
     // Validate and sanitize query parameters using Zod
-    const validatedParams = validateWithZod(WeatherAPIRequestSchema, req.query, 'Invalid weather parameters') as { lat: number; lon: number; start: string; end: string; timezone: string };
-    const { lat, lon, start, end, timezone } = validatedParams;
+    const validatedParams = validateWithZod(WeatherAPIRequestSchema, req.query, 'Invalid weather parameters') as { lat: number; lon: number; start: string; end: string; timezone: string; years?: number[]; daily?: DailyVariable[]; hourly?: HourlyVariable[]; format: 'json' | 'ndjson' | 'columnar'; dataset: WeatherExportDataset; name?: string } & ExportUnitParams;
+    const { lat, lon, start, end, timezone, years, daily, hourly, format, dataset, name } = validatedParams;
 
     // Normalize/trim date strings to avoid accidental whitespace or encoding artifacts
     const startTrim = start.trim();
@@ -271,25 +450,184 @@ app.get('/api/weather', async (req, res) => {
     console.log(`[DEBUG] Date validation - start: "${startTrim}", end: "${endTrim}"`);
     validateDateRangeWithErrors(startTrim, endTrim);
 
-    // Check cache first
-    const cacheKey = `weather:${lat}:${lon}:${startTrim}:${endTrim}:${timezone}`;
+    if (years && format !== 'json') {
+      throw new ValidationError('The years parameter is only supported with format=json', 'years');
+    }
+    if (years && (daily || hourly)) {
+      throw new ValidationError('The years parameter cannot be combined with daily or hourly variable lists', 'years');
+    }
+
+    // Year-over-year: the same dates from each requested year, in a single batched request
+    if (years) {
+      const ranges = Array.from(new Set(years)).sort((a, b) => a - b).map((year) => {
+        const shifted = shiftDateRangeToYear(startTrim, endTrim, year);
+        if (!shifted) {
+          throw new ValidationError(`Could not shift dates to ${year}`, 'years');
+        }
+        return { year, startDate: shifted.start, endDate: shifted.end };
+      });
+
+      // Reuse the day chunks shared with regular weather requests
+      const cell = snapCoordinates(lat, lon);
+      const cachedEntries = new Map<number, YearOverYearEntry>();
+      for (const range of ranges) {
+        const dates = getDatesInRange(range.startDate, range.endDate);
+        const days = getCachedWeatherDays(cell.latitude, cell.longitude, dates, timezone);
+        if (days.size === dates.length) {
+          const weather = mergeWeatherDays(dates.map((date) => days.get(date) as SelectedWeatherData));
+          cachedEntries.set(range.year, { ...range, weather: weather as YearOverYearEntry['weather'] });
+        }
+      }
+
+      const missing = ranges.filter((range) => !cachedEntries.has(range.year));
+      console.log(`[DEBUG] Year-over-year request: ${ranges.length} years, ${missing.length} not cached`);
+      const fetched = await getHistoricalWeatherForRanges({ ...cell, timezone }, missing);
+      for (const entry of fetched) {
+        cacheWeatherDays(cell.latitude, cell.longitude, { start: entry.startDate, end: entry.endDate }, timezone, {}, entry.weather);
+        cachedEntries.set(entry.year, entry);
+      }
+
+      const response: YearOverYearResponse = {
+        startDate: startTrim,
+        endDate: endTrim,
+        years: ranges.map((range) => cachedEntries.get(range.year) as YearOverYearEntry),
+      };
+      return res.json(response);
+    }
+
+    const weather = await getCachedHistoricalWeather(lat, lon, startTrim, endTrim, timezone, { daily, hourly });
+
+    if (format === 'ndjson') {
+      res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${getExportFilename({ name, lat, lon }, startTrim, endTrim, dataset, 'ndjson')}"`);
+      return await streamNdjson(res, iterateWeatherRecords(weather, timezone, dataset, getExportUnits(validatedParams)));
+    }
+
+    if (format === 'columnar') {
+      res.setHeader('Content-Disposition', `attachment; filename="${getExportFilename({ name, lat, lon }, startTrim, endTrim, dataset, 'json')}"`);
+      return res.json({
+        location: { latitude: lat, longitude: lon, timezone, name: name ?? null },
+        grid: weather.grid ?? null,
+        start: startTrim,
+        end: endTrim,
+        dataset,
+        ...weatherToColumnar(weather, timezone, dataset, getExportUnits(validatedParams)),
+      });
+    }
+
+    res.json(weather);
+  } catch (error: unknown) {
+    const wrappedError = wrapError(error, 'Weather data retrieval failed');
+    const errorResponse = createErrorResponse(
+      wrappedError,
+      wrappedError instanceof ValidationError ? 400 : 500
+    );
+    res.status(errorResponse.statusCode || 500).json(errorResponse);
+  }
+});
+
+/**
+ * Downloads the daily or hourly weather arrays for a query as CSV.
+ * e.g., /api/weather.csv?lat=40.71&lon=-74.01&start=2023-01-01&end=2023-01-02&dataset=hourly
+ * Accepts the same *_unit parameters as the /api/weather export formats.
+ */
+app.get('/api/weather.csv', async (req, res) => {
+  try {
+    const validatedParams = validateWithZod(WeatherExportParamsSchema, req.query, 'Invalid weather export parameters') as { lat: number; lon: number; start: string; end: string; timezone: string; daily?: DailyVariable[]; hourly?: HourlyVariable[]; dataset: WeatherExportDataset; name?: string } & ExportUnitParams;
+    const { lat, lon, timezone, daily, hourly, dataset, name } = validatedParams;
+    const start = validatedParams.start.trim();
+    const end = validatedParams.end.trim();
+
+    validateCoordinatesWithErrors(lat, lon);
+    validateTimezoneWithErrors(timezone);
+    validateDateRangeWithErrors(start, end);
+
+    const weather = await getCachedHistoricalWeather(lat, lon, start, end, timezone, { daily, hourly });
+    const filename = getExportFilename({ name, lat, lon }, start, end, dataset, 'csv');
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(weatherToCsv(weather, timezone, dataset, getExportUnits(validatedParams)));
+  } catch (error: unknown) {
+    const wrappedError = wrapError(error, 'Weather export failed');
+    const errorResponse = createErrorResponse(
+      wrappedError,
+      wrappedError instanceof ValidationError ? 400 : 500
+    );
+    res.status(errorResponse.statusCode || 500).json(errorResponse);
+  }
+});
+
+/**
+ * Gets "normal" values for a calendar date over a number of past years.
+ * e.g., /api/climatology?lat=40.71&lon=-74.01&month=7&day=4&years=30
+ */
+app.get('/api/climatology', async (req, res) => {
+  try {
+    // Validate and sanitize query parameters using Zod
+    const validatedParams = validateWithZod(ClimatologyAPIParamsSchema, req.query, 'Invalid climatology parameters') as { lat: number; lon: number; month: number; day: number; years: number; timezone: string };
+    const { lat, lon, month, day, years, timezone } = validatedParams;
+
+    // Validate coordinates
+    validateCoordinatesWithErrors(lat, lon);
+
+    // Validate timezone
+    validateTimezoneWithErrors(timezone);
+
+    // Check cache first; points in the same grid cell share an entry
+    const cell = snapCoordinates(lat, lon);
+    const cacheKey = `climatology:${cell.latitude}:${cell.longitude}:${month}:${day}:${years}:${timezone}`;
     const cachedResult = cache.get(cacheKey);
     if (cachedResult) {
       return res.json(cachedResult);
     }
 
-    const weather = await getHistoricalWeather(
-      { latitude: lat, longitude: lon, timezone },
-      startTrim,
-      endTrim
+    const climatology = await getClimatology(
+      { ...cell, timezone },
+      month,
+      day,
+      years
     );
-    
-    // Cache the result
-    cache.set(cacheKey, weather);
-    
-    res.json(weather);
+
+    // Past years never change, so keep these around longer than daily requests
+    cache.set(cacheKey, climatology, CACHE_TTL.CLIMATOLOGY);
+
+    res.json(climatology);
   } catch (error: unknown) {
-    const wrappedError = wrapError(error, 'Weather data retrieval failed');
+    const wrappedError = wrapError(error, 'Climatology retrieval failed');
+    const errorResponse = createErrorResponse(
+      wrappedError,
+      wrappedError instanceof ValidationError ? 400 : 500
+    );
+    res.status(errorResponse.statusCode || 500).json(errorResponse);
+  }
+});
+
+/**
+ * Gets growing degree days, chill hours and water balance for a date range.
+ * e.g., /api/agriculture?lat=40.71&lon=-74.01&start=2023-04-01&end=2023-09-30&base=10
+ * Temperatures (base, optional upper threshold) are in °C.
+ */
+app.get('/api/agriculture', async (req, res) => {
+  try {
+    const validatedParams = validateWithZod(AgricultureAPIParamsSchema, req.query, 'Invalid agriculture parameters') as { lat: number; lon: number; start: string; end: string; timezone: string; base: number; upper?: number };
+    const { lat, lon, timezone, base, upper } = validatedParams;
+    const start = validatedParams.start.trim();
+    const end = validatedParams.end.trim();
+
+    validateCoordinatesWithErrors(lat, lon);
+    validateTimezoneWithErrors(timezone);
+    validateDateRangeWithErrors(start, end);
+
+    // Only fetch what the indices need
+    const weather = await getCachedHistoricalWeather(lat, lon, start, end, timezone, {
+      daily: ['temperature_2m_max', 'temperature_2m_min', 'precipitation_sum', 'et0_fao_evapotranspiration'],
+      hourly: ['temperature_2m'],
+    });
+
+    res.json(computeAgricultureIndices(weather, { timezone }, start, end, { baseTemperature: base, upperThreshold: upper }));
+  } catch (error: unknown) {
+    const wrappedError = wrapError(error, 'Agricultural indices retrieval failed');
     const errorResponse = createErrorResponse(
       wrappedError,
       wrappedError instanceof ValidationError ? 400 : 500
@@ -306,8 +644,10 @@ app.get('/api/reverse-geocode', async (req, res) => {
   console.log(`[DEBUG] Reverse geocode request: lat=${req.query.lat}, lon=${req.query.lon}`);
   try {
     // Validate and sanitize query parameters using Zod
-    const validatedParams = validateWithZod(ReverseGeocodeAPIParamsSchema, req.query, 'Invalid reverse geocode parameters') as { lat: number; lon: number };
+    const validatedParams = validateWithZod(ReverseGeocodeAPIParamsSchema, req.query, 'Invalid reverse geocode parameters') as { lat: number; lon: number; lang?: string };
     const { lat, lon } = validatedParams;
+    // Named in the same language as search results
+    const language = validatedParams.lang ?? normalizeLanguageList(req.get('accept-language'));
 
     console.log(`[DEBUG] Reverse geocode validated params: lat=${lat}, lon=${lon}`);
 
@@ -315,7 +655,7 @@ app.get('/api/reverse-geocode', async (req, res) => {
     validateCoordinatesWithErrors(lat, lon);
 
     // Check cache first
-    const cacheKey = `reverse:${lat}:${lon}`;
+    const cacheKey = `reverse:${language ?? ''}:${lat}:${lon}`;
     const cachedResult = cache.get(cacheKey);
     if (cachedResult) {
       console.log(`[DEBUG] Reverse geocode cache hit for ${cacheKey}`);
@@ -323,7 +663,7 @@ app.get('/api/reverse-geocode', async (req, res) => {
     }
 
     console.log(`[DEBUG] Reverse geocode cache miss, calling Open-Meteo API for ${lat}, ${lon}`);
-    const location: GeoLocation = await reverseGeocode(lat, lon);
+    const location: GeoLocation = await reverseGeocode(lat, lon, language);
 
     console.log(`[DEBUG] Reverse geocode success: ${location.name}, ${location.country}`);
 
@@ -346,7 +686,7 @@ app.get('/api/reverse-geocode', async (req, res) => {
 // Add endpoint to get cache statistics (only in development environment)
 if (nodeEnv === 'development') {
   app.get('/api/cache-stats', (req, res) => {
-    res.json({ size: cache.size() });
+    res.json(cache.getStats());
   });
   
   // Add endpoint to clear cache (useful for development)
@@ -393,9 +733,13 @@ const server = app.listen(port, () => {
   console.log(`📊 Available endpoints:`);
   console.log(`   GET /api/health - Health check`);
   console.log(`   GET /api/debug-config - View API configuration`);
-  console.log(`   GET /api/search?q=<query> - Search locations`);
-  console.log(`   GET /api/weather?lat=<lat>&lon=<lon>&start=<date>&end=<date>&timezone=<tz> - Get weather data`);
-  console.log(`   GET /api/reverse-geocode?lat=<lat>&lon=<lon> - Reverse geocode`);
+  console.log(`   GET /api/search?q=<query>[&lang=<languages>] - Search locations`);
+  console.log(`   GET /api/weather?lat=<lat>&lon=<lon>&start=<date>&end=<date>&timezone=<tz>[&years=<y1,y2>][&daily=<vars>][&hourly=<vars>] - Get weather data`);
+  console.log(`   GET /api/weather?<weather params>&format=<ndjson|columnar> - Bulk export weather data`);
+  console.log(`   GET /api/weather.csv?lat=<lat>&lon=<lon>&start=<date>&end=<date>&timezone=<tz>&dataset=<daily|hourly> - Download weather data as CSV`);
+  console.log(`   GET /api/climatology?lat=<lat>&lon=<lon>&month=<month>&day=<day>&years=<years>&timezone=<tz> - Get climatology`);
+  console.log(`   GET /api/agriculture?lat=<lat>&lon=<lon>&start=<date>&end=<date>&timezone=<tz>[&base=<°C>][&upper=<°C>] - Get agricultural indices`);
+  console.log(`   GET /api/reverse-geocode?lat=<lat>&lon=<lon>[&lang=<languages>] - Reverse geocode`);
   if (nodeEnv === 'development') {
     console.log(`   GET /api/cache-stats - View cache statistics`);
     console.log(`   GET /api/cache-clear - Clear all caches`);
@@ -440,7 +784,8 @@ const gracefulShutdown = (signal: string) => {
 
     // Step 2: Clean up cache and timers
     try {
-      // Simple cache manager doesn't require cleanup, but we can clear it if needed
+      // Persistent cache writes are awaited before exiting (step 5)
+      cache.stopSweep();
       console.log('Cache cleaned up');
 
       // Stop memory monitoring - apiMemoryTester was removed as part of simplification
@@ -474,8 +819,10 @@ const gracefulShutdown = (signal: string) => {
       }
     }
 
-    // Step 5: Small delay to allow any pending operations to complete
-    setTimeout(completeShutdown, 1000);
+    // Step 5: Finish persistent cache writes, then allow any other pending operations to complete
+    cache.flush()
+      .catch((error) => console.error('Error flushing cache:', error))
+      .finally(() => setTimeout(completeShutdown, 1000));
   });
 
   // Handle cleanup errors
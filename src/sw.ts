@@ -0,0 +1,136 @@
+/**
+ * Service worker that keeps the app shell (HTML, scripts, styles and icons) available offline.
+ * Weather and geocoding responses are cached by the app itself in IndexedDB,
+ * so API requests are left alone here.
+ * Built as a separate entry (sw.js) and registered from index.tsx in production builds.
+ */
+
+// Keep these declarations out of the global scope shared with the app
+export {};
+
+// Minimal service worker types; the DOM lib used by the rest of the app does not include them
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  request: Request;
+  respondWith(response: Promise<Response> | Response): void;
+}
+
+interface ServiceWorkerScope {
+  location: Location;
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  skipWaiting(): Promise<void>;
+  clients: { claim(): Promise<void> };
+}
+
+const worker = self as unknown as ServiceWorkerScope;
+
+// Bump the version to drop shells cached by older deployments
+const SHELL_CACHE = 'weather-history-shell-v1';
+// Scripts, styles and icons have hashed names, so they are cached as the page loads them
+const SHELL_URLS = ['/'];
+// Files the page links to, e.g. <script src="/main.3f9a.js"> or <link href="/main.81c2.css">
+const ASSET_REFERENCE = /\b(?:src|href)="([^"]+)"/g;
+
+/**
+ * Serves the cached copy right away and refreshes it in the background
+ */
+const staleWhileRevalidate = async (request: Request): Promise<Response> => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request).then((response) => {
+    if (response.ok) {
+      void cache.put(request, response.clone());
+    }
+    return response;
+  });
+  if (cached) {
+    refresh.catch(() => undefined);
+    return cached;
+  }
+  return refresh;
+};
+
+/**
+ * Loads pages from the network so deployments show up immediately, falling back to the cached shell offline
+ */
+const networkFirstPage = async (request: Request): Promise<Response> => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      void cache.put('/', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/');
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Removes cached files the current page no longer links to, such as bundles from earlier deployments.
+ * Anything removed by mistake is simply fetched again on its next use.
+ */
+const pruneStaleAssets = async (): Promise<void> => {
+  const cache = await caches.open(SHELL_CACHE);
+  let html: string;
+  try {
+    const response = await fetch('/', { cache: 'no-store' });
+    if (!response.ok) {
+      return;
+    }
+    await cache.put('/', response.clone());
+    html = await response.text();
+  } catch {
+    // Offline: keep everything until the next activation
+    return;
+  }
+
+  const current = new Set(SHELL_URLS);
+  for (const [, reference] of html.matchAll(ASSET_REFERENCE)) {
+    const url = new URL(reference, worker.location.origin);
+    if (url.origin === worker.location.origin) {
+      current.add(url.pathname);
+    }
+  }
+  const requests = await cache.keys();
+  await Promise.all(requests
+    .filter((request) => !current.has(new URL(request.url).pathname))
+    .map((request) => cache.delete(request)));
+};
+
+worker.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => worker.skipWaiting())
+  );
+});
+
+worker.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(names.filter((name) => name !== SHELL_CACHE).map((name) => caches.delete(name))))
+      .then(() => pruneStaleAssets())
+      .then(() => worker.clients.claim())
+  );
+});
+
+worker.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Only the app's own static files; API calls, map tiles and fonts go straight to the network
+  if (request.method !== 'GET' || url.origin !== worker.location.origin || url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  event.respondWith(request.mode === 'navigate' ? networkFirstPage(request) : staleWhileRevalidate(request));
+});
@@ -2,7 +2,7 @@
  * Type definitions for enhanced type safety across the application
  */
 
-import { DailyWeatherData, HourlyWeatherData } from './open-meteo';
+import { DailyWeatherData, GridCell, HourlyWeatherData } from './open-meteo';
 import { Location, LocationSearchResult, FallbackLocation } from './types/location';
 
 /**
@@ -58,6 +58,8 @@ export type { Location, LocationSearchResult, FallbackLocation };
 export interface WeatherDataResponse {
   daily: DailyWeatherData;
   hourly: HourlyWeatherData;
+  /** Grid cell the data was resolved to */
+  grid?: GridCell;
   metadata?: {
     source: string;
     generatedAt: string;
@@ -69,6 +71,113 @@ export interface WeatherDataResponse {
   };
 }
 
+/**
+ * Weather for the selected dates shifted into one specific year
+ */
+export interface YearOverYearEntry {
+  year: number;
+  startDate: string;
+  endDate: string;
+  weather: WeatherDataResponse;
+}
+
+/**
+ * Batched response from /api/weather when a list of years is requested
+ */
+export interface YearOverYearResponse {
+  startDate: string;
+  endDate: string;
+  years: YearOverYearEntry[];
+}
+
+/**
+ * One labelled series overlaid on a shared chart (e.g. a pinned location)
+ */
+export interface ChartSeries {
+  label: string;
+  location: Location;
+  weatherData: WeatherDataResponse;
+  startDate: string;
+  endDate: string;
+}
+
+/** A saved location with the label the user gave it */
+export interface FavoriteLocation {
+  label: string;
+  location: Location;
+}
+
+/** Charts and panels that can be shown or hidden below the weather summary */
+export type ChartId = 'temperature' | 'precipitation' | 'humidity' | 'wind' | 'solar' | 'agriculture';
+
+/** Display units for temperature */
+export type TemperatureUnit = 'C' | 'F';
+
+/** Display units for wind speed: km/h, mph, m/s or knots */
+export type WindSpeedUnit = 'kmh' | 'mph' | 'ms' | 'kn';
+
+/** Display units for precipitation; snowfall follows as cm or inches */
+export type PrecipitationUnit = 'mm' | 'in';
+
+/** Display units for air pressure */
+export type PressureUnit = 'hPa' | 'inHg';
+
+/**
+ * Units chosen by the user for displays and exports; data is always stored in metric
+ */
+export interface UnitPreferences {
+  temperature: TemperatureUnit;
+  windSpeed: WindSpeedUnit;
+  precipitation: PrecipitationUnit;
+  pressure: PressureUnit;
+}
+
+/**
+ * Daily variables summarized by the climatology endpoint
+ */
+export type ClimatologyVariable = 'temperature_2m_max' | 'temperature_2m_min' | 'precipitation_sum';
+
+/**
+ * Value observed on the requested calendar date in a single past year
+ */
+export interface ClimatologySample {
+  year: number;
+  date: string;
+  temperature_2m_max: number | null;
+  temperature_2m_min: number | null;
+  precipitation_sum: number | null;
+}
+
+/**
+ * Summary statistics for one variable across the sampled years
+ */
+export interface ClimatologyStats {
+  count: number;
+  mean: number;
+  median: number;
+  percentiles: {
+    p10: number;
+    p25: number;
+    p75: number;
+    p90: number;
+  };
+  recordHigh: { value: number; year: number };
+  recordLow: { value: number; year: number };
+}
+
+/**
+ * "Normal" values for a calendar date over a span of past years
+ */
+export interface ClimatologyResponse {
+  month: number;
+  day: number;
+  years: number;
+  startYear: number;
+  endYear: number;
+  samples: ClimatologySample[];
+  stats: Partial<Record<ClimatologyVariable, ClimatologyStats>>;
+}
+
 /**
  * Geolocation position with enhanced accuracy information
  */
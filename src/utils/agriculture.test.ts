@@ -0,0 +1,51 @@
+import { SelectedWeatherData } from '../open-meteo';
+
+import { computeAgricultureIndices, computeGrowingDegreeDays, countChillHours } from './agriculture';
+
+describe('agriculture', () => {
+  test('computeGrowingDegreeDays averages the day and subtracts the base', () => {
+    expect(computeGrowingDegreeDays(30, 20, 10)).toBe(15);
+    expect(computeGrowingDegreeDays(8, 2, 10)).toBe(0);
+    // Modified method: highs capped at 30, lows raised to the base
+    expect(computeGrowingDegreeDays(35, 5, 10, 30)).toBe(10);
+  });
+
+  test('countChillHours counts hours between 0 and 7.2 °C', () => {
+    expect(countChillHours([-1, 0, 3.5, 7.2, 7.3, null])).toBe(3);
+  });
+
+  test('computeAgricultureIndices accumulates over the range', () => {
+    const weather = {
+      daily: {
+        time: [new Date('2023-03-01'), new Date('2023-03-02'), new Date('2023-03-03')],
+        temperature_2m_max: [20, 16, 30],
+        temperature_2m_min: [10, 4, 18],
+        precipitation_sum: [5, 0, 2],
+        et0_fao_evapotranspiration: [2, 3, null]
+      },
+      hourly: {
+        time: [new Date('2023-03-01T03:00:00Z'), new Date('2023-03-01T04:00:00Z'), new Date('2023-03-02T03:00:00Z')],
+        temperature_2m: [5, 11, 2]
+      }
+    } as unknown as SelectedWeatherData;
+
+    const indices = computeAgricultureIndices(weather, { timezone: 'UTC' }, '2023-03-01', '2023-03-02', { baseTemperature: 5 });
+
+    expect(indices.baseTemperature).toBe(5);
+    expect(indices.days.map((day) => day.date)).toEqual(['2023-03-01', '2023-03-02']);
+    expect(indices.days[0]).toMatchObject({ gdd: 10, cumulativeGdd: 10, chillHours: 1, waterBalance: 3, cumulativeWaterBalance: 3 });
+    expect(indices.days[1]).toMatchObject({ gdd: 5, cumulativeGdd: 15, chillHours: 1, waterBalance: -3, cumulativeWaterBalance: 0 });
+    expect(indices.totals).toEqual({ gdd: 15, chillHours: 2, precipitation: 5, et0: 5, waterBalance: 0 });
+  });
+
+  test('computeAgricultureIndices skips missing values', () => {
+    const weather = {
+      daily: { time: ['2023-03-03'], temperature_2m_max: [null], precipitation_sum: [2] },
+      hourly: { time: [] }
+    } as unknown as SelectedWeatherData;
+
+    const [day] = computeAgricultureIndices(weather, { timezone: 'UTC' }, '2023-03-03', '2023-03-03').days;
+
+    expect(day).toMatchObject({ gdd: null, cumulativeGdd: 0, chillHours: 0, waterBalance: null, precipitation: 2, et0: null });
+  });
+});
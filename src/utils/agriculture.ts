@@ -0,0 +1,153 @@
+/**
+ * Agricultural indices derived from fetched weather: growing degree days,
+ * chill hours and a simple precipitation minus evapotranspiration water balance.
+ * Temperatures are in °C and water amounts in mm.
+ */
+
+import { SelectedWeatherData } from '../open-meteo';
+import { Location } from '../types';
+import { AGRICULTURE } from '../constants';
+
+import { getLocalRangeValues } from './weatherUtils';
+
+/** Options for computing agricultural indices */
+export interface AgricultureOptions {
+  /** Base temperature below which no growth is counted */
+  baseTemperature?: number;
+  /** Optional upper threshold; daily highs above it are capped before averaging */
+  upperThreshold?: number | null;
+}
+
+/** Indices for one day, with running totals from the start of the range */
+export interface AgricultureDay {
+  date: string;
+  gdd: number | null;
+  cumulativeGdd: number;
+  chillHours: number;
+  precipitation: number | null;
+  et0: number | null;
+  /** Precipitation minus reference evapotranspiration */
+  waterBalance: number | null;
+  cumulativeWaterBalance: number;
+}
+
+export interface AgricultureIndices {
+  baseTemperature: number;
+  upperThreshold: number | null;
+  days: AgricultureDay[];
+  totals: {
+    gdd: number;
+    chillHours: number;
+    precipitation: number;
+    et0: number;
+    waterBalance: number;
+  };
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Growing degree days for one day using the averaging method.
+ * With an upper threshold, the high is capped and the low raised to the base first
+ * (the "modified" method used for corn).
+ * @param max - Daily maximum temperature
+ * @param min - Daily minimum temperature
+ * @param base - Base temperature
+ * @param upper - Optional upper threshold
+ * @returns Degree days, never negative
+ */
+export const computeGrowingDegreeDays = (max: number, min: number, base: number, upper?: number | null): number => {
+  const high = isFiniteNumber(upper) ? Math.min(max, upper) : max;
+  const low = isFiniteNumber(upper) ? Math.min(Math.max(min, base), high) : min;
+  return Math.max(0, (high + low) / 2 - base);
+};
+
+/**
+ * Counts hours with a temperature inside the chill range (both ends inclusive)
+ */
+export const countChillHours = (
+  temperatures: (number | null | undefined)[],
+  min: number = AGRICULTURE.CHILL_MIN_TEMPERATURE,
+  max: number = AGRICULTURE.CHILL_MAX_TEMPERATURE
+): number => {
+  return temperatures.filter((temp) => isFiniteNumber(temp) && temp >= min && temp <= max).length;
+};
+
+// Daily times arrive as YYYY-MM-DD strings from JSON, or Date objects on the server
+const toDateKey = (time: Date | string): string =>
+  typeof time === 'string' ? time.slice(0, 10) : time.toISOString().slice(0, 10);
+
+/**
+ * Computes growing degree days, chill hours and water balance for each day of a range.
+ * Needs daily temperature_2m_max/min, precipitation_sum and et0_fao_evapotranspiration,
+ * and hourly temperature_2m for chill hours; missing values are skipped.
+ * @param weather - Daily and hourly weather arrays
+ * @param location - Location whose timezone defines each local day
+ * @param startDate - First day (YYYY-MM-DD)
+ * @param endDate - Last day (YYYY-MM-DD)
+ * @param options - Base temperature and optional upper threshold
+ * @returns Per-day values with running totals, and totals for the range
+ */
+export const computeAgricultureIndices = (
+  weather: SelectedWeatherData,
+  location: Pick<Location, 'timezone'>,
+  startDate: string,
+  endDate: string,
+  options: AgricultureOptions = {}
+): AgricultureIndices => {
+  const baseTemperature = options.baseTemperature ?? AGRICULTURE.DEFAULT_BASE_TEMPERATURE;
+  const upperThreshold = options.upperThreshold ?? null;
+  const { daily } = weather;
+
+  let cumulativeGdd = 0;
+  let cumulativeWaterBalance = 0;
+  let totalChillHours = 0;
+  let totalPrecipitation = 0;
+  let totalEt0 = 0;
+
+  const days = (daily?.time ?? [])
+    .map((time: Date | string, index: number) => ({ date: toDateKey(time), index }))
+    .filter(({ date }) => date >= startDate && date <= endDate)
+    .map(({ date, index }): AgricultureDay => {
+      const max = daily.temperature_2m_max?.[index];
+      const min = daily.temperature_2m_min?.[index];
+      const precipitation = daily.precipitation_sum?.[index];
+      const et0 = daily.et0_fao_evapotranspiration?.[index];
+
+      const gdd = isFiniteNumber(max) && isFiniteNumber(min)
+        ? computeGrowingDegreeDays(max, min, baseTemperature, upperThreshold)
+        : null;
+      const waterBalance = isFiniteNumber(precipitation) && isFiniteNumber(et0) ? precipitation - et0 : null;
+      const chillHours = countChillHours(getLocalRangeValues(weather.hourly, location, date, date, 'temperature_2m').values);
+
+      cumulativeGdd += gdd ?? 0;
+      cumulativeWaterBalance += waterBalance ?? 0;
+      totalChillHours += chillHours;
+      totalPrecipitation += isFiniteNumber(precipitation) ? precipitation : 0;
+      totalEt0 += isFiniteNumber(et0) ? et0 : 0;
+
+      return {
+        date,
+        gdd,
+        cumulativeGdd,
+        chillHours,
+        precipitation: isFiniteNumber(precipitation) ? precipitation : null,
+        et0: isFiniteNumber(et0) ? et0 : null,
+        waterBalance,
+        cumulativeWaterBalance,
+      };
+    });
+
+  return {
+    baseTemperature,
+    upperThreshold,
+    days,
+    totals: {
+      gdd: cumulativeGdd,
+      chillHours: totalChillHours,
+      precipitation: totalPrecipitation,
+      et0: totalEt0,
+      waterBalance: cumulativeWaterBalance,
+    },
+  };
+};
@@ -0,0 +1,75 @@
+import {
+  computePercentile,
+  computePercentileRank,
+  summarizeVariable,
+  getClimatologyDates,
+  buildClimatology,
+  compareToNormal,
+  formatOrdinal
+} from './climatology';
+
+const sample = (year: number, max: number | null, min: number | null = 10, precip: number | null = 0) => ({
+  year,
+  date: `${year}-07-04`,
+  temperature_2m_max: max,
+  temperature_2m_min: min,
+  precipitation_sum: precip
+});
+
+describe('climatology', () => {
+  test('computePercentile interpolates between ranks', () => {
+    expect(computePercentile([1, 2, 3, 4], 50)).toBe(2.5);
+    expect(computePercentile([1, 2, 3, 4], 0)).toBe(1);
+    expect(computePercentile([1, 2, 3, 4], 100)).toBe(4);
+    expect(computePercentile([], 50)).toBeNaN();
+  });
+
+  test('computePercentileRank counts ties as half', () => {
+    expect(computePercentileRank([1, 2, 3, 4], 5)).toBe(100);
+    expect(computePercentileRank([1, 2, 3, 4], 0)).toBe(0);
+    expect(computePercentileRank([1, 2, 3, 4], 3)).toBe(62.5);
+  });
+
+  test('summarizeVariable reports mean, median and records', () => {
+    const stats = summarizeVariable([sample(2001, 30), sample(2002, 20), sample(2003, 25), sample(2004, 30)], 'temperature_2m_max');
+    expect(stats).not.toBeNull();
+    expect(stats?.count).toBe(4);
+    expect(stats?.mean).toBe(26.25);
+    expect(stats?.median).toBe(27.5);
+    expect(stats?.recordHigh).toEqual({ value: 30, year: 2001 });
+    expect(stats?.recordLow).toEqual({ value: 20, year: 2002 });
+  });
+
+  test('summarizeVariable skips missing values', () => {
+    expect(summarizeVariable([sample(2001, null)], 'temperature_2m_max')).toBeNull();
+    expect(summarizeVariable([sample(2001, null), sample(2002, 12)], 'temperature_2m_max')?.count).toBe(1);
+  });
+
+  test('getClimatologyDates counts back from the current year and handles Feb 29', () => {
+    const dates = getClimatologyDates(2, 29, 4, 2025);
+    expect(dates).toEqual([
+      { year: 2021, date: '2021-02-28' },
+      { year: 2022, date: '2022-02-28' },
+      { year: 2023, date: '2023-02-28' },
+      { year: 2024, date: '2024-02-29' }
+    ]);
+  });
+
+  test('compareToNormal returns the anomaly and percentile', () => {
+    const climatology = buildClimatology(7, 4, [sample(2001, 20), sample(2002, 22), sample(2003, 24), sample(2004, 26)]);
+    expect(climatology.years).toBe(4);
+    expect(climatology.startYear).toBe(2001);
+    expect(climatology.endYear).toBe(2004);
+
+    const comparison = compareToNormal(climatology, 'temperature_2m_max', 29);
+    expect(comparison?.anomaly).toBe(6);
+    expect(comparison?.percentile).toBe(100);
+  });
+
+  test('formatOrdinal handles teens', () => {
+    expect(formatOrdinal(1)).toBe('1st');
+    expect(formatOrdinal(92)).toBe('92nd');
+    expect(formatOrdinal(13)).toBe('13th');
+    expect(formatOrdinal(103)).toBe('103rd');
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Climatology helpers: summarize a calendar date across past years and
+ * compare an observed value against those "normal" values.
+ */
+
+import {
+  ClimatologySample,
+  ClimatologyStats,
+  ClimatologyVariable,
+  ClimatologyResponse
+} from '../types';
+
+/** Daily variables included in climatology summaries */
+export const CLIMATOLOGY_VARIABLES: ClimatologyVariable[] = [
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'precipitation_sum',
+];
+
+/**
+ * Interpolated percentile of an ascending-sorted array
+ * @param sorted - Values sorted in ascending order
+ * @param p - Percentile between 0 and 100
+ * @returns Percentile value, or NaN for an empty array
+ */
+export const computePercentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) {
+    return NaN;
+  }
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+/**
+ * Percentile rank of a value within a sample (ties count half)
+ * @param values - Sample values
+ * @param value - Value to rank
+ * @returns Rank between 0 and 100, or NaN for an empty sample
+ */
+export const computePercentileRank = (values: number[], value: number): number => {
+  if (values.length === 0) {
+    return NaN;
+  }
+  const below = values.filter((v) => v < value).length;
+  const equal = values.filter((v) => v === value).length;
+  return ((below + equal / 2) / values.length) * 100;
+};
+
+/**
+ * Summarizes one variable across the sampled years
+ * @param samples - Per-year samples
+ * @param variable - Variable to summarize
+ * @returns Statistics, or null if no year has a value
+ */
+export const summarizeVariable = (samples: ClimatologySample[], variable: ClimatologyVariable): ClimatologyStats | null => {
+  const observed = samples
+    .filter((sample) => typeof sample[variable] === 'number' && Number.isFinite(sample[variable]))
+    .map((sample) => ({ year: sample.year, value: sample[variable] as number }));
+
+  if (observed.length === 0) {
+    return null;
+  }
+
+  const sorted = observed.map((o) => o.value).sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+
+  // Earliest year wins ties so records are "set" rather than "matched"
+  const byYear = [...observed].sort((a, b) => a.year - b.year);
+  const recordHigh = byYear.reduce((best, o) => (o.value > best.value ? o : best));
+  const recordLow = byYear.reduce((best, o) => (o.value < best.value ? o : best));
+
+  return {
+    count: sorted.length,
+    mean,
+    median: computePercentile(sorted, 50),
+    percentiles: {
+      p10: computePercentile(sorted, 10),
+      p25: computePercentile(sorted, 25),
+      p75: computePercentile(sorted, 75),
+      p90: computePercentile(sorted, 90),
+    },
+    recordHigh: { value: recordHigh.value, year: recordHigh.year },
+    recordLow: { value: recordLow.value, year: recordLow.year },
+  };
+};
+
+/**
+ * Lists the YYYY-MM-DD dates to sample for a calendar day over past years.
+ * Feb 29 falls back to Feb 28 in non-leap years.
+ * @param month - Month (1-12)
+ * @param day - Day of month (1-31)
+ * @param years - Number of past years to include
+ * @param currentYear - Year to count back from (exclusive)
+ * @returns Sample dates, oldest first
+ */
+export const getClimatologyDates = (
+  month: number,
+  day: number,
+  years: number,
+  currentYear: number = new Date().getUTCFullYear()
+): { year: number; date: string }[] => {
+  const dates: { year: number; date: string }[] = [];
+  for (let year = currentYear - years; year < currentYear; year++) {
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const sampleDay = Math.min(day, daysInMonth);
+    const date = `${year}-${String(month).padStart(2, '0')}-${String(sampleDay).padStart(2, '0')}`;
+    dates.push({ year, date });
+  }
+  return dates;
+};
+
+/**
+ * Builds a climatology response from per-year samples
+ */
+export const buildClimatology = (
+  month: number,
+  day: number,
+  samples: ClimatologySample[]
+): ClimatologyResponse => {
+  const stats: ClimatologyResponse['stats'] = {};
+  for (const variable of CLIMATOLOGY_VARIABLES) {
+    const summary = summarizeVariable(samples, variable);
+    if (summary) {
+      stats[variable] = summary;
+    }
+  }
+
+  const years = samples.map((sample) => sample.year);
+  return {
+    month,
+    day,
+    years: samples.length,
+    startYear: years.length ? Math.min(...years) : 0,
+    endYear: years.length ? Math.max(...years) : 0,
+    samples,
+    stats,
+  };
+};
+
+/**
+ * Compares an observed value with the climatology of the same calendar date
+ * @returns Difference from the mean and the percentile rank, or null if unavailable
+ */
+export const compareToNormal = (
+  climatology: ClimatologyResponse,
+  variable: ClimatologyVariable,
+  value: number
+): { anomaly: number; percentile: number } | null => {
+  const stats = climatology.stats[variable];
+  if (!stats || !Number.isFinite(value)) {
+    return null;
+  }
+  const values = climatology.samples
+    .map((sample) => sample[variable])
+    .filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+
+  return {
+    anomaly: value - stats.mean,
+    percentile: computePercentileRank(values, value),
+  };
+};
+
+/**
+ * Formats a number as an English ordinal (1st, 2nd, 3rd, 92nd...)
+ */
+export const formatOrdinal = (n: number): string => {
+  const rounded = Math.round(n);
+  const mod100 = rounded % 100;
+  if (mod100 >= 11 && mod100 <= 13) {
+    return `${rounded}th`;
+  }
+  switch (rounded % 10) {
+    case 1: return `${rounded}st`;
+    case 2: return `${rounded}nd`;
+    case 3: return `${rounded}rd`;
+    default: return `${rounded}th`;
+  }
+};
@@ -0,0 +1,41 @@
+import { getGridResolution, snapCoordinates, snapToGrid } from './coordinateGrid';
+
+describe('coordinateGrid', () => {
+  test('snapToGrid rounds to the nearest grid line without floating-point noise', () => {
+    expect(snapToGrid(51.5074456)).toBe(51.5);
+    expect(snapToGrid(0.26)).toBe(0.3);
+    expect(snapToGrid(-0.1278)).toBe(-0.1);
+    expect(snapToGrid(-0.04)).toBe(0);
+  });
+
+  test('snapToGrid supports other resolutions', () => {
+    expect(snapToGrid(51.63, 0.25)).toBe(51.75);
+    expect(snapToGrid(51.5074, 0)).toBe(51.5074);
+  });
+
+  test('nearby clicks snap to the same cell', () => {
+    expect(snapCoordinates(40.7128, -74.006)).toEqual(snapCoordinates(40.7301, -73.9857));
+    expect(snapCoordinates(40.7128, -74.006)).toEqual({ latitude: 40.7, longitude: -74 });
+  });
+
+  describe('COORDINATE_GRID_RESOLUTION', () => {
+    afterEach(() => {
+      delete process.env.COORDINATE_GRID_RESOLUTION;
+    });
+
+    test('defaults to 0.1°', () => {
+      expect(getGridResolution()).toBe(0.1);
+    });
+
+    test('sets the default resolution', () => {
+      process.env.COORDINATE_GRID_RESOLUTION = '0.25';
+      expect(getGridResolution()).toBe(0.25);
+      expect(snapCoordinates(51.63, -0.1278)).toEqual({ latitude: 51.75, longitude: -0.25 });
+    });
+
+    test('rejects resolutions outside (0, 1]', () => {
+      process.env.COORDINATE_GRID_RESOLUTION = '5';
+      expect(() => getGridResolution()).toThrow();
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Snaps coordinates to a regular grid. Reanalysis data is the same anywhere inside
+ * one grid cell, so nearby map clicks share cache entries and upstream requests.
+ * The original coordinates are kept for display.
+ */
+
+import { getEnvVar } from './env';
+
+/**
+ * Grid spacing in degrees from COORDINATE_GRID_RESOLUTION (default 0.1°).
+ * The literal process.env reference is what dotenv-webpack replaces in the client bundle,
+ * so a build with the same .env snaps coordinates the same way as the server.
+ */
+export const getGridResolution = (): number =>
+  Number(getEnvVar('COORDINATE_GRID_RESOLUTION', undefined, process.env.COORDINATE_GRID_RESOLUTION));
+
+/**
+ * Rounds a coordinate to the nearest grid line
+ * @param value - Latitude or longitude in degrees
+ * @param resolution - Grid spacing in degrees
+ * @returns Snapped coordinate without floating-point noise
+ */
+export const snapToGrid = (value: number, resolution: number = getGridResolution()): number => {
+  if (!(resolution > 0)) {
+    return value;
+  }
+  // toFixed drops the noise from multiplying by a decimal step (e.g. 0.30000000000000004)
+  return Number((Math.round(value / resolution) * resolution).toFixed(6));
+};
+
+/**
+ * Snaps a latitude/longitude pair to the grid
+ * @param latitude - Latitude in degrees
+ * @param longitude - Longitude in degrees
+ * @param resolution - Grid spacing in degrees
+ * @returns Snapped coordinates
+ */
+export const snapCoordinates = (
+  latitude: number,
+  longitude: number,
+  resolution: number = getGridResolution()
+): { latitude: number; longitude: number } => ({
+  latitude: snapToGrid(latitude, resolution),
+  longitude: snapToGrid(longitude, resolution),
+});
@@ -0,0 +1,65 @@
+import { createCoordinateLocation, decodePlusCode, parseCoordinateInput } from './coordinateInput';
+
+describe('coordinateInput', () => {
+  test('parses decimal degrees in latitude, longitude order', () => {
+    expect(parseCoordinateInput('40.7128, -74.0060')).toEqual({ latitude: 40.7128, longitude: -74.006 });
+    expect(parseCoordinateInput('  -33.8688 151.2093 ')).toEqual({ latitude: -33.8688, longitude: 151.2093 });
+    expect(parseCoordinateInput('51.5;-0.1')).toEqual({ latitude: 51.5, longitude: -0.1 });
+  });
+
+  test('uses hemisphere letters for sign and order', () => {
+    expect(parseCoordinateInput('40.7128N 74.0060W')).toEqual({ latitude: 40.7128, longitude: -74.006 });
+    expect(parseCoordinateInput('N 40.7128, W 74.0060')).toEqual({ latitude: 40.7128, longitude: -74.006 });
+    expect(parseCoordinateInput('74.0060W 40.7128N')).toEqual({ latitude: 40.7128, longitude: -74.006 });
+    expect(parseCoordinateInput('33.8688 s 151.2093 e')).toEqual({ latitude: -33.8688, longitude: 151.2093 });
+  });
+
+  test('parses degrees, minutes and seconds', () => {
+    const expected = { latitude: 40 + 42 / 60 + 46 / 3600, longitude: -(74 + 22 / 3600) };
+    expect(parseCoordinateInput(`40°42'46"N 74°0'22"W`)).toEqual(expected);
+    expect(parseCoordinateInput('40° 42′ 46″ N, 74° 0′ 22″ W')).toEqual(expected);
+    expect(parseCoordinateInput(`40°42.5'N 74°W`)).toEqual({ latitude: 40 + 42.5 / 60, longitude: -74 });
+  });
+
+  test('decodes full plus codes to the center of their area', () => {
+    const zurich = decodePlusCode('8FVC9G8F+6X');
+    expect(zurich?.latitude).toBeCloseTo(47.36556, 5);
+    expect(zurich?.longitude).toBeCloseTo(8.52494, 5);
+
+    expect(parseCoordinateInput('87g7px7v+4h')).toEqual(decodePlusCode('87G7PX7V+4H'));
+    expect(decodePlusCode('87G70000+')).toEqual({ latitude: 40.5, longitude: -74.5 });
+  });
+
+  test('rejects invalid plus codes', () => {
+    expect(decodePlusCode('8FVC9G8F+6')).toBeNull();
+    expect(decodePlusCode('XFVC9G8F+6X')).toBeNull();
+    expect(decodePlusCode('8FVC9G8F6X')).toBeNull();
+    expect(decodePlusCode('9G8F+6X')).toBeNull();
+  });
+
+  test('leaves place names and out-of-range values to the name search', () => {
+    expect(parseCoordinateInput('New York')).toBeNull();
+    expect(parseCoordinateInput('10001')).toBeNull();
+    expect(parseCoordinateInput('91, 10')).toBeNull();
+    expect(parseCoordinateInput('40, 181')).toBeNull();
+    expect(parseCoordinateInput('40N 50N')).toBeNull();
+    expect(parseCoordinateInput(`40°61'N 74°W`)).toBeNull();
+  });
+
+  test('leaves two bare numbers to the name search', () => {
+    expect(parseCoordinateInput('12 34')).toBeNull();
+    expect(parseCoordinateInput('2024 5')).toBeNull();
+    expect(parseCoordinateInput('12, 34')).toEqual({ latitude: 12, longitude: 34 });
+    expect(parseCoordinateInput('12.0 34')).toEqual({ latitude: 12, longitude: 34 });
+    expect(parseCoordinateInput('12N 34E')).toEqual({ latitude: 12, longitude: 34 });
+  });
+
+  test('names fallback locations after their coordinates', () => {
+    expect(createCoordinateLocation(40.7128, -74.006)).toMatchObject({
+      name: 'Location (40.7128, -74.0060)',
+      latitude: 40.7128,
+      longitude: -74.006,
+      timezone: 'UTC',
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Recognizes coordinates typed or pasted into the location search: decimal degrees
+ * ("40.7128, -74.0060"), degrees/minutes/seconds (40°42'46"N 74°0'22"W) and
+ * full Open Location Codes ("87G7PX7V+4H"). Short plus codes need a reference
+ * place and are left to the name search.
+ */
+
+import { Location } from '../types';
+import { GEO_BOUNDS } from '../constants';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// eslint-disable-next-line no-secrets/no-secrets -- the Open Location Code digit alphabet, not a secret
+const PLUS_CODE_ALPHABET = '23456789CFGHJMPQRVWX';
+const PLUS_CODE_SEPARATOR_POSITION = 8;
+const PLUS_CODE_PAIR_LENGTH = 10;
+// Degrees covered by each digit pair, coarsest first
+const PLUS_CODE_PAIR_RESOLUTIONS = [20, 1, 0.05, 0.0025, 0.000125];
+const PLUS_CODE_GRID_ROWS = 5;
+const PLUS_CODE_GRID_COLUMNS = 4;
+
+const PLUS_CODE_DIGIT = `[${PLUS_CODE_ALPHABET}]`;
+const FULL_PLUS_CODE = new RegExp(String.raw`^${PLUS_CODE_DIGIT}{8}\+${PLUS_CODE_DIGIT}{0,7}$`);
+// Codes for larger areas are padded with zeros up to the separator, e.g. "87G70000+"
+const PADDED_PLUS_CODE = new RegExp(String.raw`^(?:${PLUS_CODE_DIGIT}{2}){1,3}0+\+$`);
+
+// Degrees, then minutes and seconds once a degree sign is used
+const ANGLE = String.raw`([+-]?\d{1,3}(?:\.\d+)?)\s*(?:°\s*(?:(\d{1,2}(?:\.\d+)?)\s*'\s*)?(?:(\d{1,2}(?:\.\d+)?)\s*"\s*)?)?`;
+// Hemispheres are written either before both angles ("N 40.7 W 74.0") or after them ("40.7N 74.0W")
+const PREFIXED_PAIR = new RegExp(String.raw`^([NSEW])\s*${ANGLE}\s*[,;]?\s*([NSEW])\s*${ANGLE}$`, 'i');
+// Two bare numbers ("12 34", "2024 5") are left to the name search; coordinates need one of these
+const COORDINATE_MARKER = /[,;.°'"NSEW]/i;
+const SUFFIXED_PAIR = new RegExp(String.raw`^${ANGLE}\s*([NSEW])?\s*[,;]?\s*${ANGLE}\s*([NSEW])?$`, 'i');
+
+// Typographic marks that keyboards and map apps use in DMS strings
+const normalizeMarks = (input: string): string => input
+  .trim()
+  .replace(/[º˚]/g, '°')
+  .replace(/[′’‘]/g, "'")
+  .replace(/[″”“]|''/g, '"');
+
+interface ParsedPart {
+  value: number;
+  axis: 'latitude' | 'longitude' | null;
+}
+
+const parsePart = (degrees: string, minutes = '0', seconds = '0', hemisphereLetter?: string): ParsedPart | null => {
+  if (Number(minutes) >= 60 || Number(seconds) >= 60) {
+    return null;
+  }
+
+  const hemisphere = hemisphereLetter?.toUpperCase();
+  const magnitude = Math.abs(Number(degrees)) + Number(minutes) / 60 + Number(seconds) / 3600;
+  const isNegative = degrees.startsWith('-') || hemisphere === 'S' || hemisphere === 'W';
+  let axis: ParsedPart['axis'] = null;
+  if (hemisphere === 'N' || hemisphere === 'S') {
+    axis = 'latitude';
+  } else if (hemisphere === 'E' || hemisphere === 'W') {
+    axis = 'longitude';
+  }
+  return { value: isNegative ? -magnitude : magnitude, axis };
+};
+
+const inBounds = ({ latitude, longitude }: Coordinates): boolean =>
+  latitude >= GEO_BOUNDS.MIN_LATITUDE && latitude <= GEO_BOUNDS.MAX_LATITUDE
+  && longitude >= GEO_BOUNDS.MIN_LONGITUDE && longitude <= GEO_BOUNDS.MAX_LONGITUDE;
+
+/**
+ * Decodes a full Open Location Code to the center of its area
+ * @param input - Code such as "87G7PX7V+4H" or the padded "87G70000+"
+ * @returns Center coordinates, or null when the input is not a valid full code
+ */
+export const decodePlusCode = (input: string): Coordinates | null => {
+  const code = input.trim().toUpperCase();
+  if (!FULL_PLUS_CODE.test(code) && !PADDED_PLUS_CODE.test(code)) {
+    return null;
+  }
+
+  const digits = code.replace('+', '').replace(/0+$/, '');
+  // The first pair can only cover 180° of latitude and 360° of longitude
+  const [firstResolution] = PLUS_CODE_PAIR_RESOLUTIONS;
+  if (PLUS_CODE_ALPHABET.indexOf(digits[0]) * firstResolution >= 180 || PLUS_CODE_ALPHABET.indexOf(digits[1]) * firstResolution >= 360) {
+    return null;
+  }
+  // A single digit after the separator is not a valid code
+  if (code.indexOf('+') === PLUS_CODE_SEPARATOR_POSITION && digits.length === PLUS_CODE_SEPARATOR_POSITION + 1) {
+    return null;
+  }
+
+  let south = -90;
+  let west = -180;
+  let latitudeSize = 0;
+  let longitudeSize = 0;
+  const pairLength = Math.min(digits.length, PLUS_CODE_PAIR_LENGTH);
+  for (let i = 0; i < pairLength; i += 2) {
+    const resolution = PLUS_CODE_PAIR_RESOLUTIONS[i / 2];
+    south += PLUS_CODE_ALPHABET.indexOf(digits[i]) * resolution;
+    west += PLUS_CODE_ALPHABET.indexOf(digits[i + 1]) * resolution;
+    latitudeSize = resolution;
+    longitudeSize = resolution;
+  }
+  // Digits past the tenth refine a 5×4 grid within the last cell
+  for (const digit of digits.slice(PLUS_CODE_PAIR_LENGTH)) {
+    const index = PLUS_CODE_ALPHABET.indexOf(digit);
+    latitudeSize /= PLUS_CODE_GRID_ROWS;
+    longitudeSize /= PLUS_CODE_GRID_COLUMNS;
+    south += Math.floor(index / PLUS_CODE_GRID_COLUMNS) * latitudeSize;
+    west += (index % PLUS_CODE_GRID_COLUMNS) * longitudeSize;
+  }
+
+  return {
+    latitude: Math.min(south + latitudeSize / 2, GEO_BOUNDS.MAX_LATITUDE),
+    longitude: west + longitudeSize / 2,
+  };
+};
+
+/**
+ * Parses search input that names a point instead of a place
+ * @param input - Search box text
+ * @returns Coordinates, or null when the input should be searched by name
+ */
+export const parseCoordinateInput = (input: string): Coordinates | null => {
+  const normalized = normalizeMarks(input);
+  if (normalized.includes('+')) {
+    const plusCode = decodePlusCode(normalized);
+    if (plusCode) {
+      return plusCode;
+    }
+  }
+
+  if (!COORDINATE_MARKER.test(normalized)) {
+    return null;
+  }
+
+  let first: ParsedPart | null;
+  let second: ParsedPart | null;
+  const prefixed = PREFIXED_PAIR.exec(normalized);
+  const suffixed = prefixed ? null : SUFFIXED_PAIR.exec(normalized);
+  if (prefixed) {
+    const [, firstHemisphere, firstDegrees, firstMinutes, firstSeconds, secondHemisphere, secondDegrees, secondMinutes, secondSeconds] = prefixed;
+    first = parsePart(firstDegrees, firstMinutes, firstSeconds, firstHemisphere);
+    second = parsePart(secondDegrees, secondMinutes, secondSeconds, secondHemisphere);
+  } else if (suffixed) {
+    const [, firstDegrees, firstMinutes, firstSeconds, firstHemisphere, secondDegrees, secondMinutes, secondSeconds, secondHemisphere] = suffixed;
+    first = parsePart(firstDegrees, firstMinutes, firstSeconds, firstHemisphere);
+    second = parsePart(secondDegrees, secondMinutes, secondSeconds, secondHemisphere);
+  } else {
+    return null;
+  }
+  if (!first || !second || (first.axis && first.axis === second.axis)) {
+    return null;
+  }
+
+  // Without hemispheres the usual latitude-first order applies; with them either order works
+  const isSwapped = first.axis === 'longitude' || second.axis === 'latitude';
+  const coordinates = isSwapped
+    ? { latitude: second.value, longitude: first.value }
+    : { latitude: first.value, longitude: second.value };
+  return inBounds(coordinates) ? coordinates : null;
+};
+
+/**
+ * Builds a location for a point with no known place name, as used when reverse geocoding fails
+ * @param latitude - Latitude in degrees
+ * @param longitude - Longitude in degrees
+ * @returns Location named after its coordinates
+ */
+export const createCoordinateLocation = (latitude: number, longitude: number): Location => ({
+  id: 0,
+  name: `Location (${latitude.toFixed(4)}, ${longitude.toFixed(4)})`,
+  latitude,
+  longitude,
+  elevation: 0,
+  feature_code: 'PPL',
+  country_code: 'XX',
+  timezone: 'UTC',
+  country: 'Unknown'
+});
@@ -1,4 +1,14 @@
-import { isValidDateString, parseDateString } from './dateUtils';
+import {
+  isValidDateString,
+  parseDateString,
+  addDaysToDateString,
+  getDateRangeLength,
+  getDatesInRange,
+  getPresetDateRange,
+  isArchiveSettled,
+  shiftDateRangeToYear,
+  filterYearsWithPastRange
+} from './dateUtils';
 
 describe('dateUtils - isValidDateString', () => {
   test('accepts valid YYYY-MM-DD', () => {
@@ -20,3 +30,51 @@ describe('dateUtils - isValidDateString', () => {
     }
   });
 });
+
+describe('dateUtils - date ranges', () => {
+  test('addDaysToDateString shifts across month boundaries', () => {
+    expect(addDaysToDateString('2024-02-28', 2)).toBe('2024-03-01');
+    expect(addDaysToDateString('2024-01-01', -1)).toBe('2023-12-31');
+    expect(addDaysToDateString('not-a-date', 1)).toBeNull();
+  });
+
+  test('getDateRangeLength counts both ends of the range', () => {
+    expect(getDateRangeLength('2024-01-01', '2024-01-01')).toBe(1);
+    expect(getDateRangeLength('2024-01-01', '2024-01-07')).toBe(7);
+    expect(getDateRangeLength('2024-01-07', '2024-01-01')).toBe(0);
+  });
+
+  test('getDatesInRange lists every day including both ends', () => {
+    expect(getDatesInRange('2024-02-27', '2024-03-01')).toEqual(['2024-02-27', '2024-02-28', '2024-02-29', '2024-03-01']);
+    expect(getDatesInRange('2024-01-07', '2024-01-01')).toEqual([]);
+    expect(getDatesInRange('bad', '2024-01-01')).toEqual([]);
+  });
+
+  test('getPresetDateRange ends today and covers the requested days', () => {
+    const { start, end } = getPresetDateRange(30);
+    expect(getDateRangeLength(start, end)).toBe(30);
+  });
+
+  test('isArchiveSettled is true only for dates well before today', () => {
+    const { start: weekAgo } = getPresetDateRange(8);
+    expect(isArchiveSettled('2020-01-01')).toBe(true);
+    expect(isArchiveSettled(addDaysToDateString(weekAgo, -1) as string)).toBe(true);
+    expect(isArchiveSettled(weekAgo)).toBe(false);
+    expect(isArchiveSettled(getPresetDateRange(1).end)).toBe(false);
+  });
+
+  test('shiftDateRangeToYear keeps calendar dates and falls back from Feb 29', () => {
+    expect(shiftDateRangeToYear('2024-06-15', '2024-06-20', 2015)).toEqual({ start: '2015-06-15', end: '2015-06-20' });
+    expect(shiftDateRangeToYear('2024-02-29', '2024-03-01', 2023)).toEqual({ start: '2023-02-28', end: '2023-03-01' });
+    expect(shiftDateRangeToYear('2023-12-30', '2024-01-02', 2020)).toEqual({ start: '2020-12-30', end: '2021-01-02' });
+    expect(shiftDateRangeToYear('bad', '2024-01-02', 2020)).toBeNull();
+  });
+
+  test('filterYearsWithPastRange drops years whose shifted range ends in the future', () => {
+    const thisYear = new Date().getUTCFullYear();
+    // A range crossing New Year ends in the following year
+    expect(filterYearsWithPastRange(`${thisYear - 1}-12-30`, `${thisYear}-01-02`, [thisYear, thisYear - 1, thisYear - 2]))
+      .toEqual([thisYear - 1, thisYear - 2]);
+    expect(filterYearsWithPastRange('bad', '2024-01-02', [2020])).toEqual([]);
+  });
+});
@@ -15,6 +15,8 @@ import {
 } from 'date-fns';
 import { formatInTimeZone as formatInTimeZoneTz } from 'date-fns-tz';
 
+import { ARCHIVE_SETTLED_AFTER_DAYS } from '../constants';
+
 import { getEnvVar } from './env';
 
 // Toggle verbose debug logging via environment variable. Disabled by default to keep tests quiet.
@@ -475,4 +477,123 @@ export const formatDateForInput = (date: Date): string => {
  */
 export const getMonthName = (date: Date): string => {
   return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-};
\ No newline at end of file
+};
+/**
+ * Shift a YYYY-MM-DD date string by a number of days
+ * @param dateStr - Date string in YYYY-MM-DD format
+ * @param days - Number of days to add (negative to subtract)
+ * @returns Shifted date string in YYYY-MM-DD format, or null if invalid
+ */
+export const addDaysToDateString = (dateStr: string, days: number): string | null => {
+  const parsed = parseDateString(dateStr);
+  if (!parsed) {
+    return null;
+  }
+  return formatDateForInput(addDays(parsed, days));
+};
+
+/**
+ * Count the days covered by an inclusive date range
+ * @param start - Start date string (YYYY-MM-DD)
+ * @param end - End date string (YYYY-MM-DD)
+ * @returns Number of days in the range, or 0 if invalid
+ */
+export const getDateRangeLength = (start: string, end: string): number => {
+  const startDate = parseDateString(start);
+  const endDate = parseDateString(end);
+  if (!startDate || !endDate || startDate > endDate) {
+    return 0;
+  }
+  return differenceInDays(endDate, startDate) + 1;
+};
+
+/**
+ * List every date in an inclusive date range
+ * @param start - Start date string (YYYY-MM-DD)
+ * @param end - End date string (YYYY-MM-DD)
+ * @returns Date strings in YYYY-MM-DD format, or an empty list if invalid
+ */
+export const getDatesInRange = (start: string, end: string): string[] => {
+  const startDate = parseDateString(start);
+  const length = getDateRangeLength(start, end);
+  if (!startDate) {
+    return [];
+  }
+  return Array.from({ length }, (_, i) => formatDateForInput(addDays(startDate, i)));
+};
+
+/**
+ * Move an inclusive date range to the same calendar dates in another year.
+ * Feb 29 falls back to Feb 28 when the target year is not a leap year.
+ * @param start - Start date string (YYYY-MM-DD)
+ * @param end - End date string (YYYY-MM-DD)
+ * @param year - Year the shifted range should start in
+ * @returns Shifted start and end date strings, or null if either date is invalid
+ */
+export const shiftDateRangeToYear = (start: string, end: string, year: number): { start: string; end: string } | null => {
+  if (!parseDateString(start) || !parseDateString(end)) {
+    return null;
+  }
+  const offset = year - Number(start.slice(0, 4));
+  const shift = (dateStr: string): string => {
+    const [y, m, d] = dateStr.split('-').map(Number);
+    const targetYear = y + offset;
+    const daysInMonth = new Date(Date.UTC(targetYear, m, 0)).getUTCDate();
+    return formatDateForInput(new Date(Date.UTC(targetYear, m - 1, Math.min(d, daysInMonth))));
+  };
+  return { start: shift(start), end: shift(end) };
+};
+
+/**
+ * Keep the comparison years whose shifted copy of the range has already ended,
+ * so a later base range does not ask the archive for future dates
+ * @param start - Start date string (YYYY-MM-DD)
+ * @param end - End date string (YYYY-MM-DD)
+ * @param years - Years to compare against the range
+ * @returns The years whose shifted range ends today or earlier
+ */
+export const filterYearsWithPastRange = (start: string, end: string, years: number[]): number[] => {
+  const today = getCurrentDateString();
+  return years.filter((year) => {
+    const shifted = shiftDateRangeToYear(start, end, year);
+    return shifted !== null && shifted.end <= today;
+  });
+};
+
+/**
+ * Build a range ending today that covers the given number of days
+ * @param days - Number of days in the range (including today)
+ * @returns Start and end date strings in YYYY-MM-DD format
+ */
+export const getPresetDateRange = (days: number): { start: string; end: string } => {
+  const end = getCurrentDateString();
+  const start = addDaysToDateString(end, -(Math.max(days, 1) - 1)) ?? end;
+  return { start, end };
+};
+
+/**
+ * Check whether archive data for a date is final, i.e. the date is old enough
+ * that the reanalysis will not revise it anymore
+ * @param dateStr - Date string in YYYY-MM-DD format
+ * @returns True if the date is settled
+ */
+export const isArchiveSettled = (dateStr: string): boolean => {
+  const settledBefore = addDaysToDateString(getCurrentDateString(), -ARCHIVE_SETTLED_AFTER_DAYS);
+  return settledBefore !== null && dateStr < settledBefore;
+};
+
+/**
+ * Format a date in a timezone with a date-fns pattern
+ * @param time - ISO time string
+ * @param timezone - IANA timezone identifier
+ * @param pattern - date-fns format pattern (defaults to "MMM d")
+ * @returns Formatted date string
+ */
+export const formatDateInTimezone = (time: string, timezone: string, pattern: string = 'MMM d'): string => {
+  try {
+    const date = new Date(time);
+    return formatInTimeZoneTz(date, timezone, pattern);
+  } catch {
+    return '';
+  }
+};
@@ -84,6 +84,22 @@ const defaultEnvVars = {
     },
     defaultValue: 'http://localhost:3001/api',
     description: 'Base URL for API requests'
+  },
+  CACHE_DIR: {
+    required: false,
+    validator: (value: string) => value.trim().length > 0,
+    defaultValue: '.cache/server',
+    description: 'Directory for the persistent server cache, or "off" to keep it in memory only'
+  },
+  COORDINATE_GRID_RESOLUTION: {
+    required: false,
+    validator: (value: string) => {
+      const resolution = Number(value);
+      return Number.isFinite(resolution) && resolution > 0 && resolution <= 1;
+    },
+    // ~11 km; Open-Meteo's reanalysis grids are ~9–25 km
+    defaultValue: '0.1',
+    description: 'Grid spacing in degrees that coordinates are snapped to for weather requests and cache keys (0-1]'
   }
 };
 
@@ -95,11 +111,11 @@ const defaultEnvVars = {
   * Validates and retrieves an environment variable
   * @param name - The name of the environment variable
   * @param config - Configuration for the environment variable
+  * @param value - Raw value, for client code that must read a literal process.env.NAME so the bundler inlines it
   * @returns The validated environment variable value
   * @throws ConfigurationError if the variable is required but missing or invalid
   */
-export function getEnvVar(name: string, config?: EnvVarConfig): string | undefined {
-  const value = process.env[name];
+export function getEnvVar(name: string, config?: EnvVarConfig, value: string | undefined = process.env[name]): string | undefined {
   const varConfig = config || defaultEnvVars[name as keyof typeof defaultEnvVars] || { required: false };
   
   // Check if required
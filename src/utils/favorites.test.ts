@@ -0,0 +1,95 @@
+import { FAVORITES } from '../constants';
+
+import {
+  addFavorite,
+  isFavorite,
+  moveFavorite,
+  parseFavorites,
+  removeFavorite,
+  renameFavorite,
+  serializeFavorites,
+} from './favorites';
+
+const makeLocation = (name: string, latitude: number, longitude: number) => ({
+  id: 0,
+  name,
+  latitude,
+  longitude,
+  elevation: 0,
+  feature_code: 'PPL',
+  country_code: 'US',
+  timezone: 'America/New_York',
+  country: 'United States'
+});
+
+describe('favorites', () => {
+  const newYork = makeLocation('New York', 40.7128, -74.006);
+  const boston = makeLocation('Boston', 42.3601, -71.0589);
+  const chicago = makeLocation('Chicago', 41.85, -87.65);
+
+  test('adds a location once, labelled with its name', () => {
+    const favorites = addFavorite(addFavorite([], newYork), newYork);
+
+    expect(favorites).toEqual([{ label: 'New York', location: newYork }]);
+    expect(isFavorite(favorites, { ...newYork, name: 'NYC' })).toBe(true);
+    expect(isFavorite(favorites, boston)).toBe(false);
+  });
+
+  test('stops adding when the list is full', () => {
+    const full = Array.from({ length: FAVORITES.MAX_LOCATIONS }, (_, i) => ({ label: `Place ${i}`, location: makeLocation(`Place ${i}`, i, i) }));
+    expect(addFavorite(full, boston)).toBe(full);
+  });
+
+  test('renames and removes favorites', () => {
+    const favorites = [newYork, boston].reduce(addFavorite, []);
+
+    expect(renameFavorite(favorites, boston, '  Home  ')[1].label).toBe('Home');
+    expect(renameFavorite(favorites, boston, '   ')[1].label).toBe('Boston');
+    expect(removeFavorite(favorites, newYork).map((favorite) => favorite.label)).toEqual(['Boston']);
+  });
+
+  test('moves favorites within the list', () => {
+    const favorites = [newYork, boston, chicago].reduce(addFavorite, []);
+    const labels = (list: typeof favorites) => list.map((favorite) => favorite.label);
+
+    expect(labels(moveFavorite(favorites, chicago, -1))).toEqual(['New York', 'Chicago', 'Boston']);
+    expect(labels(moveFavorite(favorites, newYork, 1))).toEqual(['Boston', 'New York', 'Chicago']);
+    expect(moveFavorite(favorites, newYork, -1)).toBe(favorites);
+    expect(moveFavorite(favorites, makeLocation('Elsewhere', 0, 0), 1)).toBe(favorites);
+  });
+
+  test('round-trips through storage', () => {
+    const favorites = renameFavorite([newYork, boston].reduce(addFavorite, []), newYork, 'Office');
+    expect(parseFavorites(serializeFavorites(favorites))).toEqual(favorites);
+  });
+
+  test('drops invalid and duplicate stored entries', () => {
+    const stored = JSON.stringify([
+      { label: 'Office', location: newYork },
+      { label: 'Again', location: newYork },
+      { label: '', location: boston },
+      { label: 'Nowhere', location: { ...chicago, latitude: 200 } },
+      'Chicago',
+    ]);
+
+    expect(parseFavorites(stored)).toEqual([{ label: 'Office', location: newYork }]);
+    expect(parseFavorites('not json')).toEqual([]);
+    expect(parseFavorites(null)).toEqual([]);
+  });
+
+  test('fills in location fields missing from older saves', () => {
+    const stored = JSON.stringify([{ label: 'Pin', location: { name: 'Pin', latitude: 1, longitude: 2, timezone: 'UTC' } }]);
+
+    expect(parseFavorites(stored)[0].location).toEqual({
+      id: 0,
+      name: 'Pin',
+      latitude: 1,
+      longitude: 2,
+      elevation: 0,
+      feature_code: 'PPL',
+      country_code: 'XX',
+      timezone: 'UTC',
+      country: 'Unknown'
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Saved locations ("favorites") kept in localStorage. Each favorite keeps the full
+ * location it was saved from plus a label the user can rename, in the user's order.
+ */
+
+import { z } from 'zod';
+
+import { FavoriteLocation, Location } from '../types';
+import { FAVORITES } from '../constants';
+import { StoredLocationSchema } from '../schemas/locationSchema';
+
+import { isSameLocation } from './weatherUtils';
+
+const FavoriteSchema = z.object({
+  label: z.string().trim().min(1).max(FAVORITES.MAX_LABEL_LENGTH),
+  location: StoredLocationSchema,
+});
+
+export const isFavorite = (favorites: FavoriteLocation[], location: Location): boolean =>
+  favorites.some((favorite) => isSameLocation(favorite.location, location));
+
+/**
+ * Reads favorites saved by serializeFavorites. Entries that no longer validate are
+ * dropped, so one bad entry does not lose the others.
+ * @param stored - Saved JSON, or null when nothing was saved yet
+ * @returns Valid favorites in saved order
+ */
+export const parseFavorites = (stored: string | null | undefined): FavoriteLocation[] => {
+  let parsed: unknown = null;
+  try {
+    parsed = stored ? JSON.parse(stored) : null;
+  } catch {
+    parsed = null;
+  }
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  const favorites: FavoriteLocation[] = [];
+  for (const entry of parsed) {
+    const result = FavoriteSchema.safeParse(entry);
+    if (!result.success) {
+      continue;
+    }
+    const favorite: FavoriteLocation = result.data;
+    if (!isFavorite(favorites, favorite.location)) {
+      favorites.push(favorite);
+    }
+  }
+  return favorites.slice(0, FAVORITES.MAX_LOCATIONS);
+};
+
+export const serializeFavorites = (favorites: FavoriteLocation[]): string => JSON.stringify(favorites);
+
+/**
+ * Saves a location at the end of the list, labelled with its name
+ * @returns The same list when the location is already saved or the list is full
+ */
+export const addFavorite = (favorites: FavoriteLocation[], location: Location): FavoriteLocation[] => {
+  if (favorites.length >= FAVORITES.MAX_LOCATIONS || isFavorite(favorites, location)) {
+    return favorites;
+  }
+  return [...favorites, { label: location.name.slice(0, FAVORITES.MAX_LABEL_LENGTH), location }];
+};
+
+export const removeFavorite = (favorites: FavoriteLocation[], location: Location): FavoriteLocation[] =>
+  favorites.filter((favorite) => !isSameLocation(favorite.location, location));
+
+/**
+ * Changes a favorite's label; blank labels fall back to the location name
+ */
+export const renameFavorite = (favorites: FavoriteLocation[], location: Location, label: string): FavoriteLocation[] => {
+  const trimmed = label.trim().slice(0, FAVORITES.MAX_LABEL_LENGTH);
+  return favorites.map((favorite) => (isSameLocation(favorite.location, location)
+    ? { ...favorite, label: trimmed || favorite.location.name.slice(0, FAVORITES.MAX_LABEL_LENGTH) }
+    : favorite));
+};
+
+/**
+ * Moves a favorite by offset places (-1 is one place earlier), stopping at either end
+ */
+export const moveFavorite = (favorites: FavoriteLocation[], location: Location, offset: number): FavoriteLocation[] => {
+  const from = favorites.findIndex((favorite) => isSameLocation(favorite.location, location));
+  const to = Math.min(Math.max(from + offset, 0), favorites.length - 1);
+  if (from === -1 || from === to) {
+    return favorites;
+  }
+  const reordered = [...favorites];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered;
+};
@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { FileCacheStore } from './fileCacheStore';
+import { SimpleCacheManager } from './simpleCacheManager';
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'weather-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('saves entries and loads them back with dates revived', async () => {
+    const store = new FileCacheStore<{ time: Date[]; sunrise: string[] }>(directory);
+    const time = [new Date('2023-06-15T00:00:00.000Z')];
+    store.save('weather:1:2', { data: { time, sunrise: ['2023-06-15T05:25'] }, expiry: 1_000 });
+    await store.flush();
+
+    const loaded = await new FileCacheStore<{ time: Date[]; sunrise: string[] }>(directory).load();
+
+    expect(loaded).toHaveLength(1);
+    const [key, item] = loaded[0];
+    expect(key).toBe('weather:1:2');
+    expect(item.expiry).toBe(1_000);
+    expect(item.data.time[0]).toBeInstanceOf(Date);
+    expect(item.data.time[0].getTime()).toBe(time[0].getTime());
+    expect(item.data.sunrise).toEqual(['2023-06-15T05:25']);
+  });
+
+  test('replaces, removes and clears entries', async () => {
+    const store = new FileCacheStore<number>(directory);
+    store.save('a', { data: 1, expiry: 1_000 });
+    store.save('a', { data: 2, expiry: 1_000 });
+    store.save('b', { data: 3, expiry: 1_000 });
+    store.remove('b');
+
+    expect(await store.load()).toEqual([['a', { data: 2, expiry: 1_000 }]]);
+
+    store.clear();
+    expect(await store.load()).toEqual([]);
+  });
+
+  test('loads entries spread over several read batches', async () => {
+    const store = new FileCacheStore<number>(directory);
+    for (let i = 0; i < 150; i++) {
+      store.save(`key-${i}`, { data: i, expiry: 1_000 });
+    }
+    await store.flush();
+
+    const loaded = await new FileCacheStore<number>(directory).load();
+    expect(loaded).toHaveLength(150);
+    expect(new Map(loaded).get('key-149')).toEqual({ data: 149, expiry: 1_000 });
+  });
+
+  test('returns nothing when the directory does not exist yet', async () => {
+    const store = new FileCacheStore<number>(path.join(directory, 'missing'));
+    expect(await store.load()).toEqual([]);
+  });
+
+  test('discards unreadable entry files', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await fs.writeFile(path.join(directory, 'broken.json'), '{"key":', 'utf8');
+    await fs.writeFile(path.join(directory, 'partial.json.tmp'), '{}', 'utf8');
+
+    expect(await new FileCacheStore<number>(directory).load()).toEqual([]);
+    expect(await fs.readdir(directory)).toEqual([]);
+    warn.mockRestore();
+  });
+
+  test('restores unexpired entries into a new cache manager', async () => {
+    const cache = new SimpleCacheManager<string>(60_000, { store: new FileCacheStore<string>(directory) });
+    cache.set('fresh', 'kept');
+    cache.set('stale', 'dropped', -1);
+    await cache.flush();
+
+    const restarted = new SimpleCacheManager<string>(60_000, { store: new FileCacheStore<string>(directory) });
+    expect(await restarted.restore()).toBe(1);
+    expect(restarted.get('fresh')).toBe('kept');
+    expect(restarted.has('stale')).toBe(false);
+
+    await restarted.flush();
+    expect(await fs.readdir(directory)).toHaveLength(1);
+  });
+});
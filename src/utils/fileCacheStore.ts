@@ -0,0 +1,153 @@
+/**
+ * File-backed cache store for the server. Each entry is one JSON file in a directory,
+ * so a restart (or nodemon reload) can reload cached responses instead of fetching them again.
+ * Uses Node's fs and is not meant for the browser bundle.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { CacheItem, CacheStore } from './simpleCacheManager';
+
+interface StoredEntry<T> extends CacheItem<T> {
+  key: string;
+}
+
+const ENTRY_EXTENSION = '.json';
+const TEMP_EXTENSION = '.tmp';
+// Files read at once when loading; enough to overlap disk latency without exhausting file handles
+const LOAD_BATCH_SIZE = 64;
+
+// JSON turns Date objects into ISO timestamps; weather times must come back as Dates
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+const reviveDates = (_key: string, value: unknown): unknown =>
+  typeof value === 'string' && ISO_TIMESTAMP.test(value) ? new Date(value) : value;
+
+const isStoredEntry = <T>(value: unknown): value is StoredEntry<T> => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const entry = value as Partial<StoredEntry<T>>;
+  return typeof entry.key === 'string' && typeof entry.expiry === 'number' && 'data' in entry;
+};
+
+const isMissing = (error: unknown): boolean => (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+export class FileCacheStore<T> implements CacheStore<T> {
+  private directory: string;
+  // Writes run one after another so a clear never races a save
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a file-backed store
+   * @param directory Directory for the entry files; created on first write
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private fileFor(key: string): string {
+    const name = createHash('sha256').update(key).digest('hex');
+    return path.join(this.directory, `${name}${ENTRY_EXTENSION}`);
+  }
+
+  private enqueue(description: string, task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch((error) => {
+      console.warn(`Cache store could not ${description}:`, error);
+    });
+  }
+
+  /**
+   * Reads every entry file; unreadable files and leftover temp files are removed
+   * @returns Persisted entries, including expired ones
+   */
+  async load(): Promise<[string, CacheItem<T>][]> {
+    await this.flush();
+
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error) {
+      if (isMissing(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    await Promise.all(
+      names
+        .filter((name) => name.endsWith(TEMP_EXTENSION))
+        .map((name) => fs.rm(path.join(this.directory, name), { force: true }))
+    );
+
+    const entryNames = names.filter((name) => name.endsWith(ENTRY_EXTENSION));
+    const entries: [string, CacheItem<T>][] = [];
+    for (let i = 0; i < entryNames.length; i += LOAD_BATCH_SIZE) {
+      const batch = await Promise.all(entryNames.slice(i, i + LOAD_BATCH_SIZE).map((name) => this.readEntry(name)));
+      for (const entry of batch) {
+        if (entry) {
+          entries.push(entry);
+        }
+      }
+    }
+    return entries;
+  }
+
+  private async readEntry(name: string): Promise<[string, CacheItem<T>] | null> {
+    const file = path.join(this.directory, name);
+    try {
+      const parsed: unknown = JSON.parse(await fs.readFile(file, 'utf8'), reviveDates);
+      if (!isStoredEntry<T>(parsed)) {
+        throw new Error('Unexpected cache entry format');
+      }
+      return [parsed.key, { data: parsed.data, expiry: parsed.expiry }];
+    } catch (error) {
+      console.warn(`Discarding unreadable cache entry ${name}:`, error);
+      await fs.rm(file, { force: true });
+      return null;
+    }
+  }
+
+  /**
+   * Writes an entry to a temp file and renames it into place, so readers never see half a file
+   */
+  save(key: string, item: CacheItem<T>): void {
+    const file = this.fileFor(key);
+    const contents = JSON.stringify({ key, expiry: item.expiry, data: item.data } satisfies StoredEntry<T>);
+    this.enqueue(`save ${key}`, async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(`${file}${TEMP_EXTENSION}`, contents, 'utf8');
+      await fs.rename(`${file}${TEMP_EXTENSION}`, file);
+    });
+  }
+
+  remove(key: string): void {
+    const file = this.fileFor(key);
+    this.enqueue(`remove ${key}`, () => fs.rm(file, { force: true }));
+  }
+
+  clear(): void {
+    this.enqueue('clear', async () => {
+      let names: string[];
+      try {
+        names = await fs.readdir(this.directory);
+      } catch (error) {
+        if (isMissing(error)) {
+          return;
+        }
+        throw error;
+      }
+      await Promise.all(
+        names
+          .filter((name) => name.endsWith(ENTRY_EXTENSION) || name.endsWith(TEMP_EXTENSION))
+          .map((name) => fs.rm(path.join(this.directory, name), { force: true }))
+      );
+    });
+  }
+
+  async flush(): Promise<void> {
+    await this.queue;
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+// jsdom has no structuredClone, which the IndexedDB shim needs; the store itself uses no DOM APIs
+
+import { IDBFactory } from 'fake-indexeddb';
+
+import { IndexedDbCacheStore } from './indexedDbCacheStore';
+import { SimpleCacheManager } from './simpleCacheManager';
+
+describe('IndexedDbCacheStore', () => {
+  test('falls back to memory-only caching without IndexedDB', async () => {
+    expect(typeof indexedDB).toBe('undefined');
+    const cache = new SimpleCacheManager<number>(60_000, { store: new IndexedDbCacheStore<number>('weather') });
+
+    cache.set('a', 1);
+    cache.delete('a');
+    cache.set('b', 2);
+    cache.clear();
+    await cache.flush();
+
+    expect(await cache.restore()).toBe(0);
+    cache.set('c', 3);
+    expect(cache.get('c')).toBe(3);
+  });
+
+  describe('with IndexedDB', () => {
+    // The database is opened once per module, so each test loads a fresh copy against a fresh database
+    let Store: typeof IndexedDbCacheStore;
+
+    beforeEach(async () => {
+      (globalThis as { indexedDB?: IDBFactory }).indexedDB = new IDBFactory();
+      await jest.isolateModulesAsync(async () => {
+        ({ IndexedDbCacheStore: Store } = await import('./indexedDbCacheStore'));
+      });
+    });
+
+    afterEach(() => {
+      delete (globalThis as { indexedDB?: IDBFactory }).indexedDB;
+    });
+
+    test('restores saved entries into a new cache', async () => {
+      const cache = new SimpleCacheManager<number>(60_000, { store: new Store<number>('weather') });
+      cache.set('a', 1);
+      cache.set('b', 2);
+      await cache.flush();
+
+      const reloaded = new SimpleCacheManager<number>(60_000, { store: new Store<number>('weather') });
+      expect(await reloaded.restore()).toBe(2);
+      expect(reloaded.get('a')).toBe(1);
+      expect(reloaded.get('b')).toBe(2);
+    });
+
+    test('removes single entries', async () => {
+      const store = new Store<number>('weather');
+      store.save('a', { data: 1, expiry: Date.now() + 60_000 });
+      store.save('b', { data: 2, expiry: Date.now() + 60_000 });
+      store.remove('a');
+
+      expect((await store.load()).map(([key]) => key)).toEqual(['b']);
+    });
+
+    test('clears only its own namespace', async () => {
+      const weather = new Store<number>('weather');
+      const geocode = new Store<number>('geocode');
+      weather.save('a', { data: 1, expiry: Date.now() + 60_000 });
+      geocode.save('a', { data: 2, expiry: Date.now() + 60_000 });
+      await geocode.flush();
+      weather.clear();
+
+      expect(await weather.load()).toEqual([]);
+      expect(await geocode.load()).toEqual([['a', { data: 2, expiry: expect.any(Number) }]]);
+    });
+
+    test('drops expired entries on restore', async () => {
+      const store = new Store<number>('weather');
+      store.save('old', { data: 1, expiry: Date.now() - 1 });
+      store.save('fresh', { data: 2, expiry: Date.now() + 60_000 });
+
+      const cache = new SimpleCacheManager<number>(60_000, { store });
+      expect(await cache.restore()).toBe(1);
+      await cache.flush();
+      expect((await store.load()).map(([key]) => key)).toEqual(['fresh']);
+    });
+  });
+});
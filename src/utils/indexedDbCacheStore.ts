@@ -0,0 +1,131 @@
+/**
+ * IndexedDB-backed cache store for the browser, so cached weather and geocoding
+ * responses survive reloads and are available offline.
+ * Browsers without IndexedDB (or with it blocked) fall back to memory-only caching.
+ */
+
+import { CacheItem, CacheStore } from './simpleCacheManager';
+
+const DB_NAME = 'weather-history-cache';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const NAMESPACE_INDEX = 'namespace';
+
+interface StoredEntry<T> extends CacheItem<T> {
+  /** Namespace and key, e.g. "weather:getWeather:51.5:-0.1:..." */
+  id: string;
+  namespace: string;
+  key: string;
+}
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+const requestToPromise = <R>(request: IDBRequest<R>): Promise<R> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Opens the shared cache database once; resolves to null when IndexedDB is unavailable
+ */
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  databasePromise ??= new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+        store.createIndex(NAMESPACE_INDEX, 'namespace');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Could not open the offline cache:', request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      // Some privacy modes throw instead of failing the request
+      console.warn('Could not open the offline cache:', error);
+      resolve(null);
+    }
+  });
+  return databasePromise;
+};
+
+export class IndexedDbCacheStore<T> implements CacheStore<T> {
+  private namespace: string;
+  // Writes run one after another so a clear never races a save
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a store for one kind of cached response
+   * @param namespace Keeps entries of different caches apart in the shared database
+   */
+  constructor(namespace: string) {
+    this.namespace = namespace;
+  }
+
+  private enqueue(description: string, task: (entries: IDBObjectStore) => void): void {
+    this.queue = this.queue.then(async () => {
+      const db = await openDatabase();
+      if (!db) {
+        return;
+      }
+      const transaction = db.transaction(ENTRY_STORE, 'readwrite');
+      task(transaction.objectStore(ENTRY_STORE));
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    }).catch((error) => {
+      console.warn(`Offline cache could not ${description}:`, error);
+    });
+  }
+
+  async load(): Promise<[string, CacheItem<T>][]> {
+    await this.flush();
+    const db = await openDatabase();
+    if (!db) {
+      return [];
+    }
+
+    try {
+      const index = db.transaction(ENTRY_STORE, 'readonly').objectStore(ENTRY_STORE).index(NAMESPACE_INDEX);
+      const entries = await requestToPromise(index.getAll(this.namespace) as IDBRequest<StoredEntry<T>[]>);
+      return entries.map((entry) => [entry.key, { data: entry.data, expiry: entry.expiry }]);
+    } catch (error) {
+      console.warn('Could not read the offline cache:', error);
+      return [];
+    }
+  }
+
+  save(key: string, item: CacheItem<T>): void {
+    const entry: StoredEntry<T> = { id: `${this.namespace}:${key}`, namespace: this.namespace, key, ...item };
+    this.enqueue(`save ${key}`, (entries) => entries.put(entry));
+  }
+
+  remove(key: string): void {
+    this.enqueue(`remove ${key}`, (entries) => entries.delete(`${this.namespace}:${key}`));
+  }
+
+  clear(): void {
+    this.enqueue('clear', (entries) => {
+      const request = entries.index(NAMESPACE_INDEX).openKeyCursor(this.namespace);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          entries.delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+    });
+  }
+
+  async flush(): Promise<void> {
+    await this.queue;
+  }
+}
@@ -0,0 +1,61 @@
+import { DailyWeatherData, HourlyWeatherData } from '../open-meteo';
+
+import {
+  getLocalRangePrecipitation,
+  getPrecipitationTotals,
+  snowfallToWater,
+  splitPrecipitation,
+} from './precipitation';
+
+describe('precipitation', () => {
+  test('snowfallToWater uses 7 cm of snow per 10 mm of water', () => {
+    expect(snowfallToWater(7)).toBeCloseTo(10);
+  });
+
+  test('splitPrecipitation leaves what rain and snow do not cover to showers', () => {
+    expect(splitPrecipitation(3, 1, 0.7)).toEqual({ rain: 1, showers: 1, snow: 1 });
+    expect(splitPrecipitation(2, 2, 0)).toEqual({ rain: 2, showers: 0, snow: 0 });
+  });
+
+  test('splitPrecipitation ignores rounding noise and missing values', () => {
+    // 0.7 cm of snow is 1 mm of water; the total was rounded down
+    expect(splitPrecipitation(1.98, 1, 0.7).showers).toBe(0);
+    expect(splitPrecipitation(2, null, 0.7)).toEqual({ rain: 1, showers: 0, snow: 1 });
+    expect(splitPrecipitation(null, null, null)).toEqual({ rain: 0, showers: 0, snow: 0 });
+  });
+
+  test('getLocalRangePrecipitation splits each local hour and flags freezing hours', () => {
+    const hourly = {
+      time: ['2023-01-10T00:00', '2023-01-10T01:00', '2023-01-11T00:00'],
+      precipitation: [0.5, 2.4, 1],
+      rain: [0.5, 0, 1],
+      snowfall: [0, 1.4, 0],
+      temperature_2m: [1, -3, 2],
+    } as unknown as HourlyWeatherData;
+
+    const result = getLocalRangePrecipitation(hourly, { timezone: 'UTC' }, '2023-01-10', '2023-01-10');
+    expect(result.times).toHaveLength(2);
+    expect(result.rain).toEqual([0.5, 0]);
+    expect(result.snow[1]).toBeCloseTo(2);
+    expect(result.showers[1]).toBeCloseTo(0.4);
+    expect(result.snowfall).toEqual([0, 1.4]);
+    expect(result.freezing).toEqual([false, true]);
+  });
+
+  test('getPrecipitationTotals sums the daily values in range', () => {
+    const daily = {
+      time: ['2023-01-10', '2023-01-11', '2023-01-12'],
+      precipitation_sum: [3, 4, 10],
+      rain_sum: [1, 2, 10],
+      showers_sum: [1, null, 0],
+      snowfall_sum: [0.7, 1.4, 0],
+    } as unknown as DailyWeatherData;
+
+    expect(getPrecipitationTotals(daily, '2023-01-10', '2023-01-11')).toEqual({
+      precipitation: 7,
+      rain: 3,
+      showers: 1,
+      snowfall: expect.closeTo(2.1),
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Splits precipitation into rain, showers and snow.
+ * Bars are stacked in mm of water; snowfall depth stays in cm.
+ */
+
+import { SelectedWeatherData } from '../open-meteo';
+import { Location } from '../types';
+import { PRECIPITATION } from '../constants';
+
+import { getLocalRangeValues } from './weatherUtils';
+
+/** One hour of precipitation, all parts in mm of water */
+export interface PrecipitationSplit {
+  rain: number;
+  showers: number;
+  snow: number;
+}
+
+export interface FilteredPrecipitationData {
+  times: string[];
+  rain: number[];
+  showers: number[];
+  /** Snow as water equivalent (mm) so it stacks with rain */
+  snow: number[];
+  /** Snowfall depth (cm) */
+  snowfall: number[];
+  /** Whether the air temperature was at or below freezing */
+  freezing: boolean[];
+}
+
+/** Totals for a range of days from the daily sums */
+export interface PrecipitationTotals {
+  precipitation: number;
+  rain: number;
+  showers: number;
+  /** Snowfall depth (cm) */
+  snowfall: number;
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Daily times arrive as YYYY-MM-DD strings from JSON, or Date objects on the server
+const toDateKey = (time: Date | string): string =>
+  typeof time === 'string' ? time.slice(0, 10) : time.toISOString().slice(0, 10);
+
+/**
+ * Converts a snowfall depth (cm) to its water equivalent (mm)
+ */
+export const snowfallToWater = (snowfallCm: number): number => snowfallCm / PRECIPITATION.SNOW_CM_PER_MM_WATER;
+
+/**
+ * Splits one hour's precipitation into rain, showers and snow.
+ * Hourly data has no showers variable, so showers are what remains of the total
+ * after rain and melted snow. Without a rain value, everything that is not snow counts as rain.
+ * @param precipitation - Total precipitation (mm)
+ * @param rain - Large-scale rain (mm)
+ * @param snowfall - Snowfall depth (cm)
+ */
+export const splitPrecipitation = (
+  precipitation: number | null | undefined,
+  rain: number | null | undefined,
+  snowfall: number | null | undefined
+): PrecipitationSplit => {
+  const total = isFiniteNumber(precipitation) ? precipitation : 0;
+  const snow = isFiniteNumber(snowfall) ? snowfallToWater(snowfall) : 0;
+  const liquid = isFiniteNumber(rain) ? rain : Math.max(0, total - snow);
+  // Totals are rounded to 0.1 mm, so smaller remainders are rounding noise
+  const remainder = Math.round((total - liquid - snow) * 10) / 10;
+  return { rain: liquid, showers: Math.max(0, remainder), snow };
+};
+
+/**
+ * Filters hourly precipitation to the local days between startDate and endDate (both inclusive)
+ * and splits each hour into rain, showers and snow
+ */
+export const getLocalRangePrecipitation = (
+  hourly: SelectedWeatherData['hourly'],
+  location: Pick<Location, 'timezone'>,
+  startDate: string,
+  endDate: string
+): FilteredPrecipitationData => {
+  const { times, values: precipitation } = getLocalRangeValues(hourly, location, startDate, endDate, 'precipitation');
+  const rain = getLocalRangeValues(hourly, location, startDate, endDate, 'rain').values;
+  const snowfall = getLocalRangeValues(hourly, location, startDate, endDate, 'snowfall').values;
+  const temperatures = getLocalRangeValues(hourly, location, startDate, endDate, 'temperature_2m').values;
+
+  const result: FilteredPrecipitationData = { times, rain: [], showers: [], snow: [], snowfall: [], freezing: [] };
+  times.forEach((_, i) => {
+    const split = splitPrecipitation(precipitation[i], rain[i], snowfall[i]);
+    const temperature = temperatures[i];
+    result.rain.push(split.rain);
+    result.showers.push(split.showers);
+    result.snow.push(split.snow);
+    result.snowfall.push(snowfall[i] ?? 0);
+    result.freezing.push(isFiniteNumber(temperature) && temperature <= PRECIPITATION.FREEZING_POINT_C);
+  });
+  return result;
+};
+
+/**
+ * Sums the daily precipitation, rain, showers and snowfall for the days between startDate and endDate
+ */
+export const getPrecipitationTotals = (
+  daily: SelectedWeatherData['daily'],
+  startDate: string,
+  endDate: string
+): PrecipitationTotals => {
+  const totals: PrecipitationTotals = { precipitation: 0, rain: 0, showers: 0, snowfall: 0 };
+  (daily?.time ?? []).forEach((time: Date | string, index: number) => {
+    const date = toDateKey(time);
+    if (date < startDate || date > endDate) return;
+    const add = (value: number | null | undefined) => (isFiniteNumber(value) ? value : 0);
+    totals.precipitation += add(daily.precipitation_sum?.[index]);
+    totals.rain += add(daily.rain_sum?.[index]);
+    totals.showers += add(daily.showers_sum?.[index]);
+    totals.snowfall += add(daily.snowfall_sum?.[index]);
+  });
+  return totals;
+};
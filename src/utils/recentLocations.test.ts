@@ -0,0 +1,62 @@
+import { RECENT_SEARCHES } from '../constants';
+
+import { addRecentLocation, parseRecentLocations, serializeRecentLocations } from './recentLocations';
+
+const makeLocation = (name: string, latitude: number, longitude: number) => ({
+  id: 0,
+  name,
+  latitude,
+  longitude,
+  elevation: 0,
+  feature_code: 'PPL',
+  country_code: 'US',
+  timezone: 'America/New_York',
+  country: 'United States'
+});
+
+describe('recentLocations', () => {
+  const newYork = makeLocation('New York', 40.7128, -74.006);
+  const boston = makeLocation('Boston', 42.3601, -71.0589);
+
+  test('adds locations newest first and moves repeats to the front', () => {
+    const recent = [newYork, boston, { ...newYork, name: 'NYC' }].reduce(addRecentLocation, []);
+    expect(recent.map((location) => location.name)).toEqual(['NYC', 'Boston']);
+  });
+
+  test('keeps at most the configured number of locations', () => {
+    const recent = Array.from({ length: RECENT_SEARCHES.MAX_ITEMS + 2 }, (_, i) => makeLocation(`Place ${i}`, i, i))
+      .reduce(addRecentLocation, []);
+
+    expect(recent).toHaveLength(RECENT_SEARCHES.MAX_ITEMS);
+    expect(recent[0].name).toBe(`Place ${RECENT_SEARCHES.MAX_ITEMS + 1}`);
+  });
+
+  test('round-trips through storage', () => {
+    const recent = [newYork, boston].reduce(addRecentLocation, []);
+    expect(parseRecentLocations(serializeRecentLocations(recent))).toEqual(recent);
+  });
+
+  test('drops invalid and duplicate stored entries', () => {
+    const stored = JSON.stringify([boston, { ...boston, name: 'Again' }, { name: 'No coordinates' }, 42]);
+
+    expect(parseRecentLocations(stored)).toEqual([boston]);
+    expect(parseRecentLocations('{')).toEqual([]);
+    expect(parseRecentLocations(null)).toEqual([]);
+  });
+
+  test('fills in fields missing from entries saved with coordinates only', () => {
+    const stored = JSON.stringify([{ name: 'Pin', latitude: 1, longitude: 2, timezone: 'UTC' }]);
+
+    expect(parseRecentLocations(stored)).toEqual([{
+      id: 0,
+      name: 'Pin',
+      latitude: 1,
+      longitude: 2,
+      elevation: 0,
+      feature_code: 'PPL',
+      country_code: 'XX',
+      timezone: 'UTC',
+      country: 'Unknown'
+    }]);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Locations recently picked from search, newest first. The full location is kept
+ * so picking one again does not need another search request.
+ */
+
+import { Location } from '../types';
+import { RECENT_SEARCHES } from '../constants';
+import { StoredLocationSchema } from '../schemas/locationSchema';
+
+import { isSameLocation } from './weatherUtils';
+
+/**
+ * Reads recent locations saved by serializeRecentLocations; invalid and duplicate entries are dropped
+ * @param stored - Saved JSON, or null when nothing was saved yet
+ * @returns Recent locations, newest first
+ */
+export const parseRecentLocations = (stored: string | null | undefined): Location[] => {
+  let parsed: unknown = null;
+  try {
+    parsed = stored ? JSON.parse(stored) : null;
+  } catch {
+    parsed = null;
+  }
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  const recent: Location[] = [];
+  for (const entry of parsed) {
+    const result = StoredLocationSchema.safeParse(entry);
+    const location = result.success ? result.data : null;
+    if (location && !recent.some((saved) => isSameLocation(saved, location))) {
+      recent.push(location);
+    }
+  }
+  return recent.slice(0, RECENT_SEARCHES.MAX_ITEMS);
+};
+
+export const serializeRecentLocations = (recent: Location[]): string => JSON.stringify(recent);
+
+/**
+ * Records a picked location; picking one again moves it back to the front
+ * @param recent - Current history, newest first
+ * @param location - Picked location
+ * @returns History with at most RECENT_SEARCHES.MAX_ITEMS entries
+ */
+export const addRecentLocation = (recent: Location[], location: Location): Location[] => {
+  const others = recent.filter((entry) => !isSameLocation(entry, location));
+  return [location, ...others].slice(0, RECENT_SEARCHES.MAX_ITEMS);
+};
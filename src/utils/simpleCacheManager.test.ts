@@ -0,0 +1,156 @@
+import { CacheItem, CacheStore, SimpleCacheManager } from './simpleCacheManager';
+
+/** Store that keeps persisted entries in a Map */
+const createMemoryStore = <T>(): CacheStore<T> & { entries: Map<string, CacheItem<T>> } => {
+  const entries = new Map<string, CacheItem<T>>();
+  return {
+    entries,
+    load: () => Promise.resolve([...entries]),
+    save: (key, item) => { entries.set(key, item); },
+    remove: (key) => { entries.delete(key); },
+    clear: () => entries.clear(),
+    flush: () => Promise.resolve(),
+  };
+};
+
+describe('SimpleCacheManager', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('evicts the least recently used entry beyond maxEntries', () => {
+    const cache = new SimpleCacheManager<number>(60_000, { maxEntries: 2 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeNull();
+    expect(cache.get('c')).toBe(3);
+    expect(cache.getStats()).toMatchObject({ size: 2, evictions: 1 });
+  });
+
+  test('keeps evicted entries in the persistent store', async () => {
+    const store = createMemoryStore<number>();
+    const cache = new SimpleCacheManager<number>(60_000, { store, maxEntries: 1 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    expect(cache.has('a')).toBe(false);
+    expect(store.entries.has('a')).toBe(true);
+
+    const restarted = new SimpleCacheManager<number>(60_000, { store });
+    expect(await restarted.restore()).toBe(2);
+    expect(restarted.get('a')).toBe(1);
+  });
+
+  test('removes deleted and expired entries from the persistent store', () => {
+    const store = createMemoryStore<number>();
+    const cache = new SimpleCacheManager<number>(60_000, { store });
+    cache.set('deleted', 1);
+    cache.set('expired', 2, -1);
+    cache.delete('deleted');
+    cache.sweep();
+
+    expect(store.entries.size).toBe(0);
+  });
+
+  test('evicts entries until the approximate size fits maxBytes', () => {
+    const cache = new SimpleCacheManager<string>(60_000, { maxBytes: 25 });
+    cache.set('a', 'x'.repeat(10));
+    cache.set('b', 'y'.repeat(10));
+    expect(cache.getStats().bytes).toBe(24);
+
+    cache.set('c', 'z'.repeat(10));
+    expect(cache.has('a')).toBe(false);
+    expect(cache.getStats()).toMatchObject({ size: 2, bytes: 24, evictions: 1 });
+  });
+
+  test('does not count replaced entries twice', () => {
+    const cache = new SimpleCacheManager<string>(60_000, { maxBytes: 100 });
+    cache.set('a', 'short');
+    cache.set('a', 'longer value');
+    expect(cache.getStats().bytes).toBe('"longer value"'.length);
+
+    cache.delete('a');
+    expect(cache.getStats().bytes).toBe(0);
+  });
+
+  test('counts hits and misses', () => {
+    const cache = new SimpleCacheManager<number>(60_000);
+    cache.set('a', 1);
+    cache.get('a');
+    cache.get('a');
+    cache.get('missing');
+
+    expect(cache.getStats()).toMatchObject({ hits: 2, misses: 1, maxEntries: null, maxBytes: null });
+  });
+
+  test('sweeps expired entries on an interval', () => {
+    jest.useFakeTimers();
+    const cache = new SimpleCacheManager<number>(1_000);
+    cache.set('short', 1);
+    cache.set('long', 2, 60_000);
+
+    cache.startSweep(5_000);
+    jest.advanceTimersByTime(5_000);
+    cache.stopSweep();
+
+    expect(cache.size()).toBe(1);
+    expect(cache.getStats().expired).toBe(1);
+  });
+
+  test('shares one load between concurrent identical requests', async () => {
+    const cache = new SimpleCacheManager<number>(60_000);
+    let resolveLoad: (value: number) => void = () => {};
+    const load = jest.fn(() => new Promise<number>((resolve) => { resolveLoad = resolve; }));
+
+    const first = cache.coalesce('weather', load);
+    const second = cache.coalesce('weather', load);
+    expect(cache.getStats()).toMatchObject({ inFlight: 1, coalesced: 1 });
+
+    resolveLoad(42);
+    await expect(Promise.all([first, second])).resolves.toEqual([42, 42]);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(cache.has('weather')).toBe(false);
+    expect(cache.getStats().inFlight).toBe(0);
+
+    await expect(cache.coalesce('weather', () => Promise.resolve(7))).resolves.toBe(7);
+  });
+
+  test('rejects every caller of a failed load and lets the next call retry', async () => {
+    const cache = new SimpleCacheManager<number>(60_000);
+    const failing = jest.fn(() => Promise.reject(new Error('upstream down')));
+
+    const results = await Promise.allSettled([cache.coalesce('weather', failing), cache.coalesce('weather', failing)]);
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    expect(failing).toHaveBeenCalledTimes(1);
+
+    await expect(cache.coalesce('weather', () => Promise.resolve(7))).resolves.toBe(7);
+  });
+
+  test('fetches a missing day range once for concurrent requests and caches it per day', async () => {
+    const cache = new SimpleCacheManager<number>(60_000);
+    const dates = ['2024-01-01', '2024-01-02', '2024-01-03'];
+    cache.set('day:2024-01-01', 1);
+    const fetchRange = jest.fn((start: string, end: string) => Promise.resolve(new Map([[start, 2], [end, 3]])));
+
+    // Mirrors the server: read cached days, then fetch the gap under a key for that range
+    const getDays = async (): Promise<number[]> => {
+      const missing = dates.filter((date) => !cache.has(`day:${date}`));
+      const start = missing[0];
+      const end = missing[missing.length - 1];
+      await cache.coalesce(`range:${start}:${end}`, async () => {
+        const days = await fetchRange(start, end);
+        days.forEach((value, date) => cache.set(`day:${date}`, value));
+        return days;
+      });
+      return dates.map((date) => cache.get(`day:${date}`) as number);
+    };
+
+    await expect(Promise.all([getDays(), getDays()])).resolves.toEqual([[1, 2, 3], [1, 2, 3]]);
+    expect(fetchRange).toHaveBeenCalledTimes(1);
+    expect(fetchRange).toHaveBeenCalledWith('2024-01-02', '2024-01-03');
+    expect(cache.getStats().coalesced).toBe(1);
+  });
+});
@@ -8,16 +8,122 @@ export interface CacheItem<T> {
   expiry: number;
 }
 
+/**
+ * Persistent backing store for a cache. The manager keeps serving reads from memory;
+ * the store receives every write so entries survive restarts.
+ */
+export interface CacheStore<T> {
+  /** Reads all persisted entries, e.g. at startup */
+  load(): Promise<[string, CacheItem<T>][]>;
+  /** Persists one entry, replacing any previous value */
+  save(key: string, item: CacheItem<T>): void;
+  /** Removes one persisted entry */
+  remove(key: string): void;
+  /** Removes all persisted entries */
+  clear(): void;
+  /** Resolves once all pending writes have finished */
+  flush(): Promise<void>;
+}
+
+/** Optional persistence and size limits for a cache manager */
+export interface CacheOptions<T> {
+  /** Persistent store that mirrors every write */
+  store?: CacheStore<T>;
+  /** Maximum number of entries before the least recently used are evicted */
+  maxEntries?: number;
+  /** Approximate maximum size of all cached data, measured as JSON length */
+  maxBytes?: number;
+}
+
+/** Counters and sizes reported by getStats */
+export interface CacheStats {
+  size: number;
+  bytes: number;
+  maxEntries: number | null;
+  maxBytes: number | null;
+  hits: number;
+  misses: number;
+  evictions: number;
+  expired: number;
+  /** Loads that joined an identical load already in flight */
+  coalesced: number;
+  /** Loads currently in flight */
+  inFlight: number;
+}
+
+interface CacheEntry<T> extends CacheItem<T> {
+  /** Approximate size in bytes; 0 when no byte limit is set */
+  size: number;
+}
+
+/**
+ * Approximates the memory used by a value from its JSON length
+ */
+const approximateSize = (data: unknown): number => {
+  try {
+    return JSON.stringify(data)?.length ?? 0;
+  } catch {
+    return 0;
+  }
+};
+
 export class SimpleCacheManager<T> {
-  private cache: Map<string, CacheItem<T>> = new Map();
+  // Map iteration follows insertion order, so re-inserting on read keeps the least recently used first
+  private cache: Map<string, CacheEntry<T>> = new Map();
   private defaultTTL: number; // in milliseconds
+  private store?: CacheStore<T>;
+  private maxEntries?: number;
+  private maxBytes?: number;
+  private bytes = 0;
+  private counters = { hits: 0, misses: 0, evictions: 0, expired: 0, coalesced: 0 };
+  private inFlight: Map<string, Promise<unknown>> = new Map();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
 
   /**
    * Creates a new simple cache manager instance
    * @param defaultTTL Default time-to-live for cache items in milliseconds
+   * @param options Optional persistent store and size limits
    */
-  constructor(defaultTTL: number = 5 * 60 * 1_000) { // 5 minutes default
+  constructor(defaultTTL: number = 5 * 60 * 1_000, options: CacheOptions<T> = {}) { // 5 minutes default
     this.defaultTTL = defaultTTL;
+    this.store = options.store;
+    this.maxEntries = options.maxEntries;
+    this.maxBytes = options.maxBytes;
+  }
+
+  /**
+   * Loads unexpired entries from the persistent store into memory
+   * @returns Number of entries restored
+   */
+  async restore(): Promise<number> {
+    if (!this.store) {
+      return 0;
+    }
+
+    const now = Date.now();
+    let restored = 0;
+    // Entries expiring last go in last, so limits evict the oldest first
+    const items = (await this.store.load()).sort(([, a], [, b]) => a.expiry - b.expiry);
+    for (const [key, item] of items) {
+      if (now > item.expiry) {
+        this.store.remove(key);
+        continue;
+      }
+      // Entries written since startup are newer than anything on disk
+      if (!this.cache.has(key)) {
+        this.insert(key, item);
+        restored++;
+      }
+    }
+    this.enforceLimits();
+    return restored;
+  }
+
+  /**
+   * Waits for pending writes to the persistent store
+   */
+  async flush(): Promise<void> {
+    await this.store?.flush();
   }
 
   /**
@@ -28,20 +134,26 @@ export class SimpleCacheManager<T> {
   get(key: string): T | null {
     const item = this.cache.get(key);
     if (!item) {
+      this.counters.misses++;
       return null;
     }
 
     // Check if expired
     if (Date.now() > item.expiry) {
-      this.cache.delete(key);
+      this.expire(key);
+      this.counters.misses++;
       return null;
     }
 
+    // Mark as most recently used
+    this.cache.delete(key);
+    this.cache.set(key, item);
+    this.counters.hits++;
     return item.data;
   }
 
   /**
-   * Sets an item in the cache
+   * Sets an item in the cache, evicting the least recently used items if a limit is exceeded
    * @param key Cache key
    * @param data Data to cache
    * @param ttl Time to live in milliseconds (optional, uses default if not provided)
@@ -50,10 +162,35 @@ export class SimpleCacheManager<T> {
     const ttlToUse = ttl ?? this.defaultTTL;
     const expiry = Date.now() + ttlToUse;
 
-    this.cache.set(key, {
-      data,
-      expiry
-    });
+    const item = { data, expiry };
+    this.insert(key, item);
+    this.store?.save(key, item);
+    this.enforceLimits();
+  }
+
+  /**
+   * Runs a load unless one with the same key is already in flight, in which case its result is shared.
+   * Nothing is cached; the caller stores the result itself. A failed load rejects every caller waiting on it.
+   * @param key Key identifying identical loads
+   * @param load Starts the load
+   * @returns Result of the shared load
+   */
+  coalesce<R>(key: string, load: () => Promise<R>): Promise<R> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.counters.coalesced++;
+      return pending as Promise<R>;
+    }
+
+    const loading = (async () => {
+      try {
+        return await load();
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+    this.inFlight.set(key, loading);
+    return loading;
   }
 
   /**
@@ -62,7 +199,8 @@ export class SimpleCacheManager<T> {
    * @returns True if the item was deleted, false if it didn't exist
    */
   delete(key: string): boolean {
-    return this.cache.delete(key);
+    this.store?.remove(key);
+    return this.remove(key);
   }
 
   /**
@@ -77,7 +215,7 @@ export class SimpleCacheManager<T> {
     }
 
     if (Date.now() > item.expiry) {
-      this.cache.delete(key);
+      this.expire(key);
       return false;
     }
 
@@ -89,6 +227,8 @@ export class SimpleCacheManager<T> {
    */
   clear(): void {
     this.cache.clear();
+    this.bytes = 0;
+    this.store?.clear();
   }
 
   /**
@@ -98,4 +238,91 @@ export class SimpleCacheManager<T> {
   size(): number {
     return this.cache.size;
   }
-}
\ No newline at end of file
+
+  /**
+   * Removes every expired item, including ones that are never read again
+   * @returns Number of items removed
+   */
+  sweep(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, item] of this.cache) {
+      if (now > item.expiry) {
+        this.expire(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Sweeps expired items on an interval until stopSweep is called
+   * @param interval Time between sweeps in milliseconds
+   */
+  startSweep(interval: number): void {
+    this.stopSweep();
+    this.sweepTimer = setInterval(() => this.sweep(), interval);
+    // Don't keep a Node process alive just for sweeping
+    (this.sweepTimer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Stops the periodic sweep
+   */
+  stopSweep(): void {
+    if (this.sweepTimer !== null) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Gets the current size, limits and counters
+   * @returns Cache statistics
+   */
+  getStats(): CacheStats {
+    return {
+      size: this.cache.size,
+      bytes: this.bytes,
+      maxEntries: this.maxEntries ?? null,
+      maxBytes: this.maxBytes ?? null,
+      ...this.counters,
+      inFlight: this.inFlight.size,
+    };
+  }
+
+  private insert(key: string, item: CacheItem<T>): void {
+    this.remove(key);
+    // Measuring means serializing, so only pay for it when there is a byte limit
+    const size = this.maxBytes === undefined ? 0 : approximateSize(item.data);
+    this.cache.set(key, { ...item, size });
+    this.bytes += size;
+  }
+
+  private remove(key: string): boolean {
+    const item = this.cache.get(key);
+    if (!item) {
+      return false;
+    }
+    this.bytes -= item.size;
+    return this.cache.delete(key);
+  }
+
+  private expire(key: string): void {
+    this.delete(key);
+    this.counters.expired++;
+  }
+
+  private enforceLimits(): void {
+    for (const key of this.cache.keys()) {
+      const overEntries = this.maxEntries !== undefined && this.cache.size > this.maxEntries;
+      const overBytes = this.maxBytes !== undefined && this.bytes > this.maxBytes;
+      if (!overEntries && !overBytes) {
+        return;
+      }
+      // Memory only: the persistent store keeps evicted entries until they expire or are deleted
+      this.remove(key);
+      this.counters.evictions++;
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { DailyWeatherData, HourlyWeatherData } from '../open-meteo';
+import { Location } from '../types';
+
+import { getDaylightHours, getHourOffset, getSolarDaySummaries, megajoulesToKilowattHours } from './solar';
+
+describe('solar', () => {
+  const location = {
+    id: 1,
+    name: 'Denver',
+    latitude: 39.74,
+    longitude: -104.99,
+    elevation: 1609,
+    feature_code: 'PPL',
+    country_code: 'US',
+    timezone: 'UTC',
+    country: 'United States'
+  } as Location;
+
+  test('megajoulesToKilowattHours divides by 3.6', () => {
+    expect(megajoulesToKilowattHours(36)).toBe(10);
+  });
+
+  test('getDaylightHours measures sunrise to sunset', () => {
+    expect(getDaylightHours('2023-06-15T05:30', '2023-06-15T20:45')).toBe(15.25);
+    expect(getDaylightHours(null, '2023-06-15T20:45')).toBeNull();
+    expect(getDaylightHours('2023-06-15T20:45', '2023-06-15T05:30')).toBeNull();
+  });
+
+  test('getHourOffset places a wall-clock time on the hourly axis', () => {
+    expect(getHourOffset('2023-06-15T05:30', '2023-06-15T00:00')).toBe(5.5);
+    expect(getHourOffset('not a time', '2023-06-15T00:00')).toBeNull();
+  });
+
+  test('getSolarDaySummaries totals each day in the range', () => {
+    const weather = {
+      daily: {
+        time: [new Date('2023-06-15'), new Date('2023-06-16')],
+        sunrise: ['2023-06-15T05:30', '2023-06-16T05:30'],
+        sunset: ['2023-06-15T20:30', '2023-06-16T20:30'],
+        shortwave_radiation_sum: [27, null]
+      } as unknown as DailyWeatherData,
+      hourly: {
+        time: [new Date('2023-06-15T11:00:00Z'), new Date('2023-06-15T12:00:00Z'), new Date('2023-06-16T12:00:00Z')],
+        shortwave_radiation: [800, 950, 400],
+        direct_normal_irradiance: [700, 900, 100]
+      } as unknown as HourlyWeatherData
+    };
+
+    const [first, second] = getSolarDaySummaries(weather, location, '2023-06-15', '2023-06-16');
+
+    expect(first).toEqual({
+      date: '2023-06-15',
+      sunrise: '2023-06-15T05:30',
+      sunset: '2023-06-15T20:30',
+      daylightHours: 15,
+      radiationKwh: 7.5,
+      directNormalKwh: 1.6,
+      peakIrradiance: 950
+    });
+    expect(second.radiationKwh).toBeNull();
+    expect(second.peakIrradiance).toBe(400);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Solar radiation helpers: daily energy totals, daylight length and
+ * sunrise/sunset positions on an hourly chart axis.
+ */
+
+import { DailyWeatherData, HourlyWeatherData } from '../open-meteo';
+import { Location } from '../types';
+
+import { getLocalRangeSolar, getValueStats } from './weatherUtils';
+
+/** Megajoules per kilowatt-hour */
+const MJ_PER_KWH = 3.6;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/** Solar figures for one local day */
+export interface SolarDaySummary {
+  date: string;
+  sunrise: string | null;
+  sunset: string | null;
+  /** Hours between sunrise and sunset */
+  daylightHours: number | null;
+  /** Daily global horizontal irradiation from shortwave_radiation_sum, in kWh/m² */
+  radiationKwh: number | null;
+  /** Direct normal irradiation summed from the hourly values, in kWh/m² */
+  directNormalKwh: number | null;
+  /** Highest hourly global horizontal irradiance, in W/m² */
+  peakIrradiance: number | null;
+}
+
+/**
+ * Converts an energy density from MJ/m² (Open-Meteo daily sums) to kWh/m²
+ */
+export const megajoulesToKilowattHours = (megajoules: number): number => megajoules / MJ_PER_KWH;
+
+/**
+ * Hours between a sunrise and sunset given as local wall-clock strings (e.g. "2023-06-15T05:25")
+ * @returns Daylight length, or null if either time is missing or invalid
+ */
+export const getDaylightHours = (sunrise?: string | null, sunset?: string | null): number | null => {
+  if (!sunrise || !sunset) {
+    return null;
+  }
+  const start = new Date(sunrise).getTime();
+  const end = new Date(sunset).getTime();
+  if (isNaN(start) || isNaN(end) || end < start) {
+    return null;
+  }
+  return (end - start) / MS_PER_HOUR;
+};
+
+/**
+ * Position of a wall-clock time on an hourly axis, in hours from the first local time.
+ * Both values are read as the same local wall clock, so the browser's own timezone cancels out.
+ * @param time - Local wall-clock string such as a daily sunrise
+ * @param firstLocalTime - First time on the axis, as returned by getLocalRangeSolar
+ * @returns Fractional hour index, or null if either time is invalid
+ */
+export const getHourOffset = (time: string, firstLocalTime: string): number | null => {
+  const target = new Date(time).getTime();
+  const first = new Date(firstLocalTime).getTime();
+  if (isNaN(target) || isNaN(first)) {
+    return null;
+  }
+  return (target - first) / MS_PER_HOUR;
+};
+
+// Daily times arrive as YYYY-MM-DD strings from JSON, or Date objects on the server
+const toDateKey = (time: Date | string): string =>
+  typeof time === 'string' ? time.slice(0, 10) : time.toISOString().slice(0, 10);
+
+/**
+ * Summarizes sunshine and radiation for each local day between startDate and endDate
+ * @param weather - Daily and hourly weather arrays
+ * @param location - Location, used to find each local day's hours
+ * @param startDate - First day (YYYY-MM-DD)
+ * @param endDate - Last day (YYYY-MM-DD)
+ * @returns One summary per day in the range that has daily data
+ */
+export const getSolarDaySummaries = (
+  weather: { daily: DailyWeatherData; hourly: HourlyWeatherData },
+  location: Location,
+  startDate: string,
+  endDate: string
+): SolarDaySummary[] => {
+  return (weather.daily?.time ?? [])
+    .map((time: Date | string, index: number) => ({ date: toDateKey(time), index }))
+    .filter(({ date }) => date >= startDate && date <= endDate)
+    .map(({ date, index }) => {
+      const sunrise = weather.daily.sunrise?.[index] ?? null;
+      const sunset = weather.daily.sunset?.[index] ?? null;
+      const radiationSum = weather.daily.shortwave_radiation_sum?.[index];
+      const hours = getLocalRangeSolar(weather.hourly, location, date, date);
+      const directNormal = hours.directNormal.filter((value): value is number => typeof value === 'number');
+
+      return {
+        date,
+        sunrise,
+        sunset,
+        daylightHours: getDaylightHours(sunrise, sunset),
+        radiationKwh: typeof radiationSum === 'number' ? megajoulesToKilowattHours(radiationSum) : null,
+        // Hourly values are averages over the hour, so each contributes W/m² × 1 h
+        directNormalKwh: directNormal.length > 0 ? directNormal.reduce((sum, value) => sum + value, 0) / 1000 : null,
+        peakIrradiance: getValueStats(hours.shortwave)?.max ?? null,
+      };
+    });
+};
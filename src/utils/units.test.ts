@@ -0,0 +1,57 @@
+import {
+  DEFAULT_UNIT_PREFERENCES,
+  METRIC_UNITS,
+  convertValue,
+  formatWithUnit,
+  getUnitLabel,
+  parseUnitPreferences,
+  toMetricValue,
+} from './units';
+
+describe('units', () => {
+  const imperial = { temperature: 'F', windSpeed: 'mph', precipitation: 'in', pressure: 'inHg' } as const;
+
+  test('convertValue leaves metric values unchanged', () => {
+    expect(convertValue(21.5, 'temperature', METRIC_UNITS)).toBe(21.5);
+    expect(convertValue(12, 'windSpeed', METRIC_UNITS)).toBe(12);
+    expect(convertValue(1013, 'pressure', METRIC_UNITS)).toBe(1013);
+  });
+
+  test('convertValue converts to imperial units', () => {
+    expect(convertValue(100, 'temperature', imperial)).toBe(212);
+    expect(convertValue(10, 'temperatureDifference', imperial)).toBe(18);
+    expect(convertValue(25.4, 'precipitation', imperial)).toBeCloseTo(1);
+    expect(convertValue(2.54, 'snowfall', imperial)).toBeCloseTo(1);
+    expect(convertValue(1013.25, 'pressure', imperial)).toBeCloseTo(29.92, 2);
+  });
+
+  test('convertValue converts wind speed to each unit', () => {
+    expect(convertValue(36, 'windSpeed', { ...METRIC_UNITS, windSpeed: 'ms' })).toBe(10);
+    expect(convertValue(1.852, 'windSpeed', { ...METRIC_UNITS, windSpeed: 'kn' })).toBeCloseTo(1);
+    expect(convertValue(1.609344, 'windSpeed', imperial)).toBeCloseTo(1);
+  });
+
+  test('toMetricValue reverses convertValue', () => {
+    expect(toMetricValue(50, 'temperature', imperial)).toBeCloseTo(10);
+    expect(toMetricValue(1, 'precipitation', imperial)).toBeCloseTo(25.4);
+    expect(toMetricValue(10, 'windSpeed', { ...METRIC_UNITS, windSpeed: 'ms' })).toBeCloseTo(36);
+  });
+
+  test('labels and formats values in the preferred unit', () => {
+    expect(getUnitLabel('snowfall', METRIC_UNITS)).toBe('cm');
+    expect(getUnitLabel('snowfall', imperial)).toBe('in');
+    expect(formatWithUnit(12.7, 'precipitation', imperial)).toBe('0.50 in');
+    expect(formatWithUnit(36, 'windSpeed', { ...METRIC_UNITS, windSpeed: 'ms' })).toBe('10.0 m/s');
+    expect(formatWithUnit(1013.25, 'pressure', METRIC_UNITS)).toBe('1013 hPa');
+  });
+
+  test('parseUnitPreferences keeps valid stored choices and defaults the rest', () => {
+    expect(parseUnitPreferences(JSON.stringify({ temperature: 'C', windSpeed: 'kn', pressure: 'bar' }))).toEqual({
+      ...DEFAULT_UNIT_PREFERENCES,
+      temperature: 'C',
+      windSpeed: 'kn',
+    });
+    expect(parseUnitPreferences(null)).toEqual(DEFAULT_UNIT_PREFERENCES);
+    expect(parseUnitPreferences('not json')).toEqual(DEFAULT_UNIT_PREFERENCES);
+  });
+});
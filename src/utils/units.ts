@@ -0,0 +1,155 @@
+/**
+ * Unit conversion for displays and exports. Weather data always stays in
+ * Open-Meteo's metric units (°C, km/h, mm, cm of snow, hPa) and is converted
+ * only when it is shown or exported.
+ */
+
+import {
+  PrecipitationUnit,
+  PressureUnit,
+  TemperatureUnit,
+  UnitPreferences,
+  WindSpeedUnit,
+} from '../types';
+
+/** Kinds of values that depend on the unit preferences */
+export type UnitQuantity = 'temperature' | 'temperatureDifference' | 'windSpeed' | 'precipitation' | 'snowfall' | 'pressure';
+
+/** Units the weather data is stored in */
+export const METRIC_UNITS: UnitPreferences = {
+  temperature: 'C',
+  windSpeed: 'kmh',
+  precipitation: 'mm',
+  pressure: 'hPa',
+};
+
+/** Units used until the user picks their own */
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = {
+  ...METRIC_UNITS,
+  temperature: 'F',
+};
+
+/** Selectable units per preference, metric first */
+export const UNIT_CHOICES = {
+  temperature: ['C', 'F'],
+  windSpeed: ['kmh', 'mph', 'ms', 'kn'],
+  precipitation: ['mm', 'in'],
+  pressure: ['hPa', 'inHg'],
+} as const satisfies { [K in keyof UnitPreferences]: readonly UnitPreferences[K][] };
+
+const TEMPERATURE_LABELS: Record<TemperatureUnit, string> = { C: '°C', F: '°F' };
+const WIND_SPEED_LABELS: Record<WindSpeedUnit, string> = { kmh: 'km/h', mph: 'mph', ms: 'm/s', kn: 'kn' };
+const PRECIPITATION_LABELS: Record<PrecipitationUnit, string> = { mm: 'mm', in: 'in' };
+const SNOWFALL_LABELS: Record<PrecipitationUnit, string> = { mm: 'cm', in: 'in' };
+const PRESSURE_LABELS: Record<PressureUnit, string> = { hPa: 'hPa', inHg: 'inHg' };
+
+const KMH_PER_UNIT: Record<WindSpeedUnit, number> = { kmh: 1, mph: 1.609344, ms: 3.6, kn: 1.852 };
+const MM_PER_INCH = 25.4;
+const CM_PER_INCH = 2.54;
+const HPA_PER_INHG = 33.8639;
+
+/** Decimal places that keep each unit readable without false precision */
+const DECIMALS: Record<UnitQuantity, (units: UnitPreferences) => number> = {
+  temperature: () => 0,
+  temperatureDifference: () => 0,
+  windSpeed: (units) => (units.windSpeed === 'ms' ? 1 : 0),
+  precipitation: (units) => (units.precipitation === 'in' ? 2 : 1),
+  snowfall: () => 1,
+  pressure: (units) => (units.pressure === 'inHg' ? 2 : 0),
+};
+
+/**
+ * Converts a stored metric value to the preferred unit
+ * @param value - Value in °C, km/h, mm, cm of snow or hPa
+ * @param quantity - What the value measures
+ * @param units - Unit preferences
+ * @returns Converted value
+ */
+export const convertValue = (value: number, quantity: UnitQuantity, units: UnitPreferences): number => {
+  switch (quantity) {
+    case 'temperature':
+      return units.temperature === 'F' ? (value * 9/5) + 32 : value;
+    case 'temperatureDifference':
+      return units.temperature === 'F' ? value * 9/5 : value;
+    case 'windSpeed':
+      return value / KMH_PER_UNIT[units.windSpeed];
+    case 'precipitation':
+      return units.precipitation === 'in' ? value / MM_PER_INCH : value;
+    case 'snowfall':
+      return units.precipitation === 'in' ? value / CM_PER_INCH : value;
+    case 'pressure':
+      return units.pressure === 'inHg' ? value / HPA_PER_INHG : value;
+  }
+};
+
+/**
+ * Converts a value in the preferred unit back to the stored metric unit
+ */
+export const toMetricValue = (value: number, quantity: UnitQuantity, units: UnitPreferences): number => {
+  if (quantity === 'temperature' && units.temperature === 'F') {
+    return (value - 32) * 5/9;
+  }
+  // Every other conversion is a plain scale factor
+  return value / convertValue(1, quantity, units);
+};
+
+/**
+ * Unit symbol for a quantity, e.g. "°F", "mph", "in" or "hPa"
+ */
+export const getUnitLabel = (quantity: UnitQuantity, units: UnitPreferences): string => {
+  switch (quantity) {
+    case 'temperature':
+    case 'temperatureDifference':
+      return TEMPERATURE_LABELS[units.temperature];
+    case 'windSpeed':
+      return WIND_SPEED_LABELS[units.windSpeed];
+    case 'precipitation':
+      return PRECIPITATION_LABELS[units.precipitation];
+    case 'snowfall':
+      return SNOWFALL_LABELS[units.precipitation];
+    case 'pressure':
+      return PRESSURE_LABELS[units.pressure];
+  }
+};
+
+/**
+ * Converts and rounds a value for display, without the unit symbol
+ */
+export const formatValue = (value: number, quantity: UnitQuantity, units: UnitPreferences): string => {
+  return convertValue(value, quantity, units).toFixed(DECIMALS[quantity](units));
+};
+
+/**
+ * Converts, rounds and labels a value, e.g. "12 mph" or "0.25 in"
+ */
+export const formatWithUnit = (value: number, quantity: UnitQuantity, units: UnitPreferences): string => {
+  return `${formatValue(value, quantity, units)} ${getUnitLabel(quantity, units)}`;
+};
+
+const isChoice = <K extends keyof UnitPreferences>(key: K, value: unknown): value is UnitPreferences[K] =>
+  (UNIT_CHOICES[key] as readonly unknown[]).includes(value);
+
+/**
+ * Reads unit preferences from stored JSON, keeping the defaults for anything missing or invalid
+ * @param stored - JSON text, e.g. from localStorage
+ * @returns Complete unit preferences
+ */
+export const parseUnitPreferences = (stored: string | null | undefined): UnitPreferences => {
+  let parsed: unknown = null;
+  try {
+    parsed = stored ? JSON.parse(stored) : null;
+  } catch {
+    parsed = null;
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    return { ...DEFAULT_UNIT_PREFERENCES };
+  }
+
+  const candidate = parsed as Record<string, unknown>;
+  return {
+    temperature: isChoice('temperature', candidate.temperature) ? candidate.temperature : DEFAULT_UNIT_PREFERENCES.temperature,
+    windSpeed: isChoice('windSpeed', candidate.windSpeed) ? candidate.windSpeed : DEFAULT_UNIT_PREFERENCES.windSpeed,
+    precipitation: isChoice('precipitation', candidate.precipitation) ? candidate.precipitation : DEFAULT_UNIT_PREFERENCES.precipitation,
+    pressure: isChoice('pressure', candidate.pressure) ? candidate.pressure : DEFAULT_UNIT_PREFERENCES.pressure,
+  };
+};
@@ -0,0 +1,86 @@
+import { CHART_IDS } from '../constants';
+
+import { DEFAULT_UNIT_PREFERENCES } from './units';
+import { buildUrlSearch, parseUrlState, UrlView } from './urlState';
+
+const chicago = {
+  id: 4887398,
+  name: 'Chicago',
+  latitude: 41.85003,
+  longitude: -87.65005,
+  elevation: 181,
+  feature_code: 'PPLA2',
+  country_code: 'US',
+  timezone: 'America/Chicago',
+  country: 'United States',
+};
+
+const view: UrlView = {
+  location: chicago,
+  startDate: '2021-02-15',
+  endDate: '2021-02-15',
+  units: { ...DEFAULT_UNIT_PREFERENCES, temperature: 'C' },
+  charts: [...CHART_IDS],
+  darkMode: false,
+};
+
+describe('urlState', () => {
+  test('round-trips a view through the query string', () => {
+    const search = buildUrlSearch(view);
+    const state = parseUrlState(search);
+
+    const params = new URLSearchParams(search);
+    expect(params.get('lat')).toBe('41.85');
+    expect(params.get('lon')).toBe('-87.65');
+    expect(search).not.toContain('charts=');
+    expect(state.invalid).toEqual([]);
+    expect(state.location).toMatchObject({ name: 'Chicago', latitude: 41.85, longitude: -87.65, timezone: 'America/Chicago' });
+    expect(state.startDate).toBe('2021-02-15');
+    expect(state.endDate).toBe('2021-02-15');
+    expect(state.units).toEqual(view.units);
+    expect(state.charts).toBeUndefined();
+    expect(state.darkMode).toBe(false);
+  });
+
+  test('encodes hidden charts in display order', () => {
+    const search = buildUrlSearch({ ...view, charts: ['wind', 'temperature'] });
+
+    expect(new URLSearchParams(search).get('charts')).toBe('temperature,wind');
+    expect(parseUrlState(search).charts).toEqual(['temperature', 'wind']);
+    expect(parseUrlState(buildUrlSearch({ ...view, charts: [] })).charts).toEqual([]);
+  });
+
+  test('leaves out the location until one is selected', () => {
+    const state = parseUrlState(buildUrlSearch({ ...view, location: null }));
+    expect(state.location).toBeUndefined();
+    expect(state.startDate).toBe('2021-02-15');
+  });
+
+  test('names coordinate-only links after their coordinates', () => {
+    const state = parseUrlState('?lat=51.5&lon=-0.1');
+    expect(state.location).toMatchObject({ name: 'Location (51.5000, -0.1000)', timezone: 'Europe/London' });
+  });
+
+  test('looks up the timezone when the link has none', () => {
+    expect(parseUrlState('?lat=41.85&lon=-87.65&name=Chicago').location?.timezone).toBe('America/Chicago');
+  });
+
+  test('keeps valid parts when others are malformed', () => {
+    const state = parseUrlState('?lat=123&lon=abc&start=2021-02-15&end=yesterday&temperature_unit=C&charts=temperature,radar&theme=dark');
+
+    expect(state.invalid).toEqual(['location', 'dates', 'view']);
+    expect(state.location).toBeUndefined();
+    expect(state.startDate).toBeUndefined();
+    expect(state.units).toEqual({ temperature: 'C' });
+    expect(state.darkMode).toBeUndefined();
+  });
+
+  test('rejects empty coordinates and unknown units', () => {
+    expect(parseUrlState('?lat=&lon=').invalid).toEqual(['location']);
+    expect(parseUrlState('?temperature_unit=K').invalid).toEqual(['units']);
+  });
+
+  test('returns nothing for an empty query string', () => {
+    expect(parseUrlState('')).toEqual({ invalid: [] });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Reads and writes the view (location, dates, units, charts and theme) as URL
+ * query parameters, so a link reopens the same view.
+ * Parameter names follow the /api/weather query, and values are validated
+ * with the same schema; anything malformed is dropped instead of failing the page.
+ */
+
+import { z } from 'zod';
+import tzLookup from 'tz-lookup';
+
+import { ChartId, Location, UnitPreferences } from '../types';
+import { CHART_IDS } from '../constants';
+import { WeatherAPIRequestSchema } from '../schemas/apiSchema';
+
+/** View settings restored from a link; missing or invalid parts are left out */
+export interface UrlState {
+  location?: Location;
+  startDate?: string;
+  endDate?: string;
+  units?: Partial<UnitPreferences>;
+  charts?: ChartId[];
+  darkMode?: boolean;
+  /** Parts of the link that were present but malformed */
+  invalid: string[];
+}
+
+/** Current view to encode in the URL */
+export interface UrlView {
+  location: Location | null;
+  startDate: string;
+  endDate: string;
+  units: UnitPreferences;
+  charts: ChartId[];
+  darkMode: boolean;
+}
+
+// Location names from search are never longer than the API allows, but links can be edited by hand
+const LocationParamsSchema = WeatherAPIRequestSchema.pick({ lat: true, lon: true, name: true }).extend({
+  timezone: WeatherAPIRequestSchema.shape.timezone.optional(),
+});
+
+const DateParamsSchema = WeatherAPIRequestSchema.pick({ start: true, end: true });
+
+const UnitParamsSchema = WeatherAPIRequestSchema.pick({
+  temperature_unit: true,
+  wind_speed_unit: true,
+  precipitation_unit: true,
+  pressure_unit: true,
+});
+
+const ViewParamsSchema = z.object({
+  // An empty list hides every chart
+  charts: z.preprocess(
+    (val) => (typeof val === 'string' ? val.split(',').map((id) => id.trim()).filter(Boolean) : val),
+    z.array(z.enum(CHART_IDS)).optional()
+  ),
+  theme: z.enum(['light', 'dark']).optional(),
+});
+
+// Enough to tell buildings apart; longer coordinates only make links harder to read
+const COORDINATE_DECIMALS = 4;
+
+const pickParams = (params: URLSearchParams, names: string[]): Record<string, string> | null => {
+  const picked = Object.fromEntries(names.flatMap((name) => {
+    const value = params.get(name);
+    return value === null ? [] : [[name, value]];
+  }));
+  return Object.keys(picked).length > 0 ? picked : null;
+};
+
+/**
+ * Parses view settings from a query string. Each part (location, dates, units, view)
+ * is validated on its own, so one bad value does not discard the rest of the link.
+ * @param search - Query string, with or without the leading "?"
+ * @returns Valid settings and the names of the parts that were ignored
+ */
+export const parseUrlState = (search: string): UrlState => {
+  const params = new URLSearchParams(search);
+  const state: UrlState = { invalid: [] };
+
+  const locationParams = pickParams(params, ['lat', 'lon', 'name', 'timezone']);
+  if (locationParams) {
+    // Number('') is 0, so an empty coordinate must not count as one
+    const parsed = locationParams.lat && locationParams.lon ? LocationParamsSchema.safeParse(locationParams) : null;
+    if (parsed?.success) {
+      const { lat, lon, name, timezone } = parsed.data;
+      state.location = {
+        id: 0,
+        name: name || `Location (${lat.toFixed(COORDINATE_DECIMALS)}, ${lon.toFixed(COORDINATE_DECIMALS)})`,
+        latitude: lat,
+        longitude: lon,
+        elevation: 0,
+        feature_code: 'PPL',
+        country_code: 'XX',
+        // Local days would be cut at UTC midnight otherwise; the server names places the same way
+        timezone: timezone ?? tzLookup(lat, lon),
+        country: '',
+      };
+    } else {
+      state.invalid.push('location');
+    }
+  }
+
+  const dateParams = pickParams(params, ['start', 'end']);
+  if (dateParams) {
+    const parsed = DateParamsSchema.safeParse(dateParams);
+    if (parsed.success) {
+      state.startDate = parsed.data.start;
+      state.endDate = parsed.data.end;
+    } else {
+      state.invalid.push('dates');
+    }
+  }
+
+  const unitParams = pickParams(params, ['temperature_unit', 'wind_speed_unit', 'precipitation_unit', 'pressure_unit']);
+  if (unitParams) {
+    const parsed = UnitParamsSchema.safeParse(unitParams);
+    if (parsed.success) {
+      const { temperature_unit, wind_speed_unit, precipitation_unit, pressure_unit } = parsed.data;
+      state.units = {
+        ...(temperature_unit && { temperature: temperature_unit }),
+        ...(wind_speed_unit && { windSpeed: wind_speed_unit }),
+        ...(precipitation_unit && { precipitation: precipitation_unit }),
+        ...(pressure_unit && { pressure: pressure_unit }),
+      };
+    } else {
+      state.invalid.push('units');
+    }
+  }
+
+  const viewParams = pickParams(params, ['charts', 'theme']);
+  if (viewParams) {
+    const parsed = ViewParamsSchema.safeParse(viewParams);
+    if (parsed.success) {
+      if (parsed.data.charts) {
+        state.charts = CHART_IDS.filter((id) => parsed.data.charts?.includes(id));
+      }
+      if (parsed.data.theme) {
+        state.darkMode = parsed.data.theme === 'dark';
+      }
+    } else {
+      state.invalid.push('view');
+    }
+  }
+
+  return state;
+};
+
+/**
+ * Encodes the view as a query string that parseUrlState reads back
+ * @param view - Current view
+ * @returns Query string with a leading "?"
+ */
+export const buildUrlSearch = (view: UrlView): string => {
+  const params = new URLSearchParams();
+  if (view.location) {
+    params.set('lat', String(Number(view.location.latitude.toFixed(COORDINATE_DECIMALS))));
+    params.set('lon', String(Number(view.location.longitude.toFixed(COORDINATE_DECIMALS))));
+    params.set('name', view.location.name);
+    params.set('timezone', view.location.timezone);
+  }
+  params.set('start', view.startDate);
+  params.set('end', view.endDate);
+  params.set('temperature_unit', view.units.temperature);
+  params.set('wind_speed_unit', view.units.windSpeed);
+  params.set('precipitation_unit', view.units.precipitation);
+  params.set('pressure_unit', view.units.pressure);
+  // Links stay short while every chart is shown
+  if (view.charts.length < CHART_IDS.length) {
+    params.set('charts', CHART_IDS.filter((id) => view.charts.includes(id)).join(','));
+  }
+  params.set('theme', view.darkMode ? 'dark' : 'light');
+  return `?${params.toString()}`;
+};
@@ -1,4 +1,4 @@
-import { validateDateRangeWithErrors } from './validation';
+import { normalizeLanguageList, validateAndSanitizeSearchQuery, validateDateRangeWithErrors } from './validation';
 
 describe('validateDateRangeWithErrors', () => {
   test('accepts valid YYYY-MM-DD same-day range', () => {
@@ -9,3 +9,32 @@ describe('validateDateRangeWithErrors', () => {
     expect(() => validateDateRangeWithErrors('2025/09/22', '2025/09/22')).toThrow();
   });
 });
+
+describe('validateAndSanitizeSearchQuery', () => {
+  test('accepts non-ASCII place names', () => {
+    expect(validateAndSanitizeSearchQuery('São Paulo')).toBe('São Paulo');
+    expect(validateAndSanitizeSearchQuery('東京')).toBe('東京');
+    expect(validateAndSanitizeSearchQuery('Zu\u0308rich ')).toBe('Zürich');
+  });
+
+  test('still rejects markup and symbols', () => {
+    expect(validateAndSanitizeSearchQuery('Köln<script>')).toBe(false);
+    expect(validateAndSanitizeSearchQuery('Zürich & Bern')).toBe(false);
+  });
+});
+
+describe('normalizeLanguageList', () => {
+  test('drops q-values, wildcards and duplicates', () => {
+    expect(normalizeLanguageList('de-CH,de;q=0.9, en;q=0.8,*;q=0.5,de')).toBe('de-CH,de,en');
+  });
+
+  test('returns undefined when no language tag is usable', () => {
+    expect(normalizeLanguageList(undefined)).toBeUndefined();
+    expect(normalizeLanguageList('*')).toBeUndefined();
+    expect(normalizeLanguageList('<script>')).toBeUndefined();
+  });
+
+  test('keeps at most five languages', () => {
+    expect(normalizeLanguageList('en,de,fr,it,es,pt')).toBe('en,de,fr,it,es');
+  });
+});
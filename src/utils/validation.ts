@@ -31,6 +31,34 @@ import {
 // Control verbose logging via environment variable. Default: false
 const DEBUG_LOGS = getEnvVar('DEBUG_LOGS') === 'true';
 
+/**
+ * Characters allowed in location searches: letters and digits in any script (with their
+ * combining marks), spaces, and the punctuation used in place names ("St. John's", "Sant·Adrià")
+ */
+export const SEARCH_QUERY_PATTERN = /^[\p{L}\p{M}\p{N}\s,.'’·\-_]+$/u;
+
+// A language tag such as "de", "pt-BR" or "zh-Hant-TW"
+const LANGUAGE_TAG = /^[a-z]{2,3}(?:-[a-z0-9]{1,8})*$/i;
+const MAX_LANGUAGES = 5;
+
+/**
+ * Turns an Accept-Language header or a comma-separated list into a plain list of language tags,
+ * most preferred first, for the geocoder's accept-language parameter
+ * @param value - e.g. "de-CH,de;q=0.9,en;q=0.8"
+ * @returns e.g. "de-CH,de,en", or undefined when no valid tag is present
+ */
+export const normalizeLanguageList = (value: string | null | undefined): string | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  // Browsers already list languages in order of preference, so q-values are dropped rather than sorted
+  const tags = value.split(',')
+    .map((part) => part.split(';')[0].trim())
+    .filter((tag) => LANGUAGE_TAG.test(tag));
+  const unique = Array.from(new Set(tags)).slice(0, MAX_LANGUAGES);
+  return unique.length > 0 ? unique.join(',') : undefined;
+};
+
 /**
  * Type guard to check if a value is a valid date string
  * @param dateStr - Value to check
@@ -102,14 +130,14 @@ export const validateAndSanitizeSearchQuery = (query: string): string | false =>
   try {
     validateString(query, 'search query');
 
-    const trimmed = query.trim();
+    // NFC so "Zürich" typed with a combining umlaut matches the precomposed spelling
+    const trimmed = query.normalize('NFC').trim();
     // Must be between 1 and 100 characters (after trimming)
     invariant(trimmed.length >= 1 && trimmed.length <= 100, 'Search query must be between 1 and 100 characters');
     // Reject queries that contain only whitespace
     invariant(!/^\s*$/.test(trimmed), 'Search query cannot be only whitespace');
-    // Only allow alphanumeric characters, spaces, commas, hyphens, periods, and single quotes
-    const allowedChars = /^[-a-zA-Z0-9\s,.'.]+$/;
-    invariant(allowedChars.test(trimmed), 'Search query contains invalid characters');
+    // Only allow letters and digits in any script, spaces and place-name punctuation
+    invariant(SEARCH_QUERY_PATTERN.test(trimmed), 'Search query contains invalid characters');
 
     // Sanitize the query to prevent XSS - but keep single quotes unescaped since they're allowed
     // Use a more targeted escaping that doesn't escape single quotes
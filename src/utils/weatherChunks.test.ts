@@ -0,0 +1,59 @@
+import { SelectedWeatherData } from '../open-meteo';
+
+import { findMissingRanges, mergeWeatherDays, splitWeatherByDay } from './weatherChunks';
+
+const buildWeather = (dates: string[]): SelectedWeatherData => ({
+  daily: {
+    time: dates.map((date) => new Date(date)),
+    temperature_2m_max: dates.map((_, i) => 20 + i),
+  },
+  hourly: {
+    time: dates.flatMap((date) => ['00:00', '12:00', '23:00'].map((hour) => new Date(`${date}T${hour}`))),
+    temperature_2m: dates.flatMap((_, i) => [i, i + 0.5, i + 0.9]),
+  },
+} as unknown as SelectedWeatherData);
+
+describe('weatherChunks', () => {
+  const dates = ['2024-01-30', '2024-01-31', '2024-02-01'];
+
+  test('splitWeatherByDay gives each local day its daily and hourly values', () => {
+    const days = splitWeatherByDay(buildWeather(dates), dates);
+
+    expect([...days.keys()]).toEqual(dates);
+    const second = days.get('2024-01-31') as SelectedWeatherData;
+    expect(second.daily.temperature_2m_max).toEqual([21]);
+    expect(second.hourly.temperature_2m).toEqual([1, 1.5, 1.9]);
+    expect(second.hourly.time.map((time) => time.getHours())).toEqual([0, 12, 23]);
+  });
+
+  test('splitWeatherByDay keeps empty chunks for dates without data', () => {
+    const days = splitWeatherByDay(buildWeather(['2024-01-30']), ['2024-01-30', '2024-01-31']);
+    expect(days.get('2024-01-31')).toEqual({
+      daily: { time: [], temperature_2m_max: [] },
+      hourly: { time: [], temperature_2m: [] },
+    });
+  });
+
+  test('mergeWeatherDays reassembles the original response', () => {
+    const weather = buildWeather(dates);
+    const days = splitWeatherByDay(weather, dates);
+    expect(mergeWeatherDays(dates.map((date) => days.get(date) as SelectedWeatherData))).toEqual(weather);
+  });
+
+  test('chunks keep the grid cell through a split and merge', () => {
+    const grid = { latitude: 40.7, longitude: -74, elevation: 51 };
+    const days = splitWeatherByDay({ ...buildWeather(dates), grid }, dates);
+    expect(days.get('2024-01-31')?.grid).toEqual(grid);
+    expect(mergeWeatherDays([...days.values()]).grid).toEqual(grid);
+  });
+
+  test('findMissingRanges groups uncached dates into contiguous ranges', () => {
+    const all = ['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05'];
+    const cached = new Set(['2024-01-03']);
+    expect(findMissingRanges(all, (date) => cached.has(date))).toEqual([
+      { start: '2024-01-01', end: '2024-01-02' },
+      { start: '2024-01-04', end: '2024-01-05' },
+    ]);
+    expect(findMissingRanges(all, () => true)).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Splits weather responses into one chunk per local day and merges chunks back
+ * into a single response, so the server can cache days and serve any range from them.
+ */
+
+import { format } from 'date-fns';
+
+import { SelectedWeatherData } from '../open-meteo';
+
+/** Inclusive range of YYYY-MM-DD dates */
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+type WeatherArrays = Record<string, unknown[]>;
+
+// Daily times are parsed from YYYY-MM-DD and land on UTC midnight;
+// hourly times are parsed as server-local wall-clock times (see toLocalIsoTimestamp)
+const dailyDateKey = (time: Date): string => time.toISOString().slice(0, 10);
+const hourlyDateKey = (time: Date): string => format(time, 'yyyy-MM-dd');
+
+const pickIndices = (arrays: WeatherArrays, indices: number[]): WeatherArrays =>
+  Object.fromEntries(Object.entries(arrays).map(([name, values]) => [name, indices.map((i) => values[i])]));
+
+const indicesByDate = (times: Date[], dateKey: (time: Date) => string): Map<string, number[]> => {
+  const byDate = new Map<string, number[]>();
+  times.forEach((time, index) => {
+    const key = dateKey(time);
+    const indices = byDate.get(key);
+    if (indices) {
+      indices.push(index);
+    } else {
+      byDate.set(key, [index]);
+    }
+  });
+  return byDate;
+};
+
+/**
+ * Splits weather into one chunk per date. Every requested date gets a chunk,
+ * with empty arrays when the response had nothing for it, so it is not fetched again.
+ * @param weather - Weather for a range of dates
+ * @param dates - Dates the weather was requested for (YYYY-MM-DD)
+ * @returns Chunks keyed by date, in the order of dates
+ */
+export const splitWeatherByDay = (weather: SelectedWeatherData, dates: string[]): Map<string, SelectedWeatherData> => {
+  const daily = indicesByDate(weather.daily.time, dailyDateKey);
+  const hourly = indicesByDate(weather.hourly.time, hourlyDateKey);
+
+  return new Map(dates.map((date) => [date, {
+    daily: pickIndices(weather.daily as unknown as WeatherArrays, daily.get(date) ?? []),
+    hourly: pickIndices(weather.hourly as unknown as WeatherArrays, hourly.get(date) ?? []),
+    ...(weather.grid && { grid: weather.grid }),
+  } as unknown as SelectedWeatherData]));
+};
+
+/**
+ * Concatenates day chunks into one response, keeping each variable's values in chunk order
+ * and the grid cell they were resolved to
+ * @param chunks - Chunks in date order, all with the same variable selection
+ * @returns Weather covering every chunk
+ */
+export const mergeWeatherDays = (chunks: SelectedWeatherData[]): SelectedWeatherData => {
+  const merge = (parts: WeatherArrays[]): WeatherArrays => {
+    const merged: WeatherArrays = { time: [] };
+    parts.forEach((part) => {
+      Object.entries(part).forEach(([name, values]) => {
+        merged[name] ??= [];
+        values.forEach((value) => merged[name].push(value));
+      });
+    });
+    return merged;
+  };
+
+  // Every chunk comes from the same grid cell; older chunks may not record it
+  const grid = chunks.find((chunk) => chunk.grid)?.grid;
+  return {
+    daily: merge(chunks.map((chunk) => chunk.daily as unknown as WeatherArrays)),
+    hourly: merge(chunks.map((chunk) => chunk.hourly as unknown as WeatherArrays)),
+    ...(grid && { grid }),
+  } as unknown as SelectedWeatherData;
+};
+
+/**
+ * Groups the dates that are not cached into contiguous ranges, so each gap takes one request
+ * @param dates - Consecutive dates in order (YYYY-MM-DD)
+ * @param isCached - Whether a date is already available
+ * @returns Ranges of missing dates
+ */
+export const findMissingRanges = (dates: string[], isCached: (date: string) => boolean): DateRange[] => {
+  const ranges: DateRange[] = [];
+  let current: DateRange | null = null;
+  for (const date of dates) {
+    if (isCached(date)) {
+      current = null;
+    } else if (current) {
+      current.end = date;
+    } else {
+      current = { start: date, end: date };
+      ranges.push(current);
+    }
+  }
+  return ranges;
+};
@@ -0,0 +1,135 @@
+import { DailyWeatherData, HourlyWeatherData } from '../open-meteo';
+
+import {
+  escapeCsvValue,
+  buildCsv,
+  toLocalIsoTimestamp,
+  weatherToCsv,
+  weatherToColumnar,
+  iterateWeatherRecords,
+  getExportFilename,
+  DAILY_COLUMN_UNITS,
+  HOURLY_COLUMN_UNITS
+} from './weatherExport';
+
+// Build full-width arrays so every exported column has a value
+const fill = <T extends string>(keys: T[], length: number, value: number) =>
+  Object.fromEntries(keys.map((key) => [key, Array.from({ length }, () => value)])) as Record<T, number[]>;
+
+const makeWeather = () => {
+  const daily = {
+    ...fill(Object.keys(DAILY_COLUMN_UNITS) as (keyof typeof DAILY_COLUMN_UNITS)[], 1, 1),
+    // Date-only strings parse as UTC midnight, like parseAPITimeString does
+    time: [new Date('2023-06-15')],
+    sunrise: ['2023-06-15T05:25'],
+    sunset: ['2023-06-15T20:30'],
+    temperature_2m_max: [25.4]
+  } as unknown as DailyWeatherData;
+  const hourly = {
+    ...fill(Object.keys(HOURLY_COLUMN_UNITS) as (keyof typeof HOURLY_COLUMN_UNITS)[], 2, 0),
+    // Local wall-clock strings parse in the server's timezone
+    time: [new Date('2023-06-15T00:00'), new Date('2023-06-15T01:00')],
+    temperature_2m: [18.2, null]
+  } as unknown as HourlyWeatherData;
+  return { daily, hourly };
+};
+
+describe('weatherExport', () => {
+  test('escapeCsvValue quotes delimiters and leaves nulls empty', () => {
+    expect(escapeCsvValue('plain')).toBe('plain');
+    expect(escapeCsvValue('a,b')).toBe('"a,b"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue(null)).toBe('');
+    expect(escapeCsvValue(0)).toBe('0');
+  });
+
+  test('buildCsv joins rows with CRLF', () => {
+    expect(buildCsv(['a', 'b'], [[1, 2]])).toBe('a,b\r\n1,2\r\n');
+  });
+
+  test('toLocalIsoTimestamp attaches the location offset to wall-clock times', () => {
+    expect(toLocalIsoTimestamp(new Date('2023-06-15T14:00'), 'America/New_York')).toBe('2023-06-15T14:00-04:00');
+    expect(toLocalIsoTimestamp('2023-01-15T14:00', 'Europe/Berlin')).toBe('2023-01-15T14:00+01:00');
+    expect(toLocalIsoTimestamp(null, 'UTC')).toBe('');
+  });
+
+  test('weatherToCsv exports daily rows with unit headers', () => {
+    const lines = weatherToCsv(makeWeather(), 'America/New_York', 'daily').trim().split('\r\n');
+    const headers = lines[0].split(',');
+
+    expect(headers[0]).toBe('date');
+    expect(headers).toContain('temperature_2m_max (°C)');
+    expect(headers).toContain('snowfall_sum (cm)');
+    expect(lines).toHaveLength(2);
+
+    const row = lines[1].split(',');
+    expect(row[0]).toBe('2023-06-15');
+    expect(row[headers.indexOf('temperature_2m_max (°C)')]).toBe('25.4');
+    expect(row[headers.indexOf('sunrise (ISO 8601)')]).toBe('2023-06-15T05:25-04:00');
+  });
+
+  test('weatherToCsv exports hourly rows with local timestamps', () => {
+    const lines = weatherToCsv(makeWeather(), 'America/New_York', 'hourly').trim().split('\r\n');
+    const headers = lines[0].split(',');
+
+    expect(headers[0]).toBe('time (America/New_York)');
+    expect(lines).toHaveLength(3);
+    expect(lines[1].startsWith('2023-06-15T00:00-04:00,18.2,')).toBe(true);
+    expect(lines[2].split(',')[headers.indexOf('temperature_2m (°C)')]).toBe('');
+  });
+
+  test('weatherToColumnar returns one array per variable with units', () => {
+    const columnar = weatherToColumnar(makeWeather(), 'America/New_York', 'hourly');
+
+    expect(columnar.rows).toBe(2);
+    expect(Object.keys(columnar.columns)).toHaveLength(Object.keys(HOURLY_COLUMN_UNITS).length + 1);
+    expect(columnar.columns.time).toEqual(['2023-06-15T00:00-04:00', '2023-06-15T01:00-04:00']);
+    expect(columnar.columns.temperature_2m).toEqual([18.2, null]);
+    expect(columnar.units.pressure_msl).toBe('hPa');
+  });
+
+  test('iterateWeatherRecords yields one flat object per hour', () => {
+    const records = Array.from(iterateWeatherRecords(makeWeather(), 'America/New_York', 'hourly'));
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({ time: '2023-06-15T00:00-04:00', temperature_2m: 18.2, windspeed_10m: 0 });
+    expect(Object.keys(records[0])).toHaveLength(Object.keys(HOURLY_COLUMN_UNITS).length + 1);
+  });
+
+  test('only exports the variables present in the response', () => {
+    const weather = {
+      daily: { time: [new Date('2023-06-15')], temperature_2m_max: [25.4] },
+      hourly: { time: [] }
+    };
+    const columnar = weatherToColumnar(weather, 'America/New_York', 'daily');
+
+    expect(Object.keys(columnar.columns)).toEqual(['date', 'temperature_2m_max']);
+    expect(weatherToColumnar(weather, 'America/New_York', 'hourly').rows).toBe(0);
+  });
+
+  test('converts values and unit labels to the requested units', () => {
+    const units = { temperature: 'F', windSpeed: 'mph', precipitation: 'in', pressure: 'inHg' } as const;
+    const lines = weatherToCsv(makeWeather(), 'America/New_York', 'daily', units).trim().split('\r\n');
+    const headers = lines[0].split(',');
+    const row = lines[1].split(',');
+
+    expect(row[headers.indexOf('temperature_2m_max (°F)')]).toBe('77.72');
+    expect(row[headers.indexOf('windspeed_10m_max (mph)')]).toBe('0.621');
+    expect(row[headers.indexOf('snowfall_sum (in)')]).toBe('0.394');
+    // Variables without a preference keep their unit
+    expect(headers).toContain('shortwave_radiation_sum (MJ/m²)');
+
+    const columnar = weatherToColumnar(makeWeather(), 'America/New_York', 'hourly', units);
+    expect(columnar.units.pressure_msl).toBe('inHg');
+    expect(columnar.columns.temperature_2m).toEqual([64.76, null]);
+  });
+
+  test('getExportFilename prefers a slug of the location name', () => {
+    expect(getExportFilename({ name: 'São Paulo, BR', lat: -23.5, lon: -46.6 }, '2023-06-15', '2023-06-16', 'hourly', 'ndjson'))
+      .toBe('sao-paulo-br_2023-06-15_2023-06-16_hourly.ndjson');
+    expect(getExportFilename({ lat: 40.7, lon: -74 }, '2023-06-15', '2023-06-16', 'daily', 'csv'))
+      .toBe('weather_40.7_-74_2023-06-15_2023-06-16_daily.csv');
+    expect(getExportFilename({ name: '東京', lat: 35.7, lon: 139.7 }, '2023-06-15', '2023-06-15', 'daily', 'json'))
+      .toBe('weather_35.7_139.7_2023-06-15_2023-06-15_daily.json');
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Helpers for exporting weather data as downloadable files (CSV).
+ */
+
+import { format } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+import { DailyVariable, HourlyVariable, SelectedWeatherData } from '../open-meteo';
+import { UnitPreferences } from '../types';
+
+import { METRIC_UNITS, UnitQuantity, convertValue, getUnitLabel } from './units';
+
+/** Which weather arrays an export contains */
+export type WeatherExportDataset = 'daily' | 'hourly';
+
+/** Units of the daily variables as returned by Open-Meteo with default settings */
+export const DAILY_COLUMN_UNITS: Record<DailyVariable, string> = {
+  weathercode: 'WMO code',
+  temperature_2m_max: '°C',
+  temperature_2m_min: '°C',
+  apparent_temperature_max: '°C',
+  apparent_temperature_min: '°C',
+  sunrise: 'ISO 8601',
+  sunset: 'ISO 8601',
+  precipitation_sum: 'mm',
+  rain_sum: 'mm',
+  showers_sum: 'mm',
+  snowfall_sum: 'cm',
+  precipitation_hours: 'h',
+  windspeed_10m_max: 'km/h',
+  windgusts_10m_max: 'km/h',
+  winddirection_10m_dominant: '°',
+  shortwave_radiation_sum: 'MJ/m²',
+  et0_fao_evapotranspiration: 'mm',
+};
+
+/** Units of the hourly variables as returned by Open-Meteo with default settings */
+export const HOURLY_COLUMN_UNITS: Record<HourlyVariable, string> = {
+  temperature_2m: '°C',
+  relativehumidity_2m: '%',
+  dewpoint_2m: '°C',
+  apparent_temperature: '°C',
+  pressure_msl: 'hPa',
+  surface_pressure: 'hPa',
+  precipitation: 'mm',
+  rain: 'mm',
+  snowfall: 'cm',
+  weathercode: 'WMO code',
+  cloudcover: '%',
+  cloudcover_low: '%',
+  cloudcover_mid: '%',
+  cloudcover_high: '%',
+  shortwave_radiation: 'W/m²',
+  direct_radiation: 'W/m²',
+  diffuse_radiation: 'W/m²',
+  direct_normal_irradiance: 'W/m²',
+  windspeed_10m: 'km/h',
+  winddirection_10m: '°',
+  windgusts_10m: 'km/h',
+  temperature_80m: '°C',
+};
+
+/**
+ * Quotes a CSV cell when it contains a delimiter, quote or line break
+ * @param value - Cell value
+ * @returns Escaped cell text; null and undefined become empty cells
+ */
+export const escapeCsvValue = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds CSV text from a header row and data rows (RFC 4180 line endings)
+ */
+export const buildCsv = (headers: string[], rows: (string | number | null | undefined)[][]): string => {
+  const lines = [headers, ...rows].map((row) => row.map(escapeCsvValue).join(','));
+  return `${lines.join('\r\n')}\r\n`;
+};
+
+/**
+ * Formats an Open-Meteo time as an ISO 8601 timestamp with the location's UTC offset.
+ * Open-Meteo returns local wall-clock times without an offset, which the server
+ * parses in its own timezone, so the wall-clock fields are read back before the
+ * location's offset is attached.
+ * @param time - Time from the weather response (Date or string)
+ * @param timezone - IANA timezone of the location
+ * @returns Timestamp such as 2023-06-15T14:00-04:00, or an empty string if invalid
+ */
+export const toLocalIsoTimestamp = (time: Date | string | null | undefined, timezone: string): string => {
+  if (!time) {
+    return '';
+  }
+  const wallClock = typeof time === 'string' ? time : format(time, "yyyy-MM-dd'T'HH:mm");
+  try {
+    const instant = fromZonedTime(wallClock, timezone);
+    if (isNaN(instant.getTime())) {
+      return '';
+    }
+    return formatInTimeZone(instant, timezone, "yyyy-MM-dd'T'HH:mmxxx");
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Formats a daily time as a calendar date (YYYY-MM-DD).
+ * Date-only strings parse as UTC midnight, so the UTC date is the calendar date.
+ */
+const toIsoDate = (time: Date | string): string => {
+  return typeof time === 'string' ? time.slice(0, 10) : time.toISOString().slice(0, 10);
+};
+
+/** One exported column: variable name, unit label and values in time order */
+export interface ExportColumn {
+  name: string;
+  unit: string;
+  values: (string | number | null)[];
+}
+
+/** Variables whose values and unit labels follow the unit preferences */
+const COLUMN_QUANTITIES: Partial<Record<DailyVariable | HourlyVariable, UnitQuantity>> = {
+  temperature_2m_max: 'temperature',
+  temperature_2m_min: 'temperature',
+  apparent_temperature_max: 'temperature',
+  apparent_temperature_min: 'temperature',
+  precipitation_sum: 'precipitation',
+  rain_sum: 'precipitation',
+  showers_sum: 'precipitation',
+  snowfall_sum: 'snowfall',
+  windspeed_10m_max: 'windSpeed',
+  windgusts_10m_max: 'windSpeed',
+  et0_fao_evapotranspiration: 'precipitation',
+  temperature_2m: 'temperature',
+  dewpoint_2m: 'temperature',
+  apparent_temperature: 'temperature',
+  temperature_80m: 'temperature',
+  pressure_msl: 'pressure',
+  surface_pressure: 'pressure',
+  precipitation: 'precipitation',
+  rain: 'precipitation',
+  snowfall: 'snowfall',
+  windspeed_10m: 'windSpeed',
+  windgusts_10m: 'windSpeed',
+};
+
+/**
+ * Builds an export column, converting values to the preferred units where the variable has one.
+ * Converted values are rounded to 3 decimals to drop floating-point noise.
+ */
+const toExportColumn = (
+  variable: DailyVariable | HourlyVariable,
+  unit: string,
+  values: (string | number | null)[],
+  units: UnitPreferences
+): ExportColumn => {
+  const quantity = COLUMN_QUANTITIES[variable];
+  if (!quantity) {
+    return { name: variable, unit, values };
+  }
+  return {
+    name: variable,
+    unit: getUnitLabel(quantity, units),
+    values: values.map((value) => (typeof value === 'number' ? Math.round(convertValue(value, quantity, units) * 1000) / 1000 : value)),
+  };
+};
+
+/**
+ * Flattens one dataset of a weather response into named columns, time first.
+ * Timestamps are ISO 8601 in the location's timezone; daily rows use calendar dates.
+ * Only variables present in the response are exported.
+ * @param weather - Daily and hourly weather arrays
+ * @param timezone - IANA timezone of the location
+ * @param dataset - Which arrays to export
+ * @param units - Units to convert values to (metric by default, as stored)
+ * @returns Columns in a stable order
+ */
+export const getExportColumns = (
+  weather: SelectedWeatherData,
+  timezone: string,
+  dataset: WeatherExportDataset,
+  units: UnitPreferences = METRIC_UNITS
+): ExportColumn[] => {
+  if (dataset === 'daily') {
+    const variables = (Object.keys(DAILY_COLUMN_UNITS) as DailyVariable[]).filter((variable) => weather.daily[variable]);
+    const times = weather.daily.time ?? [];
+    return [
+      { name: 'date', unit: 'YYYY-MM-DD', values: times.map(toIsoDate) },
+      ...variables.map((variable) => toExportColumn(
+        variable,
+        DAILY_COLUMN_UNITS[variable],
+        times.map((_, index) => {
+          const value = weather.daily[variable]?.[index] ?? null;
+          return variable === 'sunrise' || variable === 'sunset'
+            ? toLocalIsoTimestamp(value as string | null, timezone) || null
+            : value;
+        }),
+        units
+      )),
+    ];
+  }
+
+  const variables = (Object.keys(HOURLY_COLUMN_UNITS) as HourlyVariable[]).filter((variable) => weather.hourly[variable]);
+  const times = weather.hourly.time ?? [];
+  return [
+    { name: 'time', unit: timezone, values: times.map((time) => toLocalIsoTimestamp(time, timezone)) },
+    ...variables.map((variable) => toExportColumn(
+      variable,
+      HOURLY_COLUMN_UNITS[variable],
+      times.map((_, index) => weather.hourly[variable]?.[index] ?? null),
+      units
+    )),
+  ];
+};
+
+/**
+ * Converts one dataset of a weather response to CSV with unit-labelled headers
+ * @param weather - Daily and hourly weather arrays
+ * @param timezone - IANA timezone of the location, used for timestamps
+ * @param dataset - Which arrays to export
+ * @param units - Units to convert values to
+ * @returns CSV text
+ */
+export const weatherToCsv = (
+  weather: SelectedWeatherData,
+  timezone: string,
+  dataset: WeatherExportDataset,
+  units: UnitPreferences = METRIC_UNITS
+): string => {
+  const columns = getExportColumns(weather, timezone, dataset, units);
+  const headers = columns.map((column, index) => (index === 0 && dataset === 'daily' ? column.name : `${column.name} (${column.unit})`));
+  const rows = columns[0].values.map((_, row) => columns.map((column) => column.values[row]));
+  return buildCsv(headers, rows);
+};
+
+/**
+ * Converts one dataset to a columnar layout: one array per variable plus units.
+ * Maps directly onto Parquet/Arrow columns without reshaping.
+ */
+export const weatherToColumnar = (
+  weather: SelectedWeatherData,
+  timezone: string,
+  dataset: WeatherExportDataset,
+  units: UnitPreferences = METRIC_UNITS
+): { rows: number; units: Record<string, string>; columns: Record<string, (string | number | null)[]> } => {
+  const columns = getExportColumns(weather, timezone, dataset, units);
+  return {
+    rows: columns[0].values.length,
+    units: Object.fromEntries(columns.map((column) => [column.name, column.unit])),
+    columns: Object.fromEntries(columns.map((column) => [column.name, column.values])),
+  };
+};
+
+/**
+ * Yields one flat record per row (per hour or per day), e.g. for NDJSON streaming
+ */
+export function* iterateWeatherRecords(
+  weather: SelectedWeatherData,
+  timezone: string,
+  dataset: WeatherExportDataset,
+  units: UnitPreferences = METRIC_UNITS
+): Generator<Record<string, string | number | null>> {
+  const columns = getExportColumns(weather, timezone, dataset, units);
+  for (let row = 0; row < columns[0].values.length; row++) {
+    yield Object.fromEntries(columns.map((column) => [column.name, column.values[row]]));
+  }
+}
+
+/**
+ * Turns a location name into a filename-safe slug ("São Paulo" -> "sao-paulo")
+ */
+const slugify = (name: string): string => {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+};
+
+/**
+ * Builds a descriptive download filename for an export, preferring the location name
+ * @returns Filename such as new-york_2023-06-15_2023-06-16_hourly.ndjson, or
+ *   weather_40.7128_-74.006_2023-06-15_2023-06-16_hourly.csv without a usable name
+ */
+export const getExportFilename = (
+  place: { name?: string; lat: number; lon: number },
+  start: string,
+  end: string,
+  dataset: string,
+  extension: string
+): string => {
+  const slug = place.name ? slugify(place.name) : '';
+  const prefix = slug || `weather_${place.lat}_${place.lon}`;
+  return `${prefix}_${start}_${end}_${dataset}.${extension}`;
+};
@@ -1,6 +1,6 @@
 import fc from 'fast-check';
 
-import { getLocalDayHours, formatLocalTime } from './weatherUtils';
+import { getLocalDayHours, formatLocalTime, getLocalRangeValues, groupHourlyIndicesByLocalDay } from './weatherUtils';
 
 // Mock the imported functions since we can't easily mock all dependencies
 jest.mock('./dateUtils', () => ({
@@ -96,6 +96,33 @@ describe('Weather Utilities - Property Based Tests', () => {
     });
   });
 
+  // eslint-disable-next-line no-secrets/no-secrets -- a function name, flagged only for its length
+  describe('groupHourlyIndicesByLocalDay', () => {
+    it('should group the same hours as filtering each day separately', () => {
+      const dates = ['2023-03-10', '2023-03-11', '2023-03-12', '2023-03-13'];
+      fc.assert(
+        fc.property(
+          fc.array(fc.integer({ min: 0, max: 24 * 6 }), { maxLength: 60 }),
+          fc.constantFrom('America/New_York', 'Asia/Kolkata', 'Pacific/Auckland', 'UTC'),
+          (hourOffsets, timezone) => {
+            const start = Date.UTC(2023, 2, 9);
+            const hourly = {
+              time: hourOffsets.map((offset) => new Date(start + offset * 3_600_000)),
+              temperature_2m: hourOffsets.map((_, i) => i),
+            };
+            const location = { timezone };
+
+            const groups = groupHourlyIndicesByLocalDay(hourly, location, dates);
+            return dates.every((date) => {
+              const expected = getLocalRangeValues(hourly as any, location, date, date, 'temperature_2m').values;
+              return JSON.stringify(groups.get(date) ?? []) === JSON.stringify(expected);
+            });
+          }
+        )
+      );
+    });
+  });
+
   describe('formatLocalTime', () => {
     it('should handle various timezone formats', () => {
       const commonTimezones = [
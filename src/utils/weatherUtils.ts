@@ -1,10 +1,10 @@
 import { addDays } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
 
-import { HourlyWeatherData } from '../open-meteo';
+import { HourlyVariable, HourlyWeatherData, SelectedWeatherData } from '../open-meteo';
 import { Location } from '../types';
 
-import { formatTimeInTimezone, parseDateString } from './dateUtils';
+import { formatTimeInTimezone, formatDateInTimezone, parseDateString } from './dateUtils';
 
 export interface FilteredHourlyData {
   times: string[];
@@ -14,16 +14,56 @@ export interface FilteredHourlyData {
   cloudcover: number[];
 }
 
-export const getLocalDayHours = (hourly: HourlyWeatherData, location: Location, startDate: string): FilteredHourlyData => {
-    if (!location || !startDate || !hourly) {
-      console.log('[DEBUG] getLocalDayHours: Missing inputs', { location: !!location, startDate, hourly: !!hourly });
+export interface FilteredWindData {
+  times: string[];
+  speeds: (number | null)[];
+  directions: (number | null)[];
+  gusts: (number | null)[];
+}
+
+export interface FilteredAtmosphereData {
+  times: string[];
+  humidity: (number | null)[];
+  dewpoint: (number | null)[];
+  pressure: (number | null)[];
+}
+
+export interface FilteredSolarData {
+  times: string[];
+  shortwave: (number | null)[];
+  direct: (number | null)[];
+  diffuse: (number | null)[];
+  directNormal: (number | null)[];
+}
+
+/**
+ * Local-time window covering the days between startDate and endDate (both inclusive)
+ */
+const getLocalRangeBounds = (location: Pick<Location, 'timezone'>, startDate: string, endDate: string): { startLocal: Date; endLocal: Date } | null => {
+  const startUtc = parseDateString(startDate);
+  const lastDayUtc = parseDateString(endDate);
+  if (!startUtc || !lastDayUtc || lastDayUtc < startUtc) {
+    return null;
+  }
+  return {
+    startLocal: toZonedTime(startUtc, location.timezone),
+    endLocal: toZonedTime(addDays(lastDayUtc, 1), location.timezone),
+  };
+};
+
+/**
+ * Filters hourly data to the local days between startDate and endDate (both inclusive)
+ */
+export const getLocalRangeHours = (hourly: HourlyWeatherData, location: Location, startDate: string, endDate: string): FilteredHourlyData => {
+    if (!location || !startDate || !endDate || !hourly) {
+      console.log('[DEBUG] getLocalRangeHours: Missing inputs', { location: !!location, startDate, endDate, hourly: !!hourly });
       return { times: [], temps: [], precip: [], codes: [], cloudcover: [] };
     }
 
     // Check if hourly data arrays exist and have data
     if (!hourly.time || !hourly.temperature_2m || !hourly.precipitation ||
         !hourly.weathercode || !hourly.cloudcover) {
-      console.log('[DEBUG] getLocalDayHours: Missing hourly arrays', {
+      console.log('[DEBUG] getLocalRangeHours: Missing hourly arrays', {
         time: !!hourly.time,
         temperature_2m: !!hourly.temperature_2m,
         precipitation: !!hourly.precipitation,
@@ -34,16 +74,12 @@ export const getLocalDayHours = (hourly: HourlyWeatherData, location: Location,
       return { times: [], temps: [], precip: [], codes: [], cloudcover: [] };
     }
 
-    // Use parseDateString for consistency
-    const startUtc = parseDateString(startDate);
-    if (!startUtc) {
-      console.log('[DEBUG] getLocalDayHours: Invalid startDate', startDate);
+    const bounds = getLocalRangeBounds(location, startDate, endDate);
+    if (!bounds) {
+      console.log('[DEBUG] getLocalRangeHours: Invalid date range', { startDate, endDate });
       return { times: [], temps: [], precip: [], codes: [], cloudcover: [] };
     }
-    const endUtc = addDays(startUtc, 1);
-
-    const startLocal = toZonedTime(startUtc, location.timezone);
-    const endLocal = toZonedTime(endUtc, location.timezone);
+    const { startLocal, endLocal } = bounds;
 
     const sampleHourlyTime: Date | string | undefined = hourly.time[0];
     const sampleHourlyTimeStr = typeof sampleHourlyTime === 'string' ? sampleHourlyTime : sampleHourlyTime?.toISOString();
@@ -59,8 +95,9 @@ export const getLocalDayHours = (hourly: HourlyWeatherData, location: Location,
     }
     const sampleLocalTimeStr = sampleLocalTime.toISOString();
 
-    console.log('[DEBUG] getLocalDayHours: Date boundaries', {
+    console.log('[DEBUG] getLocalRangeHours: Date boundaries', {
       startDate,
+      endDate,
       timezone: location.timezone,
       startLocal: startLocal.toISOString(),
       endLocal: endLocal.toISOString(),
@@ -76,25 +113,25 @@ export const getLocalDayHours = (hourly: HourlyWeatherData, location: Location,
     const cloudcover: number[] = [];
 
     let filteredCount = 0;
-    // Filter hourly data for the selected day
+    // Filter hourly data for the selected days
     hourly.time.forEach((timeItem, i: number) => {
       let time: Date;
       if (typeof timeItem === 'string') {
         time = new Date(timeItem);
         if (isNaN(time.getTime())) {
-          console.warn('[DEBUG] getLocalDayHours: Invalid time string at index', i, timeItem);
+          console.warn('[DEBUG] getLocalRangeHours: Invalid time string at index', i, timeItem);
           return;
         }
       } else if (timeItem instanceof Date) {
         time = timeItem;
       } else {
-        console.warn('[DEBUG] getLocalDayHours: Invalid time type at index', i, typeof timeItem);
+        console.warn('[DEBUG] getLocalRangeHours: Invalid time type at index', i, typeof timeItem);
         return;
       }
 
       const localTime = toZonedTime(time, location.timezone);
 
-      // Check if this hour falls within our target day
+      // Check if this hour falls within our target days
       if (localTime >= startLocal && localTime < endLocal) {
         localTimes.push(localTime.toISOString());
         temps.push(hourly.temperature_2m[i]);
@@ -105,7 +142,7 @@ export const getLocalDayHours = (hourly: HourlyWeatherData, location: Location,
       }
     });
 
-    console.log('[DEBUG] getLocalDayHours: Filtered results', {
+    console.log('[DEBUG] getLocalRangeHours: Filtered results', {
       filteredCount,
       localTimes: localTimes.slice(0, 3), // First 3 for brevity
       tempsSample: temps.slice(0, 3),
@@ -115,6 +152,165 @@ export const getLocalDayHours = (hourly: HourlyWeatherData, location: Location,
     return { times: localTimes, temps, precip, codes, cloudcover };
   };
 
+/**
+ * Local times and array indices of the hours that fall on the local days between startDate and endDate
+ */
+const getLocalRangeIndices = (hourly: { time: (Date | string)[] }, location: Pick<Location, 'timezone'>, startDate: string, endDate: string): { times: string[]; indices: number[] } => {
+  const result = { times: [] as string[], indices: [] as number[] };
+  const bounds = location && hourly?.time ? getLocalRangeBounds(location, startDate, endDate) : null;
+  if (!bounds) {
+    return result;
+  }
+
+  hourly.time.forEach((timeItem: Date | string, i: number) => {
+    const time = typeof timeItem === 'string' ? new Date(timeItem) : timeItem;
+    if (!(time instanceof Date) || isNaN(time.getTime())) {
+      return;
+    }
+    const localTime = toZonedTime(time, location.timezone);
+    if (localTime >= bounds.startLocal && localTime < bounds.endLocal) {
+      result.times.push(localTime.toISOString());
+      result.indices.push(i);
+    }
+  });
+  return result;
+};
+
+/**
+ * Array indices of the hours on each local day, keyed by the day's date (YYYY-MM-DD).
+ * Converts each hour to local time once, so per-day lookups stay linear in the number of hours.
+ */
+export const groupHourlyIndicesByLocalDay = (hourly: { time: (Date | string)[] }, location: Pick<Location, 'timezone'>, dates: string[]): Map<string, number[]> => {
+  const groups = new Map<string, number[]>();
+  const days = location && hourly?.time
+    ? [...new Set(dates)].sort()
+        .map((date) => ({ date, bounds: getLocalRangeBounds(location, date, date) }))
+        .filter((day): day is { date: string; bounds: { startLocal: Date; endLocal: Date } } => day.bounds !== null)
+    : [];
+  if (days.length === 0) {
+    return groups;
+  }
+
+  hourly.time.forEach((timeItem: Date | string, i: number) => {
+    const time = typeof timeItem === 'string' ? new Date(timeItem) : timeItem;
+    if (!(time instanceof Date) || isNaN(time.getTime())) {
+      return;
+    }
+    const localTime = toZonedTime(time, location.timezone);
+    // Last day starting at or before this hour
+    let low = 0;
+    let high = days.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (days[middle].bounds.startLocal <= localTime) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    const { date, bounds } = days[low];
+    if (localTime >= bounds.startLocal && localTime < bounds.endLocal) {
+      const indices = groups.get(date) ?? [];
+      indices.push(i);
+      groups.set(date, indices);
+    }
+  });
+  return groups;
+};
+
+/**
+ * Filters hourly wind speed, direction and gusts to the local days between startDate and endDate (both inclusive)
+ */
+export const getLocalRangeWind = (hourly: HourlyWeatherData, location: Location, startDate: string, endDate: string): FilteredWindData => {
+  if (!hourly?.windspeed_10m || !hourly.winddirection_10m) {
+    return { times: [], speeds: [], directions: [], gusts: [] };
+  }
+
+  const { times, indices } = getLocalRangeIndices(hourly, location, startDate, endDate);
+  return {
+    times,
+    speeds: indices.map((i) => hourly.windspeed_10m[i] ?? null),
+    directions: indices.map((i) => hourly.winddirection_10m[i] ?? null),
+    gusts: indices.map((i) => hourly.windgusts_10m?.[i] ?? null),
+  };
+};
+
+/**
+ * Filters hourly humidity, dew point and sea-level pressure to the local days between startDate and endDate (both inclusive)
+ */
+export const getLocalRangeAtmosphere = (hourly: HourlyWeatherData, location: Location, startDate: string, endDate: string): FilteredAtmosphereData => {
+  if (!hourly?.relativehumidity_2m) {
+    return { times: [], humidity: [], dewpoint: [], pressure: [] };
+  }
+
+  const { times, indices } = getLocalRangeIndices(hourly, location, startDate, endDate);
+  return {
+    times,
+    humidity: indices.map((i) => hourly.relativehumidity_2m[i] ?? null),
+    dewpoint: indices.map((i) => hourly.dewpoint_2m?.[i] ?? null),
+    pressure: indices.map((i) => hourly.pressure_msl?.[i] ?? null),
+  };
+};
+
+/**
+ * Filters hourly radiation (W/m²) to the local days between startDate and endDate (both inclusive)
+ */
+export const getLocalRangeSolar = (hourly: HourlyWeatherData, location: Location, startDate: string, endDate: string): FilteredSolarData => {
+  if (!hourly?.shortwave_radiation) {
+    return { times: [], shortwave: [], direct: [], diffuse: [], directNormal: [] };
+  }
+
+  const { times, indices } = getLocalRangeIndices(hourly, location, startDate, endDate);
+  return {
+    times,
+    shortwave: indices.map((i) => hourly.shortwave_radiation[i] ?? null),
+    direct: indices.map((i) => hourly.direct_radiation?.[i] ?? null),
+    diffuse: indices.map((i) => hourly.diffuse_radiation?.[i] ?? null),
+    directNormal: indices.map((i) => hourly.direct_normal_irradiance?.[i] ?? null),
+  };
+};
+
+/**
+ * Filters any hourly variable to the local days between startDate and endDate (both inclusive)
+ */
+export const getLocalRangeValues = (
+  hourly: SelectedWeatherData['hourly'],
+  location: Pick<Location, 'timezone'>,
+  startDate: string,
+  endDate: string,
+  variable: HourlyVariable
+): { times: string[]; values: (number | null)[] } => {
+  const series = hourly?.[variable];
+  if (!series) {
+    return { times: [], values: [] };
+  }
+
+  const { times, indices } = getLocalRangeIndices(hourly, location, startDate, endDate);
+  return { times, values: indices.map((i) => series[i] ?? null) };
+};
+
+/**
+ * Mean, minimum and maximum of the finite values, or null when there are none
+ */
+export const getValueStats = (values: (number | null | undefined)[]): { mean: number; min: number; max: number } | null => {
+  const finite = values.filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+  if (finite.length === 0) {
+    return null;
+  }
+  return {
+    mean: finite.reduce((sum, value) => sum + value, 0) / finite.length,
+    min: Math.min(...finite),
+    max: Math.max(...finite),
+  };
+};
+
+/**
+ * Filters hourly data to the single local day starting at startDate
+ */
+export const getLocalDayHours = (hourly: HourlyWeatherData, location: Location, startDate: string): FilteredHourlyData => {
+  return getLocalRangeHours(hourly, location, startDate, startDate);
+};
+
 export const formatLocalTime = (time: string, timezone: string): string => {
   try {
     return formatTimeInTimezone(time, timezone);
@@ -122,4 +318,35 @@ export const formatLocalTime = (time: string, timezone: string): string => {
     console.warn('Failed to format time for timezone:', timezone);
     return '00:00';
   }
-};
\ No newline at end of file
+};
+export const formatLocalDate = (time: string, timezone: string): string => {
+  try {
+    return formatDateInTimezone(time, timezone, 'MMM d');
+  } catch {
+    console.warn('Failed to format date for timezone:', timezone);
+    return '';
+  }
+};
+
+/** Maximum number of day labels drawn along a multi-day chart axis */
+const MAX_DAY_LABELS = 8;
+
+/**
+ * Chooses how many hours apart x-axis labels and grid lines should be.
+ * Single days are labelled every 3 hours; longer spans on whole-day boundaries.
+ */
+export const getHourLabelStep = (hoursToShow: number, isMultiDay: boolean): number => {
+  if (!isMultiDay) {
+    return 3;
+  }
+  const days = Math.max(1, Math.ceil(hoursToShow / 24));
+  return 24 * Math.max(1, Math.ceil(days / MAX_DAY_LABELS));
+};
+
+/**
+ * Whether two locations refer to the same place. Compared by coordinates since
+ * map-picked locations do not carry a stable geocoding id.
+ */
+export const isSameLocation = (a: Location, b: Location): boolean => {
+  return a.latitude === b.latitude && a.longitude === b.longitude;
+};
@@ -0,0 +1,39 @@
+import { buildWindRose, getCompassDirection, getPrevailingSector, getSpeedClassIndex, getSpeedClassLabels } from './windRose';
+
+describe('windRose', () => {
+  test('getCompassDirection names the nearest of 16 points', () => {
+    expect(getCompassDirection(0)).toBe('N');
+    expect(getCompassDirection(350)).toBe('N');
+    expect(getCompassDirection(225)).toBe('SW');
+    expect(getCompassDirection(-90)).toBe('W');
+  });
+
+  test('speed classes are labelled and indexed by their upper bounds', () => {
+    expect(getSpeedClassLabels()).toEqual(['<10', '10–20', '20–30', '30–40', '40+']);
+    expect(getSpeedClassIndex(5)).toBe(0);
+    expect(getSpeedClassIndex(10)).toBe(1);
+    expect(getSpeedClassIndex(55)).toBe(4);
+  });
+
+  test('buildWindRose bins hours by sector and speed class', () => {
+    const rose = buildWindRose([0, 355, 180, 90, null], [5, 25, 12, 0.5, 10]);
+
+    expect(rose.sampleCount).toBe(4);
+    expect(rose.calmShare).toBe(0.25);
+    expect(rose.sectors).toHaveLength(16);
+
+    const north = rose.sectors[0];
+    expect(north.label).toBe('N');
+    expect(north.total).toBe(0.5);
+    expect(north.frequencies).toEqual([0.25, 0, 0.25, 0, 0]);
+
+    const south = rose.sectors[8];
+    expect(south.label).toBe('S');
+    expect(south.frequencies[1]).toBe(0.25);
+  });
+
+  test('getPrevailingSector picks the most frequent sector', () => {
+    expect(getPrevailingSector(buildWindRose([225, 230, 90], [15, 15, 15]))?.label).toBe('SW');
+    expect(getPrevailingSector(buildWindRose([90], [0]))).toBeNull();
+  });
+});
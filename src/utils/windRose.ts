@@ -0,0 +1,111 @@
+/**
+ * Wind rose helpers: bin hourly wind directions into compass sectors,
+ * split by speed class.
+ */
+
+import { WIND_ROSE } from '../constants';
+
+/** One compass sector of a wind rose */
+export interface WindRoseSector {
+  /** Center of the sector in degrees clockwise from north */
+  direction: number;
+  label: string;
+  /** Share of all hours in each speed class, slowest first */
+  frequencies: number[];
+  /** Share of all hours in this sector */
+  total: number;
+}
+
+export interface WindRose {
+  sectors: WindRoseSector[];
+  /** Share of hours below the calm threshold, which have no meaningful direction */
+  calmShare: number;
+  /** Number of hours with both a speed and a direction */
+  sampleCount: number;
+}
+
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+const normalizeDegrees = (degrees: number): number => ((degrees % 360) + 360) % 360;
+
+/**
+ * Names the 16-point compass direction for a bearing
+ * @param degrees - Direction the wind blows from, clockwise from north
+ * @returns Compass point such as "SW"
+ */
+export const getCompassDirection = (degrees: number): string => {
+  return COMPASS_POINTS[Math.round(normalizeDegrees(degrees) / 22.5) % COMPASS_POINTS.length];
+};
+
+/** Labels of the speed classes, e.g. ["<10", "10–20", ..., "40+"] */
+export const getSpeedClassLabels = (limits: readonly number[] = WIND_ROSE.SPEED_LIMITS_KMH): string[] => {
+  return [
+    ...limits.map((limit, index) => (index === 0 ? `<${limit}` : `${limits[index - 1]}–${limit}`)),
+    `${limits[limits.length - 1]}+`,
+  ];
+};
+
+/** Index of the speed class a wind speed falls into */
+export const getSpeedClassIndex = (speed: number, limits: readonly number[] = WIND_ROSE.SPEED_LIMITS_KMH): number => {
+  const index = limits.findIndex((limit) => speed < limit);
+  return index === -1 ? limits.length : index;
+};
+
+/**
+ * Bins hourly wind into compass sectors by speed class
+ * @param directions - Hourly directions the wind blows from, in degrees
+ * @param speeds - Hourly wind speeds in km/h, aligned with directions
+ * @param sectorCount - Number of compass sectors
+ * @returns Sector frequencies as shares of all valid hours
+ */
+export const buildWindRose = (
+  directions: (number | null | undefined)[],
+  speeds: (number | null | undefined)[],
+  sectorCount: number = WIND_ROSE.SECTORS
+): WindRose => {
+  const sectorWidth = 360 / sectorCount;
+  const classCount = WIND_ROSE.SPEED_LIMITS_KMH.length + 1;
+  const counts = Array.from({ length: sectorCount }, () => new Array<number>(classCount).fill(0));
+  let calm = 0;
+  let sampleCount = 0;
+
+  directions.forEach((direction, index) => {
+    const speed = speeds[index];
+    if (typeof direction !== 'number' || typeof speed !== 'number' || !Number.isFinite(direction) || !Number.isFinite(speed)) {
+      return;
+    }
+    sampleCount++;
+    if (speed < WIND_ROSE.CALM_KMH) {
+      calm++;
+      return;
+    }
+    // Sectors are centered on their compass point, so north spans 348.75°–11.25°
+    const sector = Math.floor(normalizeDegrees(direction + sectorWidth / 2) / sectorWidth) % sectorCount;
+    counts[sector][getSpeedClassIndex(speed)]++;
+  });
+
+  const share = (count: number) => (sampleCount > 0 ? count / sampleCount : 0);
+  return {
+    sectors: counts.map((classCounts, index) => {
+      const direction = index * sectorWidth;
+      return {
+        direction,
+        label: getCompassDirection(direction),
+        frequencies: classCounts.map(share),
+        total: share(classCounts.reduce((sum, count) => sum + count, 0)),
+      };
+    }),
+    calmShare: share(calm),
+    sampleCount,
+  };
+};
+
+/**
+ * Sector the wind blew from most often, or null without any non-calm hours
+ */
+export const getPrevailingSector = (rose: WindRose): WindRoseSector | null => {
+  return rose.sectors.reduce<WindRoseSector | null>(
+    (best, sector) => (sector.total > 0 && (!best || sector.total > best.total) ? sector : best),
+    null
+  );
+};
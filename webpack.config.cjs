@@ -60,15 +60,20 @@ module.exports = (env, argv) => {
   const clientConfig = {
     ...commonConfig,
     target: 'web',
-    entry: './src/index.tsx',
+    entry: {
+      main: './src/index.tsx',
+      sw: './src/sw.ts',
+    },
     output: {
-      filename: isProduction ? '[name].[contenthash].js' : '[name].js',
+      // The service worker needs a stable URL at the site root
+      filename: (pathData) => (pathData.chunk.name === 'sw' ? 'sw.js' : isProduction ? '[name].[contenthash].js' : '[name].js'),
       path: path.resolve(process.cwd(), 'dist/client'),
       clean: true,
     },
     plugins: [
       new HtmlWebpackPlugin({
         template: './src/index.html',
+        chunks: ['main'],
       }),
       new Dotenv({
         path: './.env',
@@ -90,7 +95,8 @@ module.exports = (env, argv) => {
     },
     optimization: {
       splitChunks: {
-        chunks: 'all',
+        // The service worker runs on its own and cannot load shared chunks
+        chunks: (chunk) => chunk.name !== 'sw',
       },
       minimize: isProduction,
       minimizer: [